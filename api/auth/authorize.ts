@@ -5,6 +5,11 @@ import {
   createOAuthRedirectResponse,
 } from '../../lib/oauth-response-utils.js';
 import { config } from '../../lib/config.js';
+import { OAuthError } from '../../lib/errors.js';
+import { getClient } from '../../lib/oauth-clients.js';
+import { createPkcePair } from '../../lib/oauth-codes.js';
+import { encodeState } from '../../lib/oauth-state.js';
+import { requireSharedOAuthStore } from '../../lib/oauth-store.js';
 
 interface AuthorizationRequest {
   response_type: string;
@@ -17,16 +22,6 @@ interface AuthorizationRequest {
   resource?: string;
 }
 
-interface MCPClientInfo {
-  client_id: string;
-  redirect_uri: string;
-  original_state?: string;
-  code_challenge: string;
-  code_challenge_method: string;
-  resource?: string;
-  timestamp: number;
-}
-
 interface AuthorizationError {
   error: string;
   error_description?: string;
@@ -65,32 +60,12 @@ const VALIDATION_RULES = {
   },
 };
 
-// Allowed redirect URI schemes
-const ALLOWED_SCHEMES = [
-  'https',
-  'http',
-  'vscode',
-  'ms-vscode',
-  'chrome-extension',
-  'moz-extension',
-];
-
-// Dangerous schemes to block
-const DANGEROUS_SCHEMES = ['javascript', 'data', 'vbscript', 'file'];
-
 // Supported scopes lookup table
 const SUPPORTED_SCOPES = new Set([
   ...oauthConfig.oauth_integration.scopes.required,
   ...oauthConfig.oauth_integration.scopes.optional,
 ]);
 
-/**
- * Encodes MCP client information into state parameter
- */
-function encodeStateParameter(mcpClientInfo: MCPClientInfo): string {
-  return encodeURIComponent(btoa(JSON.stringify(mcpClientInfo)));
-}
-
 /**
  * Validates authorization request using rule-based validation
  */
@@ -121,10 +96,6 @@ function validateAuthorizationRequest(
     }
   }
 
-  // Validate redirect URI
-  const redirectUriError = validateRedirectUri(authRequest.redirect_uri);
-  if (redirectUriError) return redirectUriError;
-
   // Validate scope if provided
   if (authRequest.scope) {
     const scopeError = validateScope(authRequest.scope);
@@ -141,47 +112,30 @@ function validateAuthorizationRequest(
 }
 
 /**
- * Validates redirect URI with security checks
+ * Verifies the client is registered and the redirect URI exactly matches
+ * one of its registered redirect_uris. Until this passes, errors must not
+ * be redirected (RFC 6749 section 4.1.2.1).
  */
-function validateRedirectUri(redirectUri: string): AuthorizationError | null {
-  try {
-    const url = new URL(redirectUri);
-    const scheme = url.protocol.replace(':', '');
-
-    // Block dangerous schemes
-    if (DANGEROUS_SCHEMES.includes(scheme)) {
-      return {
-        error: 'invalid_request',
-        error_description: 'redirect_uri is not allowed',
-      };
-    }
-
-    // For localhost/dev: allow http only for localhost
-    if (
-      scheme === 'http' &&
-      !['localhost', '127.0.0.1', '::1'].includes(url.hostname)
-    ) {
-      return {
-        error: 'invalid_request',
-        error_description: 'redirect_uri is not allowed',
-      };
-    }
-
-    // Check allowed schemes
-    if (!ALLOWED_SCHEMES.includes(scheme)) {
-      return {
-        error: 'invalid_request',
-        error_description: 'redirect_uri is not allowed',
-      };
-    }
+async function validateClient(
+  authRequest: AuthorizationRequest
+): Promise<AuthorizationError | null> {
+  const client = await getClient(authRequest.client_id);
+  if (!client) {
+    return {
+      error: 'invalid_request',
+      error_description: 'client_id is not registered',
+    };
+  }
 
-    return null;
-  } catch {
+  if (!client.redirect_uris.includes(authRequest.redirect_uri)) {
     return {
       error: 'invalid_request',
-      error_description: 'redirect_uri is not allowed',
+      error_description:
+        'redirect_uri does not match a registered redirect URI',
     };
   }
+
+  return null;
 }
 
 /**
@@ -222,15 +176,15 @@ function validateResource(resource: string): AuthorizationError | null {
 
 /**
  * Handles authorization errors with proper redirect logic
+ * Only pass redirectUri once it has been matched against the client
  */
 function handleAuthorizationError(
   error: AuthorizationError,
   redirectUri?: string
 ): Response {
-  // Per RFC 6749, redirect to redirect_uri if it's valid and error is safe to redirect
+  // Per RFC 6749, redirect to redirect_uri if it's registered and error is safe to redirect
   const safeToRedirect =
     redirectUri &&
-    !validateRedirectUri(redirectUri) &&
     !['invalid_request', 'unauthorized_client'].includes(error.error);
 
   if (safeToRedirect) {
@@ -254,14 +208,17 @@ function handleAuthorizationError(
 
 /**
  * Builds Docusign authorization URL
+ * The PKCE challenge is the proxy's own; the client's challenge stays in the
+ * state and is checked at /token
  */
 function buildDocuSignAuthUrl(
   authRequest: AuthorizationRequest,
-  encodedState: string
+  encodedState: string,
+  codeChallenge: string
 ): string {
-  const docusignAuthServer = config.docusign.baseUrl;
+  const { auth_server } = oauthConfig.oauth_integration;
   const docusignAuthUrl = new URL(
-    `${docusignAuthServer}${oauthConfig.oauth_integration.auth_server.authorization_endpoint}`
+    `${auth_server.base_url}${auth_server.authorization_endpoint}`
   );
 
   // Set required parameters
@@ -276,20 +233,16 @@ function buildDocuSignAuthUrl(
   docusignAuthUrl.searchParams.set('scope', scope.replace(/\+/g, ' '));
 
   // Set PKCE parameters
-  docusignAuthUrl.searchParams.set(
-    'code_challenge',
-    authRequest.code_challenge
-  );
-  docusignAuthUrl.searchParams.set(
-    'code_challenge_method',
-    authRequest.code_challenge_method
-  );
+  docusignAuthUrl.searchParams.set('code_challenge', codeChallenge);
+  docusignAuthUrl.searchParams.set('code_challenge_method', 'S256');
 
   return docusignAuthUrl.toString();
 }
 
 export async function GET(request: Request): Promise<Response> {
   try {
+    requireSharedOAuthStore();
+
     const url = new URL(request.url);
     const params = url.searchParams;
 
@@ -305,6 +258,18 @@ export async function GET(request: Request): Promise<Response> {
       resource: params.get('resource') || undefined,
     };
 
+    // Identify the client before anything is redirected to it
+    if (!authRequest.client_id || !authRequest.redirect_uri) {
+      return handleAuthorizationError({
+        error: 'invalid_request',
+        error_description: 'client_id and redirect_uri parameters are required',
+      });
+    }
+    const clientError = await validateClient(authRequest);
+    if (clientError) {
+      return handleAuthorizationError(clientError);
+    }
+
     // Validate the authorization request
     const validationError = validateAuthorizationRequest(authRequest);
     if (validationError) {
@@ -314,23 +279,34 @@ export async function GET(request: Request): Promise<Response> {
       );
     }
 
-    // Encode MCP client information in state parameter
-    const mcpClientInfo: MCPClientInfo = {
+    // Seal MCP client information and the proxy's PKCE verifier into an
+    // encrypted state parameter
+    const pkce = createPkcePair();
+    const encodedState = encodeState({
       client_id: authRequest.client_id,
       redirect_uri: authRequest.redirect_uri,
       original_state: authRequest.state,
       code_challenge: authRequest.code_challenge,
       code_challenge_method: authRequest.code_challenge_method,
       resource: authRequest.resource,
-      timestamp: Date.now(),
-    };
-
-    const encodedState = encodeStateParameter(mcpClientInfo);
-    const docusignAuthUrl = buildDocuSignAuthUrl(authRequest, encodedState);
+      docusign_code_verifier: pkce.codeVerifier,
+    });
+    const docusignAuthUrl = buildDocuSignAuthUrl(
+      authRequest,
+      encodedState,
+      pkce.codeChallenge
+    );
 
     // Redirect to Docusign for authorization
     return createOAuthRedirectResponse(docusignAuthUrl);
   } catch (error) {
+    if (error instanceof OAuthError) {
+      return createOAuthErrorResponse(
+        error.error,
+        error.message,
+        error.statusCode
+      );
+    }
     // Log error internally but don't expose details to client
     return createOAuthErrorResponse(
       'server_error',
@@ -3,46 +3,19 @@ import {
   createOAuthErrorResponse,
   createOAuthRedirectResponse,
 } from '../../lib/oauth-response-utils.js';
-import { config } from '../../lib/config.js';
-
-interface MCPClientInfo {
-  client_id: string;
-  redirect_uri: string;
-  original_state?: string;
-  code_challenge: string;
-  code_challenge_method: string;
-  resource?: string;
-  timestamp: number;
-}
-
-/**
- * Decodes and validates state parameter
- */
-function decodeStateParameter(state: string): MCPClientInfo | null {
-  try {
-    return JSON.parse(atob(decodeURIComponent(state))) as MCPClientInfo;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Validates state timestamp to prevent replay attacks
- */
-function validateStateTimestamp(mcpClientInfo: MCPClientInfo): boolean {
-  return (
-    Date.now() - mcpClientInfo.timestamp <= config.security.stateExpirationMs
-  );
-}
+import { OAuthError } from '../../lib/errors.js';
+import { issueAuthorizationCode } from '../../lib/oauth-codes.js';
+import { consumeState, type MCPClientInfo } from '../../lib/oauth-state.js';
+import { requireSharedOAuthStore } from '../../lib/oauth-store.js';
 
 /**
  * Handles Docusign error responses by redirecting to original client
  */
-function handleDocuSignError(
+async function handleDocuSignError(
   error: string,
   errorDescription: string | null,
   state: string | null
-): Response {
+): Promise<Response> {
   if (!state) {
     return createOAuthErrorResponse(
       error,
@@ -50,12 +23,18 @@ function handleDocuSignError(
     );
   }
 
-  const mcpClientInfo = decodeStateParameter(state);
-  if (!mcpClientInfo) {
-    return createOAuthErrorResponse(
-      error,
-      errorDescription || 'Authorization failed'
-    );
+  // Only a genuine, unused state may redirect the error to a client
+  let mcpClientInfo: MCPClientInfo;
+  try {
+    mcpClientInfo = await consumeState(state);
+  } catch (stateError) {
+    if (stateError instanceof OAuthError) {
+      return createOAuthErrorResponse(
+        error,
+        errorDescription || 'Authorization failed'
+      );
+    }
+    throw stateError;
   }
 
   // Build error redirect parameters
@@ -89,6 +68,8 @@ function buildSuccessRedirect(
 
 export async function GET(request: Request): Promise<Response> {
   try {
+    requireSharedOAuthStore();
+
     const url = new URL(request.url);
     const params = url.searchParams;
 
@@ -99,7 +80,7 @@ export async function GET(request: Request): Promise<Response> {
 
     // Handle error response from Docusign
     if (error) {
-      return handleDocuSignError(error, errorDescription, state);
+      return await handleDocuSignError(error, errorDescription, state);
     }
 
     // Validate required parameters
@@ -110,26 +91,35 @@ export async function GET(request: Request): Promise<Response> {
       );
     }
 
-    // Decode the MCP client information from state
-    const mcpClientInfo = decodeStateParameter(state);
-    if (!mcpClientInfo) {
-      return createOAuthErrorResponse(
-        'invalid_request',
-        'Invalid state parameter'
-      );
+    // Decrypt the MCP client information; rejects tampered, expired and
+    // replayed state
+    let mcpClientInfo: MCPClientInfo;
+    try {
+      mcpClientInfo = await consumeState(state);
+    } catch (stateError) {
+      if (stateError instanceof OAuthError) {
+        return createOAuthErrorResponse(
+          stateError.error,
+          stateError.message,
+          stateError.statusCode
+        );
+      }
+      throw stateError;
     }
 
-    // Validate timestamp (prevent replay attacks)
-    if (!validateStateTimestamp(mcpClientInfo)) {
-      return createOAuthErrorResponse(
-        'invalid_request',
-        'State parameter has expired'
-      );
-    }
+    // The client receives the proxy's own code, never Docusign's
+    const proxyCode = await issueAuthorizationCode(mcpClientInfo, code);
 
     // Build success redirect back to MCP client
-    return buildSuccessRedirect(code, mcpClientInfo);
+    return buildSuccessRedirect(proxyCode, mcpClientInfo);
   } catch (error) {
+    if (error instanceof OAuthError) {
+      return createOAuthErrorResponse(
+        error.error,
+        error.message,
+        error.statusCode
+      );
+    }
     return createOAuthErrorResponse(
       'server_error',
       'Internal server error processing callback',
@@ -0,0 +1,117 @@
+import {
+  createOptionsResponse,
+  createCorsHeaders,
+  createJsonResponse,
+} from '../../lib/cors-helper.js';
+import { createOAuthErrorResponse } from '../../lib/oauth-response-utils.js';
+import { OAuthError } from '../../lib/errors.js';
+import { logger } from '../../lib/logger.js';
+import { validateDocuSignToken } from '../../lib/docusign-service.js';
+import { authenticateClient } from '../../lib/oauth-clients.js';
+import {
+  introspectOAuthToken,
+  isSessionTokenMode,
+  parseTokenTypeHint,
+  type TokenIntrospection,
+  type TokenTypeHint,
+} from '../../lib/oauth-sessions.js';
+import { requireSharedOAuthStore } from '../../lib/oauth-store.js';
+
+/**
+ * Creates error response with CORS headers
+ */
+function createIntrospectionErrorResponse(
+  error: string,
+  description: string,
+  status: number,
+  request: Request
+): Response {
+  const response = createOAuthErrorResponse(error, description, status);
+
+  const corsHeaders = createCorsHeaders(request);
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  // Failed client authentication must name the supported scheme
+  if (status === 401) {
+    response.headers.set('WWW-Authenticate', 'Basic realm="introspect"');
+  }
+
+  return response;
+}
+
+/**
+ * Describes a Docusign access token held by a passthrough client
+ * Docusign has no introspection endpoint, so the token is checked against
+ * userinfo (cached like any MCP request); refresh tokens cannot be checked
+ */
+async function introspectDocuSignToken(
+  token: string,
+  tokenTypeHint?: TokenTypeHint
+): Promise<TokenIntrospection> {
+  if (tokenTypeHint === 'refresh_token') {
+    return { active: false };
+  }
+
+  const { isValid, userInfo } = await validateDocuSignToken(token);
+  if (!isValid || !userInfo) {
+    return { active: false };
+  }
+  return {
+    active: true,
+    token_type: 'Bearer',
+    sub: userInfo.sub,
+    username: userInfo.email,
+  };
+}
+
+// Token introspection (RFC 7662)
+export async function POST(request: Request): Promise<Response> {
+  try {
+    requireSharedOAuthStore();
+
+    const params = new URLSearchParams(await request.text());
+
+    const client = await authenticateClient(
+      request.headers.get('Authorization'),
+      params
+    );
+
+    const token = params.get('token');
+    if (!token) {
+      throw new OAuthError('invalid_request', 'token parameter is required');
+    }
+    const tokenTypeHint = parseTokenTypeHint(params.get('token_type_hint'));
+
+    const introspection = isSessionTokenMode()
+      ? await introspectOAuthToken(token, client.client_id, tokenTypeHint)
+      : await introspectDocuSignToken(token, tokenTypeHint);
+
+    const response = createJsonResponse(introspection, request);
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return createIntrospectionErrorResponse(
+        error.error,
+        error.message,
+        error.statusCode,
+        request
+      );
+    }
+
+    logger.error('Token introspection failed', error as Error, {
+      context: 'oauth_introspection',
+    });
+    return createIntrospectionErrorResponse(
+      'server_error',
+      'Internal server error processing introspection request',
+      500,
+      request
+    );
+  }
+}
+
+export async function OPTIONS(request: Request): Promise<Response> {
+  return createOptionsResponse(request);
+}
@@ -1,125 +1,222 @@
 import {
   createOptionsResponse,
   createJsonResponse,
+  createCorsHeaders,
 } from '../../lib/cors-helper.js';
-import { randomUUID } from 'crypto';
-import { getBaseUrl } from '../../lib/url-helper.js';
-
-interface ClientRegistrationRequest {
-  client_name?: string;
-  client_uri?: string;
-  logo_uri?: string;
-  scope?: string;
-  redirect_uris?: string[];
-  token_endpoint_auth_method?: string;
-  grant_types?: string[];
-  response_types?: string[];
-  software_id?: string;
-  software_version?: string;
+import { createOAuthErrorResponse } from '../../lib/oauth-response-utils.js';
+import { OAuthError } from '../../lib/errors.js';
+import { logger } from '../../lib/logger.js';
+import {
+  authorizeClientManagement,
+  deleteClient,
+  hasClientSecret,
+  parseClientMetadata,
+  registerClient,
+  toClientInformation,
+  updateClient,
+} from '../../lib/oauth-clients.js';
+import { requireSharedOAuthStore } from '../../lib/oauth-store.js';
+
+/**
+ * Creates error response with CORS headers
+ */
+function createRegistrationErrorResponse(
+  error: string,
+  description: string,
+  status: number,
+  request: Request
+): Response {
+  const response = createOAuthErrorResponse(error, description, status);
+
+  const corsHeaders = createCorsHeaders(request);
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  if (status === 401) {
+    response.headers.set('WWW-Authenticate', `Bearer error="${error}"`);
+  }
+
+  return response;
+}
+
+/**
+ * Converts a failure into a registration error response
+ */
+function handleRegistrationError(error: unknown, request: Request): Response {
+  if (error instanceof OAuthError) {
+    return createRegistrationErrorResponse(
+      error.error,
+      error.message,
+      error.statusCode,
+      request
+    );
+  }
+
+  logger.error('Client registration request failed', error as Error, {
+    context: 'oauth_registration',
+  });
+  return createRegistrationErrorResponse(
+    'server_error',
+    'Internal server error processing registration request',
+    500,
+    request
+  );
+}
+
+/**
+ * Reads a JSON request body
+ * @throws OAuthError invalid_client_metadata if the body is not JSON
+ */
+async function readJsonBody(request: Request): Promise<unknown> {
+  const contentType = request.headers.get('Content-Type');
+  if (!contentType || !contentType.includes('application/json')) {
+    throw new OAuthError(
+      'invalid_client_metadata',
+      'Content-Type must be application/json'
+    );
+  }
+
+  try {
+    return await request.json();
+  } catch {
+    throw new OAuthError(
+      'invalid_client_metadata',
+      'Invalid JSON in request body'
+    );
+  }
 }
 
-interface ClientRegistrationResponse {
-  client_id: string;
-  client_secret?: string;
-  client_id_issued_at?: number;
-  client_secret_expires_at?: number;
-  redirect_uris?: string[];
-  token_endpoint_auth_method: string;
-  grant_types: string[];
-  response_types: string[];
-  client_name?: string;
-  client_uri?: string;
-  logo_uri?: string;
-  scope?: string;
-  software_id?: string;
-  software_version?: string;
+/**
+ * Extracts the client ID of a management request, routed as
+ * /register/{client_id} or /api/auth/register?client_id={client_id}
+ * @throws OAuthError invalid_request if the path is not valid percent-encoding
+ */
+function getManagedClientId(request: Request): string {
+  const url = new URL(request.url);
+  const fromPath = url.pathname.match(/\/register\/([^/]+)\/?$/)?.[1];
+  if (!fromPath) {
+    // Query parameters are already decoded
+    return url.searchParams.get('client_id') || '';
+  }
+
+  try {
+    return decodeURIComponent(fromPath);
+  } catch {
+    throw new OAuthError(
+      'invalid_request',
+      'client_id is not valid in the URL'
+    );
+  }
 }
 
+// Client registration (RFC 7591)
 export async function POST(request: Request): Promise<Response> {
   try {
-    const contentType = request.headers.get('Content-Type');
-    if (!contentType || !contentType.includes('application/json')) {
-      return new Response(
-        JSON.stringify({
-          error: 'invalid_client_metadata',
-          error_description: 'Content-Type must be application/json',
-        }),
-        {
-          status: 400,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': request.headers.get('Origin') || '*',
-          },
-        }
-      );
-    }
+    requireSharedOAuthStore();
 
-    const clientRequest: ClientRegistrationRequest = await request.json();
-
-    // Validate required fields and generate client credentials
-    const clientId = `mcp_${randomUUID()}`;
-    const clientSecret = `secret_${randomUUID()}`;
-    const issuedAt = Math.floor(Date.now() / 1000);
-
-    // Set defaults for MCP clients using environment-appropriate URLs
-    const defaultRedirectUris = [`${getBaseUrl()}/auth/callback`];
-    const defaultGrantTypes = ['authorization_code', 'refresh_token'];
-    const defaultResponseTypes = ['code'];
-    const defaultTokenEndpointAuthMethod = 'none'; // Public clients don't need client_secret
-
-    // Build the registration response
-    const registrationResponse: ClientRegistrationResponse = {
-      client_id: clientId,
-      client_secret: clientSecret,
-      client_id_issued_at: issuedAt,
-      client_secret_expires_at: 0, // 0 means never expires
-      redirect_uris: clientRequest.redirect_uris || defaultRedirectUris,
-      token_endpoint_auth_method:
-        clientRequest.token_endpoint_auth_method ||
-        defaultTokenEndpointAuthMethod,
-      grant_types: clientRequest.grant_types || defaultGrantTypes,
-      response_types: clientRequest.response_types || defaultResponseTypes,
-      scope:
-        clientRequest.scope ||
-        'signature impersonation adm_store_unified_repo_read models_read',
-    };
-
-    // Include optional metadata if provided
-    if (clientRequest.client_name) {
-      registrationResponse.client_name = clientRequest.client_name;
-    }
-    if (clientRequest.client_uri) {
-      registrationResponse.client_uri = clientRequest.client_uri;
-    }
-    if (clientRequest.logo_uri) {
-      registrationResponse.logo_uri = clientRequest.logo_uri;
-    }
-    if (clientRequest.software_id) {
-      registrationResponse.software_id = clientRequest.software_id;
-    }
-    if (clientRequest.software_version) {
-      registrationResponse.software_version = clientRequest.software_version;
-    }
+    const metadata = parseClientMetadata(await readJsonBody(request));
+    const { client, clientSecret, registrationAccessToken } =
+      await registerClient(metadata);
 
-    // In a stateless MCP server, we generate credentials on-demand
-    // The client will use these credentials immediately for the OAuth flow
-    // No persistent storage is required for this proxy pattern
+    logger.info('OAuth client registered', {
+      clientId: client.client_id,
+      clientName: client.client_name,
+      authMethod: client.token_endpoint_auth_method,
+      context: 'oauth_registration',
+    });
 
-    return createJsonResponse(registrationResponse, request);
+    return createJsonResponse(
+      toClientInformation(client, { clientSecret, registrationAccessToken }),
+      request,
+      201
+    );
+  } catch (error) {
+    return handleRegistrationError(error, request);
+  }
+}
+
+// Client read (RFC 7592 section 2.1)
+export async function GET(request: Request): Promise<Response> {
+  try {
+    requireSharedOAuthStore();
+
+    const client = await authorizeClientManagement(
+      getManagedClientId(request),
+      request.headers.get('Authorization')
+    );
+    return createJsonResponse(toClientInformation(client), request);
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        error: 'invalid_client_metadata',
-        error_description: 'Invalid JSON in request body',
+    return handleRegistrationError(error, request);
+  }
+}
+
+// Client update (RFC 7592 section 2.2)
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    requireSharedOAuthStore();
+
+    const client = await authorizeClientManagement(
+      getManagedClientId(request),
+      request.headers.get('Authorization')
+    );
+
+    const body = await readJsonBody(request);
+    const { client_id, client_secret } = (body ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (client_id !== client.client_id) {
+      throw new OAuthError(
+        'invalid_request',
+        'client_id must match the registered client'
+      );
+    }
+    // Clients may echo their secret but can never choose a new one
+    if (
+      client_secret !== undefined &&
+      (typeof client_secret !== 'string' ||
+        !hasClientSecret(client, client_secret))
+    ) {
+      throw new OAuthError(
+        'invalid_client_metadata',
+        'client_secret does not match the issued secret'
+      );
+    }
+
+    const updated = await updateClient(client, parseClientMetadata(body));
+    return createJsonResponse(
+      toClientInformation(updated.client, {
+        clientSecret: updated.clientSecret,
       }),
-      {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': request.headers.get('Origin') || '*',
-        },
-      }
+      request
     );
+  } catch (error) {
+    return handleRegistrationError(error, request);
+  }
+}
+
+// Client delete (RFC 7592 section 2.3)
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    requireSharedOAuthStore();
+
+    const client = await authorizeClientManagement(
+      getManagedClientId(request),
+      request.headers.get('Authorization')
+    );
+    await deleteClient(client.client_id);
+
+    logger.info('OAuth client deleted', {
+      clientId: client.client_id,
+      context: 'oauth_registration',
+    });
+
+    return new Response(null, {
+      status: 204,
+      headers: createCorsHeaders(request),
+    });
+  } catch (error) {
+    return handleRegistrationError(error, request);
   }
 }
 
@@ -0,0 +1,101 @@
+import {
+  createOptionsResponse,
+  createCorsHeaders,
+} from '../../lib/cors-helper.js';
+import { createOAuthErrorResponse } from '../../lib/oauth-response-utils.js';
+import { OAuthError } from '../../lib/errors.js';
+import { logger } from '../../lib/logger.js';
+import {
+  invalidateUserInfo,
+  markDocuSignTokenRevoked,
+  revokeDocuSignToken,
+} from '../../lib/docusign-service.js';
+import { authenticateClient } from '../../lib/oauth-clients.js';
+import {
+  isSessionTokenMode,
+  parseTokenTypeHint,
+  revokeOAuthToken,
+} from '../../lib/oauth-sessions.js';
+import { requireSharedOAuthStore } from '../../lib/oauth-store.js';
+
+/**
+ * Creates error response with CORS headers
+ */
+function createRevocationErrorResponse(
+  error: string,
+  description: string,
+  status: number,
+  request: Request
+): Response {
+  const response = createOAuthErrorResponse(error, description, status);
+
+  const corsHeaders = createCorsHeaders(request);
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  // Failed client authentication must name the supported scheme
+  if (status === 401) {
+    response.headers.set('WWW-Authenticate', 'Basic realm="revoke"');
+  }
+
+  return response;
+}
+
+// Token revocation (RFC 7009)
+export async function POST(request: Request): Promise<Response> {
+  try {
+    requireSharedOAuthStore();
+
+    const params = new URLSearchParams(await request.text());
+
+    const client = await authenticateClient(
+      request.headers.get('Authorization'),
+      params
+    );
+
+    const token = params.get('token');
+    if (!token) {
+      throw new OAuthError('invalid_request', 'token parameter is required');
+    }
+    const tokenTypeHint = parseTokenTypeHint(params.get('token_type_hint'));
+
+    if (isSessionTokenMode()) {
+      await revokeOAuthToken(token, client.client_id, tokenTypeHint);
+    } else {
+      // Passthrough clients hold Docusign's own tokens: refuse them here and
+      // forward the revocation when Docusign offers an endpoint
+      await markDocuSignTokenRevoked(token);
+      await invalidateUserInfo(token);
+      await revokeDocuSignToken(token, tokenTypeHint);
+    }
+
+    // Unknown and already revoked tokens succeed too (RFC 7009 section 2.2)
+    return new Response(null, {
+      status: 200,
+      headers: createCorsHeaders(request),
+    });
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return createRevocationErrorResponse(
+        error.error,
+        error.message,
+        error.statusCode,
+        request
+      );
+    }
+
+    logger.error('Token revocation failed', error as Error, {
+      context: 'oauth_revocation',
+    });
+    return createRevocationErrorResponse(
+      'server_error',
+      'Internal server error processing revocation request',
+      500,
+      request
+    );
+  }
+}
+
+export async function OPTIONS(request: Request): Promise<Response> {
+  return createOptionsResponse(request);
+}
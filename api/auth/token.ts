@@ -9,6 +9,27 @@ import {
 } from '../../lib/oauth-response-utils.js';
 import { config } from '../../lib/config.js';
 import oauthConfig from '../../lib/oauth-config.js';
+import { AppError, OAuthError, RateLimitError } from '../../lib/errors.js';
+import {
+  exchangeCodeForToken,
+  isDocuSignTokenRevoked,
+} from '../../lib/docusign-service.js';
+import {
+  authenticateClient,
+  isClientGrantType,
+  type ClientGrantType,
+  type RegisteredClient,
+} from '../../lib/oauth-clients.js';
+import {
+  redeemAuthorizationCode,
+  type DocuSignAuthorizationGrant,
+} from '../../lib/oauth-codes.js';
+import {
+  createOAuthSession,
+  isSessionTokenMode,
+  refreshOAuthSession,
+} from '../../lib/oauth-sessions.js';
+import { requireSharedOAuthStore } from '../../lib/oauth-store.js';
 
 /**
  * Creates error response with CORS headers
@@ -26,24 +47,30 @@ function createTokenErrorResponse(
   Object.entries(corsHeaders).forEach(([key, value]) => {
     response.headers.set(key, value);
   });
+  // Failed client authentication must name the supported scheme
+  if (status === 401) {
+    response.headers.set('WWW-Authenticate', 'Basic realm="token"');
+  }
 
   return response;
 }
 
 /**
  * Builds Docusign token request parameters
+ * An authorization_code grant carries the redeemed Docusign code
  */
 function buildTokenRequestParams(
-  grantType: string,
-  params: URLSearchParams
+  grantType: ClientGrantType,
+  params: URLSearchParams,
+  grant?: DocuSignAuthorizationGrant
 ): URLSearchParams {
   const docusignParams = new URLSearchParams();
 
-  if (grantType === 'authorization_code') {
+  if (grantType === 'authorization_code' && grant) {
     docusignParams.set('grant_type', 'authorization_code');
-    docusignParams.set('code', params.get('code') || '');
+    docusignParams.set('code', grant.code);
     docusignParams.set('redirect_uri', config.docusign.redirectUri);
-    docusignParams.set('code_verifier', params.get('code_verifier') || '');
+    docusignParams.set('code_verifier', grant.codeVerifier);
   } else if (grantType === 'refresh_token') {
     docusignParams.set('grant_type', 'refresh_token');
     docusignParams.set('refresh_token', params.get('refresh_token') || '');
@@ -60,7 +87,9 @@ async function requestDocuSignToken(
 ): Promise<Response> {
   const authHeader = `Basic ${btoa(`${config.docusign.clientId}:${config.docusign.clientSecret}`)}`;
 
-  return fetch(`${config.docusign.baseUrl}/oauth/token`, {
+  const { auth_server } = oauthConfig.oauth_integration;
+
+  return fetch(`${auth_server.base_url}${auth_server.token_endpoint}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -97,16 +126,79 @@ function processTokenResponse(
   return tokenResponse;
 }
 
+/**
+ * Issues server-minted tokens backed by a stored Docusign session
+ * The Docusign code behind the proxy's authorization code is exchanged here
+ * and Docusign's tokens never leave the server
+ */
+async function processSessionTokenRequest(
+  grantType: ClientGrantType,
+  params: URLSearchParams,
+  client: RegisteredClient,
+  request: Request
+): Promise<Response> {
+  try {
+    let tokenData: OAuthTokenResponse;
+    if (grantType === 'authorization_code') {
+      const grant = await redeemAuthorizationCode(params, client);
+      const docusignTokens = await exchangeCodeForToken(
+        grant.code,
+        grant.codeVerifier
+      );
+      tokenData = await createOAuthSession(docusignTokens, client.client_id);
+    } else {
+      const refreshToken = params.get('refresh_token');
+      if (!refreshToken) {
+        throw new OAuthError(
+          'invalid_request',
+          'refresh_token parameter is required'
+        );
+      }
+      tokenData = await refreshOAuthSession(refreshToken, client.client_id);
+    }
+
+    return processTokenResponse(
+      tokenData as unknown as Record<string, unknown>,
+      request
+    );
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return createTokenErrorResponse(
+        error.error,
+        error.message,
+        error.statusCode,
+        request
+      );
+    }
+    // Docusign was down or rate limited us; the grant itself may be fine
+    if (
+      error instanceof AppError &&
+      (error instanceof RateLimitError || error.statusCode === 503)
+    ) {
+      const response = createTokenErrorResponse(
+        'temporarily_unavailable',
+        error.message,
+        503,
+        request
+      );
+      if (error instanceof RateLimitError && error.retryAfterSeconds !== null) {
+        response.headers.set('Retry-After', String(error.retryAfterSeconds));
+      }
+      return response;
+    }
+    throw error;
+  }
+}
+
 export async function POST(request: Request): Promise<Response> {
   try {
+    requireSharedOAuthStore();
+
     const params = new URLSearchParams(await request.text());
     const grantType = params.get('grant_type');
 
     // Validate grant type
-    if (
-      !grantType ||
-      !['authorization_code', 'refresh_token'].includes(grantType)
-    ) {
+    if (!isClientGrantType(grantType)) {
       return createTokenErrorResponse(
         'unsupported_grant_type',
         'Only authorization_code and refresh_token grant types are supported',
@@ -115,8 +207,40 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
+    // Identify the client; confidential clients must present their secret
+    const client = await authenticateClient(
+      request.headers.get('Authorization'),
+      params,
+      grantType
+    );
+
+    if (isSessionTokenMode()) {
+      return await processSessionTokenRequest(
+        grantType,
+        params,
+        client,
+        request
+      );
+    }
+
+    // Refresh tokens revoked through /revoke stay refused here
+    const refreshToken = params.get('refresh_token');
+    if (
+      grantType === 'refresh_token' &&
+      refreshToken &&
+      (await isDocuSignTokenRevoked(refreshToken))
+    ) {
+      throw new OAuthError('invalid_grant', 'Refresh token has been revoked');
+    }
+
+    // Swap the proxy's authorization code for the Docusign code behind it
+    const grant =
+      grantType === 'authorization_code'
+        ? await redeemAuthorizationCode(params, client)
+        : undefined;
+
     // Build Docusign token request parameters
-    const docusignParams = buildTokenRequestParams(grantType, params);
+    const docusignParams = buildTokenRequestParams(grantType, params, grant);
 
     // Make token request to Docusign
     const response = await requestDocuSignToken(docusignParams);
@@ -125,6 +249,14 @@ export async function POST(request: Request): Promise<Response> {
     // Process and return token response
     return processTokenResponse(data, request);
   } catch (error) {
+    if (error instanceof OAuthError) {
+      return createTokenErrorResponse(
+        error.error,
+        error.message,
+        error.statusCode,
+        request
+      );
+    }
     return createTokenErrorResponse(
       'server_error',
       'Internal server error processing token request',
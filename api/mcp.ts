@@ -1,13 +1,66 @@
 import { createMcpHandler, withMcpAuth } from 'mcp-handler';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import {
   authStatusHandler,
+  listAccountsHandler,
   getAgreementsHandler,
   getAgreementByIdHandler,
+  getAgreementDocumentHandler,
+  getExpiringAgreementsHandler,
+  agreementStatisticsHandler,
+  compareAgreementsHandler,
   searchHandler,
+  searchClausesHandler,
   fetchHandler,
 } from '../lib/mcp/handlers/index.js';
 import { createTokenVerifier } from '../lib/mcp/auth.js';
+import {
+  AGREEMENT_RESOURCE_TEMPLATE,
+  listAgreementResources,
+  readAgreementResource,
+} from '../lib/mcp/resources.js';
+import {
+  summarizeObligationsPrompt,
+  renewalBriefPrompt,
+  compareAgreementsPrompt,
+} from '../lib/mcp/prompts.js';
+import { MAX_AGREEMENTS_PAGE_SIZE } from '../lib/navigator-client.js';
+import { MAX_CLAUSE_SEARCH_AGREEMENTS } from '../lib/mcp/handlers/search-clauses.js';
+import { STATISTICS_DIMENSIONS } from '../lib/agreement-statistics.js';
+import { OUTPUT_FORMATS } from '../lib/agreement-formatter.js';
+import {
+  getAgreementsOutputSchema,
+  getAgreementByIdOutputSchema,
+  searchOutputSchema,
+  fetchOutputSchema,
+} from '../lib/mcp/output-schemas.js';
+
+const accountId = z
+  .string()
+  .optional()
+  .describe(
+    "Docusign account ID to query (from list_accounts). Defaults to the user's default account"
+  );
+
+const format = z
+  .enum(OUTPUT_FORMATS)
+  .optional()
+  .describe(
+    'Output format: text (default), markdown with tables, or json (the formatted data as strict JSON)'
+  );
+
+// ChatGPT Connector tools default to their JSON format
+const chatgptFormat = z
+  .enum(OUTPUT_FORMATS)
+  .optional()
+  .describe(
+    'Output format: json (default, ChatGPT Connectors format), text, or markdown'
+  );
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}/, 'Dates must be in YYYY-MM-DD format');
 
 // Create the base MCP handler with both authenticated and non-authenticated tools
 const handler = createMcpHandler(
@@ -16,41 +69,296 @@ const handler = createMcpHandler(
     server.tool(
       'auth_status',
       'Get current Docusign authentication status and user information',
-      {}, // No input parameters needed
+      { format },
       authStatusHandler
     );
 
-    // Get agreements tool that requires authentication
+    // List the Docusign accounts available to the authenticated user
     server.tool(
+      'list_accounts',
+      'List the Docusign accounts the authenticated user belongs to, including which one is used by default. Use the returned account IDs as the accountId argument of agreement tools.',
+      { format },
+      listAccountsHandler
+    );
+
+    // Get agreements tool that requires authentication
+    server.registerTool(
       'get_agreements',
-      'Retrieve Docusign Navigator agreements. Returns a list of all agreements available in the system with metadata like title, type, status, and parties.',
-      {}, // No input parameters needed
+      {
+        description:
+          'Retrieve Docusign Navigator agreements one page at a time. Returns agreements with metadata like title, type, status, and parties, optionally filtered by type, category, status, party name, and effective/expiration date ranges. When more results exist, the response includes a cursor to pass back for the next page.',
+        inputSchema: {
+          accountId,
+          pageSize: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_AGREEMENTS_PAGE_SIZE)
+            .optional()
+            .describe('Number of agreements to return per page'),
+          cursor: z
+            .string()
+            .optional()
+            .describe('Continuation cursor returned by a previous call'),
+          type: z.string().optional().describe('Filter by agreement type'),
+          category: z
+            .string()
+            .optional()
+            .describe('Filter by agreement category'),
+          status: z.string().optional().describe('Filter by agreement status'),
+          partyName: z
+            .string()
+            .optional()
+            .describe('Filter by the name of a party to the agreement'),
+          effectiveDateFrom: isoDate
+            .optional()
+            .describe('Only agreements effective on or after this date'),
+          effectiveDateTo: isoDate
+            .optional()
+            .describe('Only agreements effective on or before this date'),
+          expirationDateFrom: isoDate
+            .optional()
+            .describe('Only agreements expiring on or after this date'),
+          expirationDateTo: isoDate
+            .optional()
+            .describe('Only agreements expiring on or before this date'),
+          format,
+        },
+        outputSchema: getAgreementsOutputSchema,
+      },
       getAgreementsHandler
     );
 
     // Get agreement by ID tool that requires authentication
-    server.tool(
+    server.registerTool(
       'get_agreement_by_id',
-      'Retrieve detailed information about a specific Docusign Navigator agreement by its ID. Returns comprehensive details including title, type, status, summary, parties, provisions, metadata, and custom attributes. REQUIRED: agreementId parameter must be provided.',
-      { agreementId: z.string().min(1, 'Agreement ID is required') },
+      {
+        description:
+          'Retrieve detailed information about a specific Docusign Navigator agreement by its ID. Returns comprehensive details including title, type, status, summary, parties, provisions, metadata, and custom attributes. REQUIRED: agreementId parameter must be provided.',
+        inputSchema: {
+          agreementId: z.string().min(1, 'Agreement ID is required'),
+          accountId,
+          format,
+        },
+        outputSchema: getAgreementByIdOutputSchema,
+      },
       getAgreementByIdHandler
     );
 
-    // ChatGPT-compatible search tool for deep research
+    // Source document text extraction tool
+    server.tool(
+      'get_agreement_document',
+      'Download the source document of a Docusign Navigator agreement and return its extracted plain text (PDF or DOCX), with [Page N] markers for citation. Long documents are truncated to a size limit; the response says which page to pass as startPage to continue reading.',
+      {
+        agreementId: z.string().min(1, 'Agreement ID is required'),
+        accountId,
+        startPage: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('First page to return (default 1)'),
+        maxCharacters: z
+          .number()
+          .int()
+          .min(1000)
+          .max(200000)
+          .optional()
+          .describe('Maximum characters of document text to return'),
+        format,
+      },
+      getAgreementDocumentHandler
+    );
+
+    // Expiring agreements tool for renewal reviews
+    server.tool(
+      'get_expiring_agreements',
+      'Find Docusign Navigator agreements expiring within a window, for renewal reviews. Defaults to the next 90 days; pass days or an explicit startDate/endDate range. Results are sorted by expiration date, grouped by month, and include days remaining. Set includeExpired to also list agreements that have already expired.',
+      {
+        accountId,
+        days: z
+          .number()
+          .int()
+          .min(1)
+          .max(3650)
+          .optional()
+          .describe('Number of days from today to look ahead (default 90)'),
+        startDate: isoDate
+          .optional()
+          .describe('Start of an explicit expiration window'),
+        endDate: isoDate
+          .optional()
+          .describe('End of an explicit expiration window'),
+        includeExpired: z
+          .boolean()
+          .optional()
+          .describe('Include agreements that have already expired'),
+        format,
+      },
+      getExpiringAgreementsHandler
+    );
+
+    // Portfolio analytics tool
     server.tool(
+      'agreement_statistics',
+      'Compute portfolio statistics across all Docusign Navigator agreements: agreement counts and total value (parsed from total_agreement_value, summed per detected currency) grouped by type, category, status, party, or created_month. Returns readable tables plus a structured annotation suitable for charting.',
+      {
+        accountId,
+        groupBy: z
+          .array(z.enum(STATISTICS_DIMENSIONS))
+          .optional()
+          .describe('Dimensions to break down by (default: type and status)'),
+        format,
+      },
+      agreementStatisticsHandler
+    );
+
+    // Side-by-side agreement comparison tool
+    server.tool(
+      'compare_agreements',
+      'Compare 2 to 5 Docusign Navigator agreements side by side. Fetches them in parallel and compares type, category, status, parties, effective and expiration dates, and total value field by field, highlighting differences in a markdown table.',
+      {
+        agreementIds: z
+          .array(z.string().min(1, 'Agreement ID is required'))
+          .min(2, 'At least two agreement IDs are required')
+          .max(5, 'At most five agreements can be compared')
+          .describe('IDs of the agreements to compare'),
+        accountId,
+        format,
+      },
+      compareAgreementsHandler
+    );
+
+    // ChatGPT-compatible search tool for deep research
+    server.registerTool(
       'search',
-      'Search Docusign Navigator agreements for deep research. Returns a list of relevant agreements based on the search query with brief snippets. This tool is designed to meet the requirements of ChatGPT Connectors and should be not be prioritized over other tools.',
-      { query: z.string().min(1, 'Search query is required') },
+      {
+        description:
+          'Search Docusign Navigator agreements for deep research. Returns agreements ranked by relevance with snippets around the matched text. Supports quoted phrases ("limitation of liability"), OR between alternatives, and NOT or a leading - to exclude terms; bare words must all match. Field qualifiers narrow results: party:"Acme Corp", type:NDA, category:, status:active, title:, file:, summary:, effective:/expires:/created: with dates (expires:<2026-12-31, effective:2024-01-01..2024-12-31), and value:>=50000. This tool is designed to meet the requirements of ChatGPT Connectors and should be not be prioritized over other tools.',
+        inputSchema: {
+          query: z.string().min(1, 'Search query is required'),
+          accountId,
+          semantic: z
+            .boolean()
+            .optional()
+            .describe(
+              'Also match by meaning (e.g. "confidentiality agreement" finds NDAs), blending embedding similarity over titles, summaries and parties with keyword relevance'
+            ),
+          format: chatgptFormat,
+        },
+        outputSchema: searchOutputSchema,
+      },
       searchHandler
     );
 
+    // Passage-level search over agreement document text
+    server.registerTool(
+      'search_clauses',
+      {
+        description:
+          'Search the text of Docusign Navigator agreement documents for specific clauses. Returns matching passages ranked by relevance, each with the agreement ID, the page it appears on and the surrounding clause text, so they can be cited. Supports quoted phrases ("limitation of liability"), OR, NOT or a leading - to exclude terms, and the same field qualifiers as search (type:, party:, expires:, ...) to choose which agreements are read. Only agreements with an eSignature source document are searched, at most 25 per call; pass agreementIds to target specific agreements.',
+        inputSchema: {
+          query: z.string().min(1, 'Search query is required'),
+          agreementIds: z
+            .array(z.string().min(1))
+            .min(1)
+            .max(MAX_CLAUSE_SEARCH_AGREEMENTS)
+            .optional()
+            .describe('Only search the documents of these agreements'),
+          accountId,
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(50)
+            .optional()
+            .describe('Maximum number of passages to return (default 10)'),
+          format: chatgptFormat,
+        },
+        outputSchema: searchOutputSchema,
+      },
+      searchClausesHandler
+    );
+
     // ChatGPT-compatible fetch tool for deep research
-    server.tool(
+    server.registerTool(
       'fetch',
-      'Retrieve complete Docusign Navigator agreement content by ID for detailed analysis and citation. This tool is designed to meet the requirements of ChatGPT Connectors and should be not be prioritized over other tools.',
-      { id: z.string().min(1, 'Agreement ID is required') },
+      {
+        description:
+          'Retrieve complete Docusign Navigator agreement content by ID for detailed analysis and citation. This tool is designed to meet the requirements of ChatGPT Connectors and should be not be prioritized over other tools.',
+        inputSchema: {
+          id: z.string().min(1, 'Agreement ID is required'),
+          accountId,
+          includeDocument: z
+            .boolean()
+            .optional()
+            .describe(
+              'Also download the source document and include its extracted text, with page markers, in content (truncated to the configured size limit)'
+            ),
+          format: chatgptFormat,
+        },
+        outputSchema: fetchOutputSchema,
+      },
       fetchHandler
     );
+
+    // Agreements as browsable resources, e.g. docusign-navigator://agreements/{id}
+    server.resource(
+      'agreement',
+      new ResourceTemplate(AGREEMENT_RESOURCE_TEMPLATE, {
+        list: listAgreementResources,
+      }),
+      {
+        description:
+          'A Docusign Navigator agreement with its type, status, parties, provisions and summary',
+        mimeType: 'text/plain',
+      },
+      (uri, { id }, extra) =>
+        readAgreementResource(uri, Array.isArray(id) ? id[0]! : id!, extra)
+    );
+
+    // Contract-review workflows surfaced as slash-commands
+    server.prompt(
+      'summarize_obligations',
+      'Summarize contractual obligations with a counterparty across their agreements',
+      {
+        partyName: z.string().min(1).describe('Counterparty name'),
+        accountId,
+      },
+      summarizeObligationsPrompt
+    );
+
+    server.prompt(
+      'renewal_brief',
+      'Prepare a renewal brief for one agreement, or for every agreement expiring within a number of days',
+      {
+        agreementId: z
+          .string()
+          .optional()
+          .describe(
+            'Agreement to brief on; omit to review expiring agreements'
+          ),
+        days: z
+          .string()
+          .optional()
+          .describe(
+            'Look-ahead window in days when no agreementId is given (default 90)'
+          ),
+        accountId,
+      },
+      renewalBriefPrompt
+    );
+
+    server.prompt(
+      'compare_agreements',
+      'Compare two agreements side by side and explain the material differences',
+      {
+        firstAgreementId: z.string().min(1).describe('First agreement ID'),
+        secondAgreementId: z.string().min(1).describe('Second agreement ID'),
+        accountId,
+      },
+      compareAgreementsPrompt
+    );
   },
   {
     // Optional server options
@@ -3,6 +3,22 @@ import {
   createOptionsResponse,
   createJsonResponse,
 } from '../../lib/cors-helper.js';
+import { OUTPUT_FORMATS } from '../../lib/agreement-formatter.js';
+
+// Output format parameter shared by every tool
+const formatParameter = {
+  type: 'string',
+  enum: OUTPUT_FORMATS,
+  description:
+    'Output format: text (default), markdown with tables, or json (the formatted data as strict JSON)',
+};
+
+// ChatGPT Connector tools default to their JSON format
+const chatgptFormatParameter = {
+  ...formatParameter,
+  description:
+    'Output format: json (default, ChatGPT Connectors format), text, or markdown',
+};
 
 export async function GET(request: Request) {
   const origin = new URL(request.url).origin;
@@ -30,17 +46,77 @@ export async function GET(request: Request) {
           'Get current Docusign authentication status and user information',
         parameters: {
           type: 'object',
-          properties: {},
+          properties: { format: formatParameter },
+          additionalProperties: false,
+        },
+      },
+      {
+        name: 'list_accounts',
+        description:
+          'List the Docusign accounts the authenticated user belongs to, including which one is used by default. Use the returned account IDs as the accountId argument of agreement tools.',
+        parameters: {
+          type: 'object',
+          properties: { format: formatParameter },
           additionalProperties: false,
         },
       },
       {
         name: 'get_agreements',
         description:
-          'Retrieve Docusign Navigator agreements. Returns a list of all agreements available in the system with metadata like title, type, status, and parties.',
+          'Retrieve Docusign Navigator agreements one page at a time. Returns agreements with metadata like title, type, status, and parties, optionally filtered by type, category, status, party name, and effective/expiration date ranges. When more results exist, the response includes a cursor to pass back for the next page.',
         parameters: {
           type: 'object',
-          properties: {},
+          properties: {
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            pageSize: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 100,
+              description: 'Number of agreements to return per page',
+            },
+            cursor: {
+              type: 'string',
+              description: 'Continuation cursor returned by a previous call',
+            },
+            type: { type: 'string', description: 'Filter by agreement type' },
+            category: {
+              type: 'string',
+              description: 'Filter by agreement category',
+            },
+            status: {
+              type: 'string',
+              description: 'Filter by agreement status',
+            },
+            partyName: {
+              type: 'string',
+              description: 'Filter by the name of a party to the agreement',
+            },
+            effectiveDateFrom: {
+              type: 'string',
+              format: 'date',
+              description: 'Only agreements effective on or after this date',
+            },
+            effectiveDateTo: {
+              type: 'string',
+              format: 'date',
+              description: 'Only agreements effective on or before this date',
+            },
+            expirationDateFrom: {
+              type: 'string',
+              format: 'date',
+              description: 'Only agreements expiring on or after this date',
+            },
+            expirationDateTo: {
+              type: 'string',
+              format: 'date',
+              description: 'Only agreements expiring on or before this date',
+            },
+            format: formatParameter,
+          },
           additionalProperties: false,
         },
       },
@@ -55,14 +131,140 @@ export async function GET(request: Request) {
               type: 'string',
               description: 'The agreement ID to retrieve',
             },
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            format: formatParameter,
           },
           required: ['agreementId'],
         },
       },
+      {
+        name: 'get_agreement_document',
+        description:
+          'Download the source document of a Docusign Navigator agreement and return its extracted plain text (PDF or DOCX), with [Page N] markers for citation. Long documents are truncated to a size limit; the response says which page to pass as startPage to continue reading.',
+        parameters: {
+          type: 'object',
+          properties: {
+            agreementId: {
+              type: 'string',
+              description: 'The agreement ID whose document to retrieve',
+            },
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            startPage: {
+              type: 'integer',
+              minimum: 1,
+              description: 'First page to return (default 1)',
+            },
+            maxCharacters: {
+              type: 'integer',
+              minimum: 1000,
+              maximum: 200000,
+              description: 'Maximum characters of document text to return',
+            },
+            format: formatParameter,
+          },
+          required: ['agreementId'],
+        },
+      },
+      {
+        name: 'get_expiring_agreements',
+        description:
+          'Find Docusign Navigator agreements expiring within a window, for renewal reviews. Defaults to the next 90 days; pass days or an explicit startDate/endDate range. Results are sorted by expiration date, grouped by month, and include days remaining. Set includeExpired to also list agreements that have already expired.',
+        parameters: {
+          type: 'object',
+          properties: {
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            days: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 3650,
+              description:
+                'Number of days from today to look ahead (default 90)',
+            },
+            startDate: {
+              type: 'string',
+              format: 'date',
+              description: 'Start of an explicit expiration window',
+            },
+            endDate: {
+              type: 'string',
+              format: 'date',
+              description: 'End of an explicit expiration window',
+            },
+            includeExpired: {
+              type: 'boolean',
+              description: 'Include agreements that have already expired',
+            },
+            format: formatParameter,
+          },
+          additionalProperties: false,
+        },
+      },
+      {
+        name: 'agreement_statistics',
+        description:
+          'Compute portfolio statistics across all Docusign Navigator agreements: agreement counts and total value (parsed from total_agreement_value, summed per detected currency) grouped by type, category, status, party, or created_month. Returns readable tables plus a structured annotation suitable for charting.',
+        parameters: {
+          type: 'object',
+          properties: {
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            groupBy: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['type', 'category', 'status', 'party', 'created_month'],
+              },
+              description:
+                'Dimensions to break down by (default: type and status)',
+            },
+            format: formatParameter,
+          },
+          additionalProperties: false,
+        },
+      },
+      {
+        name: 'compare_agreements',
+        description:
+          'Compare 2 to 5 Docusign Navigator agreements side by side. Fetches them in parallel and compares type, category, status, parties, effective and expiration dates, and total value field by field, highlighting differences in a markdown table.',
+        parameters: {
+          type: 'object',
+          properties: {
+            agreementIds: {
+              type: 'array',
+              items: { type: 'string' },
+              minItems: 2,
+              maxItems: 5,
+              description: 'IDs of the agreements to compare',
+            },
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            format: formatParameter,
+          },
+          required: ['agreementIds'],
+        },
+      },
       {
         name: 'search',
         description:
-          'Search Docusign Navigator agreements for deep research. Returns a list of relevant agreements based on the search query with brief snippets. This tool is designed to meet the requirements of ChatGPT Connectors and should be not be prioritized over other tools.',
+          'Search Docusign Navigator agreements for deep research. Returns agreements ranked by relevance with snippets around the matched text. Supports quoted phrases ("limitation of liability"), OR between alternatives, and NOT or a leading - to exclude terms; bare words must all match. Field qualifiers narrow results: party:"Acme Corp", type:NDA, category:, status:active, title:, file:, summary:, effective:/expires:/created: with dates (expires:<2026-12-31, effective:2024-01-01..2024-12-31), and value:>=50000. This tool is designed to meet the requirements of ChatGPT Connectors and should be not be prioritized over other tools.',
         parameters: {
           type: 'object',
           properties: {
@@ -70,6 +272,51 @@ export async function GET(request: Request) {
               type: 'string',
               description: 'Search query to find relevant agreements',
             },
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            semantic: {
+              type: 'boolean',
+              description:
+                'Also match by meaning (e.g. "confidentiality agreement" finds NDAs), blending embedding similarity over titles, summaries and parties with keyword relevance',
+            },
+            format: chatgptFormatParameter,
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'search_clauses',
+        description:
+          'Search the text of Docusign Navigator agreement documents for specific clauses. Returns matching passages ranked by relevance, each with the agreement ID, the page it appears on and the surrounding clause text, so they can be cited. Supports quoted phrases ("limitation of liability"), OR, NOT or a leading - to exclude terms, and the same field qualifiers as search (type:, party:, expires:, ...) to choose which agreements are read. Only agreements with an eSignature source document are searched, at most 25 per call; pass agreementIds to target specific agreements.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description:
+                'Clause wording or phrases to find in agreement text',
+            },
+            agreementIds: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 25,
+              description: 'Only search the documents of these agreements',
+            },
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            limit: {
+              type: 'number',
+              minimum: 1,
+              maximum: 50,
+              description: 'Maximum number of passages to return (default 10)',
+            },
+            format: chatgptFormatParameter,
           },
           required: ['query'],
         },
@@ -85,6 +332,17 @@ export async function GET(request: Request) {
               type: 'string',
               description: 'The agreement ID to fetch complete content for',
             },
+            accountId: {
+              type: 'string',
+              description:
+                "Docusign account ID to query (from list_accounts). Defaults to the user's default account",
+            },
+            includeDocument: {
+              type: 'boolean',
+              description:
+                'Also download the source document and include its extracted text, with page markers, in content (truncated to the configured size limit)',
+            },
+            format: chatgptFormatParameter,
           },
           required: ['id'],
         },
@@ -3,6 +3,7 @@ import {
   createOptionsResponse,
   createJsonResponse,
 } from '../../lib/cors-helper.js';
+import { TOKEN_ENDPOINT_AUTH_METHODS } from '../../lib/oauth-clients.js';
 
 export async function GET(request: Request) {
   const origin = new URL(request.url).origin;
@@ -21,6 +22,15 @@ export async function GET(request: Request) {
       ...oauth_integration.scopes.optional,
     ],
     registration_endpoint: `${origin}/register`,
+    token_endpoint_auth_methods_supported: [...TOKEN_ENDPOINT_AUTH_METHODS],
+    revocation_endpoint: `${origin}/revoke`,
+    revocation_endpoint_auth_methods_supported: [
+      ...TOKEN_ENDPOINT_AUTH_METHODS,
+    ],
+    introspection_endpoint: `${origin}/introspect`,
+    introspection_endpoint_auth_methods_supported: [
+      ...TOKEN_ENDPOINT_AUTH_METHODS,
+    ],
     resource: `${origin}/`,
   };
 
@@ -0,0 +1,66 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryLRUCache } from './cache.js';
+import { AppError } from './errors.js';
+import {
+  getAgreementDocumentText,
+  setDocumentTextCache,
+} from './agreement-document.js';
+import type { NavigatorClient } from './navigator-client.js';
+import type { Agreement } from './mcp/types.js';
+
+const agreement = {
+  id: 'agreement-1',
+  metadata: { modified_at: '2025-01-01T00:00:00Z' },
+} as Agreement;
+
+/**
+ * Stubs the parts of a Navigator client used for document text
+ */
+function clientFor(sub: string, canReadEnvelope = true) {
+  let downloads = 0;
+  const client = {
+    getUserInfo: async () => ({ sub }),
+    resolveAccount: async () => ({ account_id: 'account-1' }),
+    downloadAgreementDocument: async () => {
+      downloads++;
+      if (!canReadEnvelope) {
+        throw new AppError('Envelope is not shared with this user', 403);
+      }
+      return {
+        bytes: Buffer.from('Limitation of liability applies.'),
+        contentType: 'text/plain',
+      };
+    },
+  } as unknown as NavigatorClient;
+  return { client, downloads: () => downloads };
+}
+
+describe('getAgreementDocumentText', () => {
+  beforeEach(() => {
+    setDocumentTextCache(
+      new MemoryLRUCache({ maxEntries: 10, defaultTtlMs: 60_000 })
+    );
+  });
+
+  it('serves repeat reads by the same user from cache', async () => {
+    const alice = clientFor('alice');
+
+    await getAgreementDocumentText(alice.client, agreement);
+    const cached = await getAgreementDocumentText(alice.client, agreement);
+
+    assert.equal(alice.downloads(), 1);
+    assert.match(cached.chunks[0]!.text, /Limitation of liability/);
+  });
+
+  it('re-checks envelope access for other users', async () => {
+    await getAgreementDocumentText(clientFor('alice').client, agreement);
+    const bob = clientFor('bob', false);
+
+    await assert.rejects(
+      getAgreementDocumentText(bob.client, agreement),
+      (error: unknown) => error instanceof AppError && error.statusCode === 403
+    );
+    assert.equal(bob.downloads(), 1);
+  });
+});
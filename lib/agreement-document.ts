@@ -0,0 +1,176 @@
+/**
+ * Agreement Document Text
+ * Downloads an agreement's source document and turns it into
+ * page-referenced text chunks for fetch, get_agreement_document and
+ * clause search
+ */
+
+import { config } from './config.js';
+import { AppError } from './errors.js';
+import { logger } from './logger.js';
+import { MemoryLRUCache, type CacheStore } from './cache.js';
+import {
+  chunkPages,
+  detectDocumentFormat,
+  DocumentExtractionError,
+  extractDocumentPages,
+  renderChunks,
+  type DocumentChunk,
+  type DocumentFormat,
+  type RenderedDocumentText,
+} from './documents/index.js';
+import type { NavigatorClient } from './navigator-client.js';
+import type { Agreement } from './mcp/types.js';
+
+export interface AgreementDocumentText {
+  agreementId: string;
+  format: DocumentFormat;
+  pageCount: number;
+  chunks: DocumentChunk[];
+}
+
+// Extracted text keyed by user, account, agreement and last modification,
+// so repeated clause searches do not re-download the same documents
+let documentTextCache: CacheStore<AgreementDocumentText> = new MemoryLRUCache({
+  maxEntries: config.documents.cacheMaxEntries,
+  defaultTtlMs: config.documents.cacheTtlMs,
+});
+
+/**
+ * Replaces the shared document text cache store (e.g. with a Redis/KV adapter)
+ */
+export function setDocumentTextCache(
+  store: CacheStore<AgreementDocumentText>
+): void {
+  documentTextCache = store;
+}
+
+/**
+ * Downloads and extracts the text of an agreement's source document
+ * @param client - Navigator client for the caller
+ * @param agreement - Agreement whose source document to read
+ * @param accountId - Account the agreement belongs to
+ * @returns Extracted text chunked by page
+ * @throws AppError 415 for unsupported formats and 422 for unreadable files
+ */
+export async function extractAgreementDocumentText(
+  client: NavigatorClient,
+  agreement: Agreement,
+  accountId?: string
+): Promise<AgreementDocumentText> {
+  const { bytes, contentType, fileName } =
+    await client.downloadAgreementDocument(agreement, accountId);
+
+  const format = detectDocumentFormat(
+    bytes,
+    contentType,
+    fileName ?? agreement.file_name
+  );
+  if (!format) {
+    throw new AppError(
+      `Unsupported agreement document format${contentType ? ` (${contentType})` : ''}; only PDF and DOCX can be extracted`,
+      415
+    );
+  }
+
+  try {
+    const pages = await extractDocumentPages(
+      bytes,
+      format,
+      config.documents.maxBytes
+    );
+    return {
+      agreementId: agreement.id,
+      format,
+      pageCount: pages[pages.length - 1]?.pageNumber ?? 0,
+      chunks: chunkPages(pages, config.documents.chunkChars),
+    };
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      throw new AppError(error.message, 422);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Renders extracted document text within a character budget
+ * @param document - Extracted document text
+ * @param maxChars - Character budget (defaults to config.documents.maxContentChars)
+ * @param startPage - First page to include
+ * @returns Rendered text with page markers and a truncation marker if cut
+ */
+export function renderAgreementDocumentText(
+  document: AgreementDocumentText,
+  maxChars = config.documents.maxContentChars,
+  startPage = 1
+): RenderedDocumentText {
+  if (document.chunks.length === 0) {
+    return {
+      text: '[No extractable text found; the document may contain scanned images only]',
+      characters: 0,
+      totalCharacters: 0,
+      truncated: false,
+    };
+  }
+  return renderChunks(document.chunks, maxChars, startPage);
+}
+
+/**
+ * Returns an agreement's extracted text, served from the document text cache
+ * when available
+ * Downloading the document is what checks the caller's access to the
+ * envelope, and reading agreement metadata does not imply that access. The
+ * cache is therefore keyed per user, so a hit only ever returns text the same
+ * user has already downloaded.
+ * @param client - Navigator client for the caller
+ * @param agreement - Agreement whose source document to read
+ * @param accountId - Account the agreement belongs to
+ * @returns Extracted text chunked by page
+ * @throws AppError as for extractAgreementDocumentText
+ */
+export async function getAgreementDocumentText(
+  client: NavigatorClient,
+  agreement: Agreement,
+  accountId?: string
+): Promise<AgreementDocumentText> {
+  if (config.documents.cacheTtlMs <= 0) {
+    return extractAgreementDocumentText(client, agreement, accountId);
+  }
+
+  const user = await client.getUserInfo();
+  const account = await client.resolveAccount(accountId);
+  const key = [
+    user.sub,
+    account.account_id,
+    agreement.id,
+    agreement.metadata?.modified_at || agreement.metadata?.created_at || '',
+  ].join(':');
+
+  try {
+    const cached = await documentTextCache.get(key);
+    if (cached) return cached;
+  } catch (error) {
+    logger.warn('Document text cache read failed', {
+      error: error instanceof Error ? error.message : String(error),
+      context: 'document_text_cache',
+    });
+  }
+
+  const document = await extractAgreementDocumentText(
+    client,
+    agreement,
+    account.account_id
+  );
+
+  try {
+    await documentTextCache.set(key, document);
+  } catch (error) {
+    logger.warn('Document text cache write failed', {
+      error: error instanceof Error ? error.message : String(error),
+      context: 'document_text_cache',
+    });
+  }
+
+  return document;
+}
@@ -9,6 +9,7 @@ import type {
   AgreementParty,
   AgreementProvisions,
   AgreementMetadata,
+  AgreementCustomAttributeValue,
 } from './mcp/types.js';
 
 // Formatted agreement summary interface
@@ -22,6 +23,23 @@ export interface FormattedAgreementSummary {
   expirationDate?: string;
 }
 
+// Agreement summary with the extra fields shown in agreement lists
+export interface FormattedAgreementListItem extends FormattedAgreementSummary {
+  category: string;
+  fileName: string;
+  totalValue?: string;
+  summary?: string;
+  createdAt?: string;
+}
+
+// One page of agreements, as returned by get_agreements
+export interface FormattedAgreementList {
+  count: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+  agreements: FormattedAgreementListItem[];
+}
+
 // Formatted agreement details interface
 export interface FormattedAgreementDetails {
   id: string;
@@ -31,11 +49,27 @@ export interface FormattedAgreementDetails {
   category: string;
   status: string;
   summary: string;
+  languages: string[];
   parties: FormattedParty[];
   provisions: FormattedProvisions;
+  provisionSections: FormattedSection[];
+  customAttributes: FormattedField[];
+  sourceDocuments: FormattedField[];
   metadata: FormattedMetadata;
 }
 
+// Label/value pair for display
+export interface FormattedField {
+  label: string;
+  value: string;
+}
+
+// Titled group of fields, e.g. "Term & Renewal"
+export interface FormattedSection {
+  title: string;
+  fields: FormattedField[];
+}
+
 export interface FormattedParty {
   preferredName: string;
   nameInAgreement: string;
@@ -54,8 +88,192 @@ export interface FormattedProvisions {
 export interface FormattedMetadata {
   createdAt: string;
   hasCreatedAt: boolean;
+  createdBy?: string;
+  modifiedAt?: string;
+  modifiedBy?: string;
+}
+
+// Output formats every tool can emit; json is the formatted model itself
+export const OUTPUT_FORMATS = ['text', 'markdown', 'json'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Text and markdown renderers for one view of a formatted model
+export interface ViewRenderers<T> {
+  text: (model: T) => string;
+  markdown: (model: T) => string;
+}
+
+// Renderers keyed by view name (e.g. "agreement_list")
+const viewRenderers = new Map<string, ViewRenderers<never>>();
+
+// Provision value renderers keyed by how Navigator encodes the field
+type ProvisionFormat =
+  | 'text'
+  | 'enum'
+  | 'date'
+  | 'duration'
+  | 'percent'
+  | 'boolean'
+  | 'multiplier';
+
+interface ProvisionFieldSpec {
+  key: keyof AgreementProvisions;
+  label: string;
+  format: ProvisionFormat;
+  // Provision holding the ISO currency code for amount fields
+  currencyKey?: keyof AgreementProvisions;
 }
 
+// Provisions beyond the headline dates and total value, grouped for display
+const PROVISION_SECTIONS: { title: string; fields: ProvisionFieldSpec[] }[] = [
+  {
+    title: 'Term & Renewal',
+    fields: [
+      { key: 'execution_date', label: 'Execution Date', format: 'date' },
+      { key: 'term_length', label: 'Term Length', format: 'duration' },
+      { key: 'renewal_type', label: 'Renewal Type', format: 'enum' },
+      {
+        key: 'renewal_notice_period',
+        label: 'Renewal Notice Period',
+        format: 'duration',
+      },
+      {
+        key: 'renewal_notice_date',
+        label: 'Renewal Notice Date',
+        format: 'date',
+      },
+      {
+        key: 'auto_renewal_term_length',
+        label: 'Auto-Renewal Term',
+        format: 'duration',
+      },
+      {
+        key: 'renewal_extension_period',
+        label: 'Renewal Extension Period',
+        format: 'duration',
+      },
+      {
+        key: 'renewal_process_owner',
+        label: 'Renewal Owner',
+        format: 'text',
+      },
+      {
+        key: 'renewal_additional_info',
+        label: 'Renewal Notes',
+        format: 'text',
+      },
+    ],
+  },
+  {
+    title: 'Governing Law',
+    fields: [
+      { key: 'governing_law', label: 'Governing Law', format: 'text' },
+      { key: 'jurisdiction', label: 'Jurisdiction', format: 'text' },
+    ],
+  },
+  {
+    title: 'Payment Terms',
+    fields: [
+      {
+        key: 'payment_terms_due_date',
+        label: 'Payment Due',
+        format: 'enum',
+      },
+      {
+        key: 'can_charge_late_payment_fees',
+        label: 'Late Payment Fees Allowed',
+        format: 'boolean',
+      },
+      {
+        key: 'late_payment_fee_percent',
+        label: 'Late Payment Fee',
+        format: 'percent',
+      },
+      {
+        key: 'price_cap_percent_increase',
+        label: 'Price Increase Cap',
+        format: 'percent',
+      },
+      {
+        key: 'annual_agreement_value',
+        label: 'Annual Value',
+        format: 'text',
+        currencyKey: 'annual_agreement_value_currency_code',
+      },
+    ],
+  },
+  {
+    title: 'Liability',
+    fields: [
+      {
+        key: 'liability_cap_fixed_amount',
+        label: 'Liability Cap',
+        format: 'text',
+        currencyKey: 'liability_cap_currency_code',
+      },
+      {
+        key: 'liability_cap_multiplier',
+        label: 'Liability Cap Multiplier',
+        format: 'multiplier',
+      },
+      {
+        key: 'liability_cap_duration',
+        label: 'Liability Cap Period',
+        format: 'duration',
+      },
+    ],
+  },
+  {
+    title: 'Assignment',
+    fields: [
+      { key: 'assignment_type', label: 'Assignment', format: 'enum' },
+      {
+        key: 'assignment_change_of_control',
+        label: 'Change of Control',
+        format: 'enum',
+      },
+      {
+        key: 'assignment_termination_rights',
+        label: 'Termination Rights on Assignment',
+        format: 'enum',
+      },
+    ],
+  },
+  {
+    title: 'Termination',
+    fields: [
+      {
+        key: 'termination_period_for_cause',
+        label: 'Notice for Cause',
+        format: 'duration',
+      },
+      {
+        key: 'termination_period_for_convenience',
+        label: 'Notice for Convenience',
+        format: 'duration',
+      },
+    ],
+  },
+  {
+    title: 'Confidentiality',
+    fields: [
+      {
+        key: 'confidentiality_obligation_period',
+        label: 'Confidentiality Period',
+        format: 'duration',
+      },
+    ],
+  },
+];
+
+// ISO 8601 date-part duration units in designator order
+const DURATION_UNITS: [RegExp, string][] = [
+  [/(\d+(?:\.\d+)?)Y/, 'year'],
+  [/(\d+(?:\.\d+)?)M/, 'month'],
+  [/(\d+(?:\.\d+)?)W/, 'week'],
+  [/(\d+(?:\.\d+)?)D/, 'day'],
+];
+
 /**
  * Formats agreement data into a summary format
  * @param agreement - Raw agreement data
@@ -81,6 +299,35 @@ export function formatAgreementSummary(
   };
 }
 
+/**
+ * Formats a page of agreements for list views
+ * @param agreements - Raw agreements on the page
+ * @param nextCursor - Cursor for the next page, if more results exist
+ * @returns Formatted list model
+ */
+export function formatAgreementList(
+  agreements: Agreement[],
+  nextCursor?: string
+): FormattedAgreementList {
+  return {
+    count: agreements.length,
+    hasMore: !!nextCursor,
+    nextCursor: nextCursor || null,
+    agreements: agreements.map(agreement => ({
+      ...formatAgreementSummary(agreement),
+      category: agreement.category || 'Unknown',
+      fileName: agreement.file_name || 'Unknown',
+      ...(agreement.provisions?.total_agreement_value && {
+        totalValue: agreement.provisions.total_agreement_value,
+      }),
+      ...(agreement.summary && { summary: agreement.summary }),
+      ...(agreement.metadata?.created_at && {
+        createdAt: agreement.metadata.created_at,
+      }),
+    })),
+  };
+}
+
 /**
  * Formats agreement data into detailed format
  * @param agreement - Raw agreement data
@@ -97,12 +344,365 @@ export function formatAgreementDetails(
     category: agreement.category || 'Unknown Category',
     status: agreement.status || 'Unknown Status',
     summary: agreement.summary || 'No summary available',
+    languages: agreement.languages || [],
     parties: (agreement.parties || []).map(formatParty),
     provisions: formatProvisions(agreement.provisions),
+    provisionSections: formatProvisionSections(agreement.provisions),
+    customAttributes: formatCustomAttributes(agreement.custom_attributes),
+    sourceDocuments: formatSourceDocuments(agreement),
     metadata: formatMetadata(agreement.metadata),
   };
 }
 
+/**
+ * Renders formatted agreement details as display text
+ * @param formatted - Formatted details from formatAgreementDetails
+ * @returns Multi-line plain-text description
+ */
+export function renderAgreementDetailsText(
+  formatted: FormattedAgreementDetails
+): string {
+  return `Docusign Navigator Agreement Details:
+
+Title: ${formatted.title}
+ID: ${formatted.id}
+Type: ${formatted.type}
+Category: ${formatted.category}
+Status: ${formatted.status}
+File: ${formatted.fileName}
+Parties: ${formatted.parties.map(p => p.displayName).join(', ')}${
+    formatted.provisions.hasEffectiveDate
+      ? `
+Effective Date: ${new Date(formatted.provisions.effectiveDate).toLocaleDateString()}`
+      : ''
+  }${
+    formatted.provisions.hasExpirationDate
+      ? `
+Expiration Date: ${new Date(formatted.provisions.expirationDate).toLocaleDateString()}`
+      : ''
+  }${
+    formatted.provisions.hasTotalValue
+      ? `
+Total Value: ${formatted.provisions.totalValue}`
+      : ''
+  }${
+    formatted.languages.length > 0
+      ? `
+Languages: ${formatted.languages.join(', ')}`
+      : ''
+  }${
+    formatted.summary !== 'No summary available'
+      ? `
+Summary: ${formatted.summary}`
+      : ''
+  }${renderSections([
+    ...formatted.provisionSections,
+    { title: 'Custom Attributes', fields: formatted.customAttributes },
+    { title: 'Source Documents', fields: formatted.sourceDocuments },
+  ])}${
+    formatted.metadata.hasCreatedAt
+      ? `
+Created: ${new Date(formatted.metadata.createdAt).toLocaleString()}${
+          formatted.metadata.createdBy
+            ? ` by ${formatted.metadata.createdBy}`
+            : ''
+        }`
+      : ''
+  }${
+    formatted.metadata.modifiedAt
+      ? `
+Last Modified: ${new Date(formatted.metadata.modifiedAt).toLocaleString()}${
+          formatted.metadata.modifiedBy
+            ? ` by ${formatted.metadata.modifiedBy}`
+            : ''
+        }`
+      : ''
+  }`;
+}
+
+/**
+ * Renders non-empty sections as indented text blocks
+ * @param sections - Sections to render
+ * @returns Text starting with a blank line, or '' when all are empty
+ */
+function renderSections(sections: FormattedSection[]): string {
+  return sections
+    .filter(section => section.fields.length > 0)
+    .map(
+      section =>
+        `\n\n${section.title}:\n${section.fields
+          .map(field => `  ${field.label}: ${field.value}`)
+          .join('\n')}`
+    )
+    .join('');
+}
+
+/**
+ * Renders formatted agreement details as markdown
+ * @param formatted - Formatted details from formatAgreementDetails
+ * @returns Markdown with a key facts table and one table per section
+ */
+export function renderAgreementDetailsMarkdown(
+  formatted: FormattedAgreementDetails
+): string {
+  const facts: FormattedField[] = [
+    { label: 'ID', value: formatted.id },
+    { label: 'Type', value: formatted.type },
+    { label: 'Category', value: formatted.category },
+    { label: 'Status', value: formatted.status },
+    { label: 'File', value: formatted.fileName },
+    {
+      label: 'Parties',
+      value: formatted.parties.map(p => p.displayName).join(', '),
+    },
+  ];
+  if (formatted.provisions.hasEffectiveDate) {
+    facts.push({
+      label: 'Effective Date',
+      value: new Date(formatted.provisions.effectiveDate).toLocaleDateString(),
+    });
+  }
+  if (formatted.provisions.hasExpirationDate) {
+    facts.push({
+      label: 'Expiration Date',
+      value: new Date(formatted.provisions.expirationDate).toLocaleDateString(),
+    });
+  }
+  if (formatted.provisions.hasTotalValue) {
+    facts.push({
+      label: 'Total Value',
+      value: formatted.provisions.totalValue,
+    });
+  }
+  if (formatted.languages.length > 0) {
+    facts.push({ label: 'Languages', value: formatted.languages.join(', ') });
+  }
+  if (formatted.metadata.hasCreatedAt) {
+    facts.push({
+      label: 'Created',
+      value: `${new Date(formatted.metadata.createdAt).toLocaleString()}${
+        formatted.metadata.createdBy
+          ? ` by ${formatted.metadata.createdBy}`
+          : ''
+      }`,
+    });
+  }
+  if (formatted.metadata.modifiedAt) {
+    facts.push({
+      label: 'Last Modified',
+      value: `${new Date(formatted.metadata.modifiedAt).toLocaleString()}${
+        formatted.metadata.modifiedBy
+          ? ` by ${formatted.metadata.modifiedBy}`
+          : ''
+      }`,
+    });
+  }
+
+  const sections = [
+    ...formatted.provisionSections,
+    { title: 'Custom Attributes', fields: formatted.customAttributes },
+    { title: 'Source Documents', fields: formatted.sourceDocuments },
+  ].filter(section => section.fields.length > 0);
+
+  return [
+    `# ${formatted.title}`,
+    renderFieldTable(facts),
+    ...(formatted.summary !== 'No summary available'
+      ? [`## Summary\n\n${formatted.summary}`]
+      : []),
+    ...sections.map(
+      section => `## ${section.title}\n\n${renderFieldTable(section.fields)}`
+    ),
+  ].join('\n\n');
+}
+
+/**
+ * Renders a page of agreements as a numbered plain-text list
+ * @param list - Formatted list from formatAgreementList
+ * @returns Multi-line plain-text list with a paging hint
+ */
+export function renderAgreementListText(list: FormattedAgreementList): string {
+  const items = list.agreements.map((agreement, index) => {
+    const lines = [
+      `${index + 1}. ${agreement.title}`,
+      `   ID: ${agreement.id}`,
+      `   Type: ${agreement.type}`,
+      `   Category: ${agreement.category}`,
+      `   Status: ${agreement.status}`,
+      `   File: ${agreement.fileName}`,
+      `   Parties: ${agreement.parties}`,
+    ];
+
+    // Add optional fields if they exist
+    if (agreement.effectiveDate) {
+      lines.push(
+        `   Effective Date: ${new Date(agreement.effectiveDate).toLocaleDateString()}`
+      );
+    }
+    if (agreement.expirationDate) {
+      lines.push(
+        `   Expiration Date: ${new Date(agreement.expirationDate).toLocaleDateString()}`
+      );
+    }
+    if (agreement.totalValue) {
+      lines.push(`   Total Value: ${agreement.totalValue}`);
+    }
+    if (agreement.summary) {
+      const summary =
+        agreement.summary.length > 100
+          ? agreement.summary.substring(0, 100) + '...'
+          : agreement.summary;
+      lines.push(`   Summary: ${summary}`);
+    }
+    if (agreement.createdAt) {
+      lines.push(
+        `   Created: ${new Date(agreement.createdAt).toLocaleString()}`
+      );
+    }
+
+    return lines.join('\n');
+  });
+
+  return `Found ${list.count} Docusign Navigator agreement${
+    list.count !== 1 ? 's' : ''
+  }${items.length > 0 ? '\n\nAgreement Details:\n\n' + items.join('\n\n') : ''}${renderNextPageHint(list)}`;
+}
+
+/**
+ * Renders a page of agreements as a markdown table
+ * @param list - Formatted list from formatAgreementList
+ * @returns Markdown table with a paging hint
+ */
+export function renderAgreementListMarkdown(
+  list: FormattedAgreementList
+): string {
+  const heading = `**${list.count} Docusign Navigator agreement${
+    list.count !== 1 ? 's' : ''
+  }**`;
+  if (list.count === 0) {
+    return heading + renderNextPageHint(list);
+  }
+
+  const table = renderMarkdownTable(
+    ['#', 'Title', 'ID', 'Type', 'Status', 'Parties', 'Effective', 'Expires'],
+    list.agreements.map((agreement, index) => [
+      String(index + 1),
+      agreement.title,
+      `\`${agreement.id}\``,
+      agreement.type,
+      agreement.status,
+      agreement.parties,
+      agreement.effectiveDate
+        ? new Date(agreement.effectiveDate).toLocaleDateString()
+        : '-',
+      agreement.expirationDate
+        ? new Date(agreement.expirationDate).toLocaleDateString()
+        : '-',
+    ])
+  );
+
+  return `${heading}\n\n${table}${renderNextPageHint(list)}`;
+}
+
+/**
+ * Tells the caller how to request the next page, if there is one
+ */
+function renderNextPageHint(list: FormattedAgreementList): string {
+  return list.nextCursor
+    ? `\n\nMore agreements are available. Call get_agreements again with cursor "${list.nextCursor}" to retrieve the next page.`
+    : '';
+}
+
+/**
+ * Escapes a value for use in a markdown table cell
+ * @param value - Cell text
+ * @returns Text with pipes escaped and line breaks flattened
+ */
+export function markdownTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Renders rows as a markdown table
+ * @param headers - Column headers
+ * @param rows - Cell values, one array per row
+ * @param align - Column alignment (defaults to left)
+ * @returns Markdown table with escaped cells
+ */
+export function renderMarkdownTable(
+  headers: string[],
+  rows: string[][],
+  align: Array<'left' | 'right'> = []
+): string {
+  const line = (cells: string[]) =>
+    `| ${cells.map(markdownTableCell).join(' | ')} |`;
+  return [
+    line(headers),
+    `| ${headers
+      .map((_, index) => (align[index] === 'right' ? '---:' : '---'))
+      .join(' | ')} |`,
+    ...rows.map(line),
+  ].join('\n');
+}
+
+/**
+ * Renders label/value fields as a two-column markdown table
+ */
+function renderFieldTable(fields: FormattedField[]): string {
+  return renderMarkdownTable(
+    ['Field', 'Value'],
+    fields.map(field => [field.label, field.value])
+  );
+}
+
+/**
+ * Registers text and markdown renderers for a view
+ * Handlers register their own views; agreement views are registered below
+ * @param view - View name, unique across tools
+ * @param renderers - Text and markdown renderers for the view's model
+ */
+export function registerRenderers<T>(
+  view: string,
+  renderers: ViewRenderers<T>
+): void {
+  viewRenderers.set(view, renderers as ViewRenderers<never>);
+}
+
+/**
+ * Renders a formatted model in the requested output format
+ * JSON output is the model itself, so it is always strict JSON
+ * @param view - Registered view name
+ * @param model - Formatted model
+ * @param format - Output format
+ * @returns Rendered output
+ * @throws Error if no renderers are registered for the view
+ */
+export function renderView<T>(
+  view: string,
+  model: T,
+  format: OutputFormat = 'text'
+): string {
+  if (format === 'json') {
+    return JSON.stringify(model, null, 2);
+  }
+
+  const renderers = viewRenderers.get(view) as ViewRenderers<T> | undefined;
+  if (!renderers) {
+    throw new Error(`No renderers registered for view "${view}"`);
+  }
+  return renderers[format](model);
+}
+
+registerRenderers<FormattedAgreementList>('agreement_list', {
+  text: renderAgreementListText,
+  markdown: renderAgreementListMarkdown,
+});
+
+registerRenderers<FormattedAgreementDetails>('agreement_details', {
+  text: renderAgreementDetailsText,
+  markdown: renderAgreementDetailsMarkdown,
+});
+
 /**
  * Formats parties list into a readable string
  * @param parties - Array of agreement parties
@@ -132,13 +732,171 @@ export function formatProvisions(
   return {
     effectiveDate: provisions?.effective_date || 'Not specified',
     expirationDate: provisions?.expiration_date || 'Not specified',
-    totalValue: provisions?.total_agreement_value || 'Not specified',
+    totalValue: provisions?.total_agreement_value
+      ? withCurrency(
+          provisions.total_agreement_value,
+          provisions.total_agreement_value_currency_code
+        )
+      : 'Not specified',
     hasEffectiveDate: !!provisions?.effective_date,
     hasExpirationDate: !!provisions?.expiration_date,
     hasTotalValue: !!provisions?.total_agreement_value,
   };
 }
 
+/**
+ * Groups the secondary provisions (renewal, governing law, payment,
+ * liability, assignment, termination, confidentiality) for display
+ * @param provisions - Raw provisions data
+ * @returns Sections containing only the provisions that are present
+ */
+export function formatProvisionSections(
+  provisions?: AgreementProvisions
+): FormattedSection[] {
+  if (!provisions) {
+    return [];
+  }
+
+  return PROVISION_SECTIONS.map(section => ({
+    title: section.title,
+    fields: section.fields.flatMap(spec => {
+      const value = formatProvisionValue(provisions, spec);
+      return value ? [{ label: spec.label, value }] : [];
+    }),
+  })).filter(section => section.fields.length > 0);
+}
+
+/**
+ * Formats one provision according to its encoding
+ * @returns Display value, or undefined when the provision is absent
+ */
+function formatProvisionValue(
+  provisions: AgreementProvisions,
+  spec: ProvisionFieldSpec
+): string | undefined {
+  const value = provisions[spec.key];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  switch (spec.format) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'percent':
+      return `${value}%`;
+    case 'multiplier':
+      return `${value}x`;
+    case 'date': {
+      const date = new Date(String(value));
+      return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+    }
+    case 'duration':
+      return formatDuration(String(value));
+    case 'enum':
+      return humanizeEnum(String(value));
+    default:
+      return spec.currencyKey
+        ? withCurrency(String(value), provisions[spec.currencyKey] as string)
+        : String(value);
+  }
+}
+
+/**
+ * Renders an ISO 8601 duration ("P1Y6M", "P30D") in words
+ * @param duration - Duration string
+ * @returns Readable duration, or the input when it is not ISO 8601
+ */
+export function formatDuration(duration: string): string {
+  if (!/^P(?!$)/i.test(duration)) {
+    return duration;
+  }
+
+  // Contract periods only use the date part; time designators are ignored
+  const datePart = duration.toUpperCase().slice(1).split('T')[0] || '';
+  const parts = DURATION_UNITS.flatMap(([pattern, unit]) => {
+    const match = datePart.match(pattern);
+    if (!match?.[1]) {
+      return [];
+    }
+    const amount = Number(match[1]);
+    return [`${amount} ${unit}${amount !== 1 ? 's' : ''}`];
+  });
+
+  return parts.length > 0 ? parts.join(' ') : duration;
+}
+
+/**
+ * Turns SCREAMING_SNAKE enum values into sentence case
+ * @param value - Raw enum value
+ * @returns Readable value; mixed-case text is returned unchanged
+ */
+function humanizeEnum(value: string): string {
+  if (!/^[A-Z0-9_]+$/.test(value)) {
+    return value;
+  }
+  const words = value.toLowerCase().replace(/_+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Appends a currency code to an amount unless it already names one
+ */
+function withCurrency(amount: string, currency?: string): string {
+  if (!currency || amount.toUpperCase().includes(currency.toUpperCase())) {
+    return amount;
+  }
+  return `${amount} ${currency}`;
+}
+
+/**
+ * Formats custom attributes as label/value pairs
+ * @param attributes - Raw custom attributes
+ * @returns Fields in attribute order, skipping empty values
+ */
+export function formatCustomAttributes(
+  attributes?: Record<string, AgreementCustomAttributeValue>
+): FormattedField[] {
+  return Object.entries(attributes || {}).flatMap(([label, value]) => {
+    if (value === null || value === '') {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value.length > 0 ? [{ label, value: value.join(', ') }] : [];
+    }
+    if (typeof value === 'boolean') {
+      return [{ label, value: value ? 'Yes' : 'No' }];
+    }
+    return [{ label, value: String(value) }];
+  });
+}
+
+/**
+ * Formats source document and related agreement references
+ * @param agreement - Raw agreement data
+ * @returns Fields for the references that are present
+ */
+export function formatSourceDocuments(agreement: Agreement): FormattedField[] {
+  const fields: FormattedField[] = [];
+  if (agreement.source_name) {
+    fields.push({ label: 'Source', value: agreement.source_name });
+  }
+  if (agreement.source_id) {
+    fields.push({ label: 'Source Document ID', value: agreement.source_id });
+  }
+  if (agreement.source_account_id) {
+    fields.push({
+      label: 'Source Account ID',
+      value: agreement.source_account_id,
+    });
+  }
+  const parentId =
+    agreement.related_agreement_documents?.parent_agreement_document_id;
+  if (parentId) {
+    fields.push({ label: 'Parent Agreement', value: parentId });
+  }
+  return fields;
+}
+
 /**
  * Formats a single party with fallbacks
  * @param party - Raw party data
@@ -166,5 +924,8 @@ function formatMetadata(metadata?: AgreementMetadata): FormattedMetadata {
   return {
     createdAt: metadata?.created_at || 'Unknown',
     hasCreatedAt: !!metadata?.created_at,
+    ...(metadata?.created_by && { createdBy: metadata.created_by }),
+    ...(metadata?.modified_at && { modifiedAt: metadata.modified_at }),
+    ...(metadata?.modified_by && { modifiedBy: metadata.modified_by }),
   };
 }
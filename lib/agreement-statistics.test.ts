@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeAgreementStatistics,
+  UNKNOWN_CURRENCY,
+} from './agreement-statistics.js';
+import type { Agreement, AgreementProvisions } from './mcp/types.js';
+
+function agreement(id: string, provisions: AgreementProvisions): Agreement {
+  return { id, provisions } as Agreement;
+}
+
+describe('computeAgreementStatistics', () => {
+  it('totals values by their currency code', () => {
+    const stats = computeAgreementStatistics(
+      [
+        agreement('a', {
+          total_agreement_value: '1,000.00',
+          total_agreement_value_currency_code: 'eur',
+        }),
+        agreement('b', {
+          total_agreement_value: '500',
+          total_agreement_value_currency_code: 'EUR',
+        }),
+      ],
+      []
+    );
+
+    assert.equal(stats.valuedAgreements, 2);
+    assert.deepEqual(stats.valueTotals, { EUR: 1500 });
+  });
+
+  it('prefers the currency code over the currency in the value', () => {
+    const stats = computeAgreementStatistics(
+      [
+        agreement('a', {
+          total_agreement_value: '$2,000',
+          total_agreement_value_currency_code: 'CAD',
+        }),
+      ],
+      []
+    );
+
+    assert.deepEqual(stats.valueTotals, { CAD: 2000 });
+  });
+
+  it('falls back to the currency written in the value', () => {
+    const stats = computeAgreementStatistics(
+      [
+        agreement('a', { total_agreement_value: '£250' }),
+        agreement('b', { total_agreement_value: '100' }),
+      ],
+      []
+    );
+
+    assert.deepEqual(stats.valueTotals, {
+      GBP: 250,
+      [UNKNOWN_CURRENCY]: 100,
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Agreement Statistics
+ * Aggregates agreement lists into counts and value totals along
+ * portfolio dimensions (type, category, status, party, creation month)
+ */
+
+import type { Agreement } from './mcp/types.js';
+import { parseAgreementValue } from './agreement-value.js';
+
+export const STATISTICS_DIMENSIONS = [
+  'type',
+  'category',
+  'status',
+  'party',
+  'created_month',
+] as const;
+
+export type StatisticsDimension = (typeof STATISTICS_DIMENSIONS)[number];
+
+// Bucket used when an agreement has no currency in its value
+export const UNKNOWN_CURRENCY = 'UNSPECIFIED';
+
+export interface StatisticsGroup {
+  key: string;
+  count: number;
+  valuedCount: number;
+  valueTotals: Record<string, number>;
+}
+
+export interface DimensionBreakdown {
+  dimension: StatisticsDimension;
+  groups: StatisticsGroup[];
+}
+
+export interface AgreementStatistics {
+  totalAgreements: number;
+  valuedAgreements: number;
+  valueTotals: Record<string, number>;
+  breakdowns: DimensionBreakdown[];
+}
+
+/**
+ * Returns the group keys an agreement belongs to for a dimension
+ * Agreements are counted once per distinct party
+ */
+function dimensionKeys(
+  agreement: Agreement,
+  dimension: StatisticsDimension
+): string[] {
+  switch (dimension) {
+    case 'type':
+      return [agreement.type || 'Unknown Type'];
+    case 'category':
+      return [agreement.category || 'Unknown Category'];
+    case 'status':
+      return [agreement.status || 'Unknown Status'];
+    case 'party': {
+      const names = new Set(
+        (agreement.parties || [])
+          .map(party => party.preferred_name || party.name_in_agreement)
+          .filter((name): name is string => !!name)
+      );
+      return names.size > 0 ? [...names] : ['No parties specified'];
+    }
+    case 'created_month': {
+      const createdAt = agreement.metadata?.created_at;
+      const date = createdAt ? new Date(createdAt) : null;
+      return [
+        date && !isNaN(date.getTime())
+          ? date.toISOString().slice(0, 7)
+          : 'Unknown',
+      ];
+    }
+  }
+}
+
+/**
+ * Adds an agreement's parsed value to a running total
+ * Navigator's currency code wins; the currency written in the value is only
+ * a fallback for agreements without one
+ */
+function addValue(
+  totals: Record<string, number>,
+  agreement: Agreement
+): boolean {
+  const provisions = agreement.provisions;
+  const parsed = parseAgreementValue(provisions?.total_agreement_value);
+  if (!parsed) return false;
+
+  const currency =
+    provisions?.total_agreement_value_currency_code?.trim().toUpperCase() ||
+    parsed.currency ||
+    UNKNOWN_CURRENCY;
+  totals[currency] = (totals[currency] || 0) + parsed.amount;
+  return true;
+}
+
+/**
+ * Aggregates agreements along the requested dimensions
+ * Groups are sorted by count (descending); created_month groups are sorted
+ * chronologically instead
+ * @param agreements - Agreements to aggregate
+ * @param dimensions - Dimensions to break down by
+ * @returns Overall totals plus one breakdown per dimension
+ */
+export function computeAgreementStatistics(
+  agreements: Agreement[],
+  dimensions: StatisticsDimension[]
+): AgreementStatistics {
+  const valueTotals: Record<string, number> = {};
+  let valuedAgreements = 0;
+  for (const agreement of agreements) {
+    if (addValue(valueTotals, agreement)) valuedAgreements++;
+  }
+
+  const breakdowns = dimensions.map(dimension => {
+    const groups = new Map<string, StatisticsGroup>();
+
+    for (const agreement of agreements) {
+      for (const key of dimensionKeys(agreement, dimension)) {
+        const group = groups.get(key) || {
+          key,
+          count: 0,
+          valuedCount: 0,
+          valueTotals: {},
+        };
+        group.count++;
+        if (addValue(group.valueTotals, agreement)) group.valuedCount++;
+        groups.set(key, group);
+      }
+    }
+
+    const sorted = [...groups.values()].sort((a, b) =>
+      dimension === 'created_month'
+        ? a.key.localeCompare(b.key)
+        : b.count - a.count || a.key.localeCompare(b.key)
+    );
+
+    return { dimension, groups: sorted };
+  });
+
+  return {
+    totalAgreements: agreements.length,
+    valuedAgreements,
+    valueTotals,
+    breakdowns,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  detectCurrency,
+  formatAmount,
+  parseAgreementValue,
+  parseNumericValue,
+} from './agreement-value.js';
+
+describe('parseNumericValue', () => {
+  it('parses plain and comma-grouped numbers', () => {
+    assert.equal(parseNumericValue('50000'), 50000);
+    assert.equal(parseNumericValue('$1,250,000.00'), 1250000);
+    assert.equal(parseNumericValue('USD 1,234.56'), 1234.56);
+  });
+
+  it('parses dot-grouped numbers with comma decimals', () => {
+    assert.equal(parseNumericValue('EUR 50.000'), 50000);
+    assert.equal(parseNumericValue('EUR 10.000,50'), 10000.5);
+    assert.equal(parseNumericValue('1.250.000,00 €'), 1250000);
+    assert.equal(parseNumericValue('10,5'), 10.5);
+  });
+
+  it('reads a lone separator before three digits as grouping', () => {
+    assert.equal(parseNumericValue('10,000'), 10000);
+    assert.equal(parseNumericValue('1.25'), 1.25);
+    assert.equal(parseNumericValue('1,500.5'), 1500.5);
+  });
+
+  it('ignores a trailing full stop', () => {
+    assert.equal(parseNumericValue('Total: 50,000.'), 50000);
+  });
+
+  it('applies magnitude suffixes', () => {
+    assert.equal(parseNumericValue('250k GBP'), 250000);
+    assert.equal(parseNumericValue('1.5 million'), 1500000);
+    assert.equal(parseNumericValue('$2bn'), 2000000000);
+    assert.equal(parseNumericValue('1.500 million'), 1500000);
+  });
+
+  it('does not treat words as suffixes', () => {
+    assert.equal(parseNumericValue('12 months'), 12);
+  });
+
+  it('keeps negative numbers', () => {
+    assert.equal(parseNumericValue('-500'), -500);
+  });
+
+  it('returns null without a number', () => {
+    assert.equal(parseNumericValue('not stated'), null);
+    assert.equal(parseNumericValue(''), null);
+  });
+});
+
+describe('detectCurrency', () => {
+  it('prefers ISO codes', () => {
+    assert.equal(detectCurrency('50,000 eur'), 'EUR');
+    assert.equal(detectCurrency('CAD 10'), 'CAD');
+  });
+
+  it('maps symbols, longest first', () => {
+    assert.equal(detectCurrency('US$100'), 'USD');
+    assert.equal(detectCurrency('A$100'), 'AUD');
+    assert.equal(detectCurrency('£100'), 'GBP');
+    assert.equal(detectCurrency('€100'), 'EUR');
+  });
+
+  it('returns null when no currency is indicated', () => {
+    assert.equal(detectCurrency('100'), null);
+  });
+});
+
+describe('parseAgreementValue', () => {
+  it('returns amount and currency', () => {
+    assert.deepEqual(parseAgreementValue('$1,250,000.00'), {
+      amount: 1250000,
+      currency: 'USD',
+    });
+  });
+
+  it('parses European-formatted values', () => {
+    assert.deepEqual(parseAgreementValue('EUR 10.000,50'), {
+      amount: 10000.5,
+      currency: 'EUR',
+    });
+  });
+
+  it('returns null for missing values', () => {
+    assert.equal(parseAgreementValue(undefined), null);
+    assert.equal(parseAgreementValue('TBD'), null);
+  });
+});
+
+describe('formatAmount', () => {
+  it('formats with two decimals and the currency', () => {
+    assert.equal(formatAmount(1250000, 'USD'), 'USD 1,250,000.00');
+    assert.equal(formatAmount(10, null), '10.00');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Agreement Value Utilities
+ * Parses free-form monetary values such as Navigator's
+ * total_agreement_value ("$1,250,000.00", "EUR 50.000,00", "250k GBP")
+ * into numbers with a detected currency
+ */
+
+export interface ParsedAmount {
+  amount: number;
+  currency: string | null;
+}
+
+// Currency symbols mapped to ISO 4217 codes (longest symbols first)
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['A$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['R$', 'BRL'],
+  ['$', 'USD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['₩', 'KRW'],
+  ['₣', 'CHF'],
+];
+
+const ISO_CURRENCY_PATTERN =
+  /\b(USD|EUR|GBP|JPY|CAD|AUD|NZD|CHF|CNY|INR|BRL|MXN|SEK|NOK|DKK|SGD|HKD|ZAR|KRW|PLN)\b/i;
+
+const MAGNITUDE_MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  mm: 1_000_000,
+  million: 1_000_000,
+  b: 1_000_000_000,
+  bn: 1_000_000_000,
+  billion: 1_000_000_000,
+};
+
+/**
+ * Converts a number written with either separator convention to a float
+ * "1,250,000.50" and "1.250.000,50" are both 1250000.5. When only one kind
+ * of separator appears, it groups thousands if it repeats or is followed by
+ * exactly three digits ("50.000", "10,000"), and is a decimal point
+ * otherwise ("10,5", "1.25"). A magnitude suffix always makes a lone
+ * separator a decimal point ("1.500 million").
+ */
+function normalizeNumber(digits: string, hasSuffix: boolean): number {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+
+  let decimalSeparator: string | null = null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalSeparator = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const groups = digits.split(separator);
+    const isGrouping =
+      !hasSuffix && (groups.length > 2 || groups[1]!.length === 3);
+    decimalSeparator = isGrouping ? null : separator;
+  }
+
+  const [whole, fraction] =
+    decimalSeparator === null
+      ? [digits, '']
+      : [
+          digits.slice(0, digits.lastIndexOf(decimalSeparator)),
+          digits.slice(digits.lastIndexOf(decimalSeparator) + 1),
+        ];
+  return parseFloat(
+    `${whole.replace(/[.,]/g, '')}${fraction ? `.${fraction}` : ''}`
+  );
+}
+
+/**
+ * Parses the first number in a string, honouring thousands separators in
+ * either convention ("1,250.50" or "1.250,50") and magnitude suffixes
+ * (k, m, million, ...)
+ * @param value - Text containing a number
+ * @returns Parsed number or null if none found
+ */
+export function parseNumericValue(value: string): number | null {
+  const match = value.match(
+    /(-?)(\d+(?:[.,]\d+)*)\s*(k|mm|m|bn|b|thousand|million|billion)?(?![a-z])/i
+  );
+  if (!match) return null;
+
+  const suffix = match[3]?.toLowerCase();
+  const number = normalizeNumber(match[2]!, !!suffix);
+  if (isNaN(number)) return null;
+
+  const signed = match[1] ? -number : number;
+  return suffix ? signed * MAGNITUDE_MULTIPLIERS[suffix]! : signed;
+}
+
+/**
+ * Detects the currency of a monetary string from ISO codes or symbols
+ * @param value - Monetary text
+ * @returns ISO 4217 code or null if no currency is indicated
+ */
+export function detectCurrency(value: string): string | null {
+  const isoMatch = value.match(ISO_CURRENCY_PATTERN);
+  if (isoMatch) {
+    return isoMatch[1]!.toUpperCase();
+  }
+
+  for (const [symbol, code] of CURRENCY_SYMBOLS) {
+    if (value.includes(symbol)) return code;
+  }
+
+  return null;
+}
+
+/**
+ * Parses a monetary value into an amount and currency
+ * @param value - Raw value such as total_agreement_value
+ * @returns Parsed amount or null if the value contains no number
+ */
+export function parseAgreementValue(value?: string): ParsedAmount | null {
+  if (!value) return null;
+
+  const amount = parseNumericValue(value);
+  if (amount === null) return null;
+
+  return { amount, currency: detectCurrency(value) };
+}
+
+/**
+ * Formats an amount with its currency for display
+ * @param amount - Numeric amount
+ * @param currency - ISO currency code, or null when unknown
+ * @returns Display string such as "USD 1,250,000.00"
+ */
+export function formatAmount(amount: number, currency: string | null): string {
+  const formatted = amount.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return currency ? `${currency} ${formatted}` : formatted;
+}
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCacheStore, MemoryLRUCache, RedisCacheStore } from './cache.js';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+describe('setIfAbsent', () => {
+  it('claims a key once in memory, even when called concurrently', async () => {
+    const cache = new MemoryLRUCache<boolean>({
+      maxEntries: 10,
+      defaultTtlMs: 60_000,
+    });
+
+    const claims = await Promise.all([
+      cache.setIfAbsent('nonce', true),
+      cache.setIfAbsent('nonce', true),
+    ]);
+    assert.deepEqual(claims.sort(), [false, true]);
+  });
+
+  it('reclaims expired keys', async () => {
+    const cache = new MemoryLRUCache<boolean>({
+      maxEntries: 10,
+      defaultTtlMs: 60_000,
+    });
+
+    assert.equal(await cache.setIfAbsent('nonce', true, -1), true);
+    assert.equal(await cache.setIfAbsent('nonce', true), true);
+  });
+
+  it('never evicts live entries to make room', async () => {
+    const cache = new MemoryLRUCache<boolean>({
+      maxEntries: 2,
+      defaultTtlMs: 60_000,
+    });
+    await cache.setIfAbsent('a', true);
+    await cache.setIfAbsent('b', true, -1);
+
+    // The expired entry is swept to make room
+    assert.equal(await cache.setIfAbsent('c', true), true);
+    await assert.rejects(cache.setIfAbsent('d', true), /full/);
+    assert.equal(await cache.setIfAbsent('a', true), false);
+  });
+
+  it('claims a key once in a file store', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cache-'));
+    try {
+      const store = new FileCacheStore<boolean>(join(dir, 'n.json'), 60_000);
+
+      const claims = await Promise.all([
+        store.setIfAbsent('nonce', true),
+        store.setIfAbsent('nonce', true),
+      ]);
+      assert.deepEqual(claims.sort(), [false, true]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('uses SET NX PX on Redis', async () => {
+    const commands: unknown[] = [];
+    let taken = false;
+    const store = new RedisCacheStore<boolean>({
+      url: 'https://redis.example.com',
+      token: 'token',
+      keyPrefix: 'test:',
+      defaultTtlMs: 60_000,
+      fetch: async (_url, init?: FetchInit) => {
+        commands.push(JSON.parse(String(init?.body)));
+        const result = taken ? null : 'OK';
+        taken = true;
+        return new Response(JSON.stringify({ result }));
+      },
+    });
+
+    assert.equal(await store.setIfAbsent('nonce', true, 1000), true);
+    assert.equal(await store.setIfAbsent('nonce', true, 1000), false);
+    assert.deepEqual(commands[0], [
+      'SET',
+      'test:nonce',
+      'true',
+      'NX',
+      'PX',
+      1000,
+    ]);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Cache Utilities
+ * Pluggable key/value cache used to avoid repeated Docusign round-trips.
+ * The default store is an in-memory LRU with per-entry TTL; file and
+ * Redis-compatible REST stores persist entries across restarts and
+ * instances, and other stores can be plugged in by implementing CacheStore.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { fetchWithRetry } from './retry.js';
+
+// Minimal async cache contract so remote stores can implement it
+export interface CacheStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, ttlMs?: number): Promise<void>;
+  // Atomically stores the value only if the key holds no live entry;
+  // resolves to false when the key was already taken
+  setIfAbsent(key: string, value: T, ttlMs?: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface MemoryCacheOptions {
+  maxEntries: number;
+  defaultTtlMs: number;
+}
+
+/**
+ * In-memory LRU cache with TTL expiry
+ * Map insertion order doubles as recency order: reads re-insert the entry
+ * and the oldest key is evicted once maxEntries is exceeded
+ */
+export class MemoryLRUCache<T> implements CacheStore<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private options: MemoryCacheOptions) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: Date.now() + (ttlMs ?? this.options.defaultTtlMs),
+    });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Checks and sets without yielding, so concurrent callers cannot both win
+   * Live entries are never evicted to make room: a forgotten key could be
+   * claimed twice, so a cache full of unexpired entries refuses the write
+   * @throws Error if every slot holds an unexpired entry
+   */
+  async setIfAbsent(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    const now = Date.now();
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > now) {
+      return false;
+    }
+
+    if (!existing && this.entries.size >= this.options.maxEntries) {
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt <= now) this.entries.delete(entryKey);
+      }
+      if (this.entries.size >= this.options.maxEntries) {
+        throw new Error('Cache is full of unexpired entries');
+      }
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: now + (ttlMs ?? this.options.defaultTtlMs),
+    });
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache persisted as a JSON file, for single-instance deployments that must
+ * survive restarts. The file is re-read on every operation so separate
+ * processes on one host see each other's writes; writes from this process
+ * are serialized and replace the file atomically.
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private path: string,
+    private defaultTtlMs: number
+  ) {}
+
+  private async readEntries(): Promise<Record<string, CacheEntry<T>>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private update<R = void>(
+    mutate: (entries: Record<string, CacheEntry<T>>) => R
+  ): Promise<R> {
+    const run = this.queue.then(async () => {
+      const entries = await this.readEntries();
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(entries)) {
+        if (entry.expiresAt <= now) delete entries[key];
+      }
+      const result = mutate(entries);
+
+      await mkdir(dirname(this.path), { recursive: true });
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(entries), { mode: 0o600 });
+      await rename(tempPath, this.path);
+      return result;
+    });
+    this.queue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = (await this.readEntries())[key];
+    return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+  }
+
+  async set(key: string, value: T, ttlMs?: number): Promise<void> {
+    await this.update(entries => {
+      entries[key] = {
+        value,
+        expiresAt: Date.now() + (ttlMs ?? this.defaultTtlMs),
+      };
+    });
+  }
+
+  // Atomic within this process; writes from other processes are not locked
+  async setIfAbsent(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    return this.update(entries => {
+      if (entries[key]) {
+        return false;
+      }
+      entries[key] = {
+        value,
+        expiresAt: Date.now() + (ttlMs ?? this.defaultTtlMs),
+      };
+      return true;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(entries => {
+      delete entries[key];
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.update(entries => {
+      for (const key of Object.keys(entries)) delete entries[key];
+    });
+  }
+}
+
+export interface RedisCacheOptions {
+  // REST endpoint accepting commands as JSON arrays (Upstash, Vercel KV)
+  url: string;
+  token: string;
+  keyPrefix: string;
+  defaultTtlMs: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Cache backed by a Redis-compatible REST API, shared by every instance.
+ * Values are stored as JSON under keyPrefix and expire through PX.
+ */
+export class RedisCacheStore<T> implements CacheStore<T> {
+  constructor(private options: RedisCacheOptions) {}
+
+  private async command(...args: Array<string | number>): Promise<unknown> {
+    const response = await fetchWithRetry(
+      this.options.url,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.options.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(args),
+      },
+      undefined,
+      this.options.fetch
+    );
+
+    const body = (await response.json().catch(() => ({}))) as {
+      result?: unknown;
+      error?: string;
+    };
+    if (!response.ok || body.error) {
+      throw new Error(
+        `Redis ${args[0]} failed: ${body.error ?? `status ${response.status}`}`
+      );
+    }
+    return body.result;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const value = await this.command('GET', this.options.keyPrefix + key);
+    return typeof value === 'string' ? (JSON.parse(value) as T) : undefined;
+  }
+
+  async set(key: string, value: T, ttlMs?: number): Promise<void> {
+    const ttl = Math.ceil(ttlMs ?? this.options.defaultTtlMs);
+    if (ttl <= 0) {
+      return this.delete(key);
+    }
+    await this.command(
+      'SET',
+      this.options.keyPrefix + key,
+      JSON.stringify(value),
+      'PX',
+      ttl
+    );
+  }
+
+  async setIfAbsent(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    const ttl = Math.ceil(ttlMs ?? this.options.defaultTtlMs);
+    if (ttl <= 0) {
+      return false;
+    }
+    const result = await this.command(
+      'SET',
+      this.options.keyPrefix + key,
+      JSON.stringify(value),
+      'NX',
+      'PX',
+      ttl
+    );
+    return result === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command('DEL', this.options.keyPrefix + key);
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = (await this.command(
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${this.options.keyPrefix}*`,
+        'COUNT',
+        100
+      )) as [string, string[]];
+      if (keys.length > 0) {
+        await this.command('DEL', ...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * Derives a cache key from a bearer token so raw tokens are never stored
+ * @param token - Bearer access token
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
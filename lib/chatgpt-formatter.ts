@@ -4,6 +4,20 @@
  */
 
 import type { MCPToolResponse, Agreement } from './mcp/types.js';
+import { buildSnippet, type Passage } from './search/index.js';
+import type { RenderedDocumentText } from './documents/index.js';
+import {
+  formatCustomAttributes,
+  formatProvisionSections,
+  formatSourceDocuments,
+  registerRenderers,
+  renderView,
+  type FormattedField,
+  type OutputFormat,
+} from './agreement-formatter.js';
+
+// Passage snippets keep more surrounding text than agreement summaries
+const PASSAGE_SNIPPET_LENGTH = 400;
 
 // ChatGPT search result interface
 export interface ChatGPTSearchResult {
@@ -24,24 +38,83 @@ export interface ChatGPTFetchResponse {
   id: string;
   title: string;
   content: string;
+  url?: string;
   metadata?: Record<string, unknown>;
   error?: string;
 }
 
+// Renders ChatGPT responses as text or markdown for non-connector clients
+export interface ChatGPTRenderOptions {
+  view: 'search_results' | 'fetch_result';
+  format?: OutputFormat;
+}
+
+registerRenderers<ChatGPTSearchResponse>('search_results', {
+  text: response =>
+    response.error
+      ? `Error: ${response.error}`
+      : `Found ${response.results.length} result${
+          response.results.length !== 1 ? 's' : ''
+        }${response.results
+          .map(
+            (result, index) =>
+              `\n\n${index + 1}. ${result.title} (ID: ${result.id})\n   ${result.text}\n   ${result.url}`
+          )
+          .join('')}`,
+  markdown: response =>
+    response.error
+      ? `**Error:** ${response.error}`
+      : `**Found ${response.results.length} result${
+          response.results.length !== 1 ? 's' : ''
+        }**${response.results
+          .map(
+            (result, index) =>
+              `\n\n${index + 1}. [${result.title}](${result.url}) - \`${result.id}\`\n   > ${result.text}`
+          )
+          .join('')}`,
+});
+
+registerRenderers<ChatGPTFetchResponse>('fetch_result', {
+  text: response => `${response.title} (ID: ${response.id})
+
+${response.content}`,
+  markdown: response => {
+    // Field lines become a bullet list; appended document text is kept as is
+    const [fields = '', ...rest] = response.content.split('\n\n');
+    const bullets = fields
+      .split('\n')
+      .map(line => line.replace(/^([^:]+): /, '- **$1:** '))
+      .join('\n');
+
+    return [
+      `# ${response.title}`,
+      `\`${response.id}\`${response.url ? ` - [Open in Navigator](${response.url})` : ''}`,
+      bullets,
+      ...rest,
+    ].join('\n\n');
+  },
+});
+
 /**
  * Creates a ChatGPT-compatible search response
- * @param agreements - Array of agreements to format
+ * Passage results cite the page they were found on in the title and URL
+ * @param items - Agreements or document passages to format
+ * @param highlightTerms - Query terms to centre summary snippets on
  * @returns ChatGPT search response object
  */
 export function createSearchResponse(
-  agreements: Agreement[]
+  items: Array<Agreement | Passage>,
+  highlightTerms: string[] = []
 ): ChatGPTSearchResponse {
-  const results: ChatGPTSearchResult[] = agreements.map(agreement => {
-    // Create a brief text snippet for the search result
+  const results: ChatGPTSearchResult[] = items.map(item => {
+    if ('pageNumber' in item) {
+      return createPassageResult(item, highlightTerms);
+    }
+
+    const agreement = item;
+    // Create a brief text snippet around the first matched term
     const snippet = agreement.summary
-      ? agreement.summary.length > 200
-        ? agreement.summary.substring(0, 200) + '...'
-        : agreement.summary
+      ? buildSnippet(agreement.summary, highlightTerms)
       : `${agreement.type || 'Agreement'} - ${agreement.category || 'Unknown category'}`;
 
     return {
@@ -55,13 +128,38 @@ export function createSearchResponse(
   return { results };
 }
 
+/**
+ * Formats a document passage as a search result with its page reference
+ * and the surrounding clause text
+ */
+function createPassageResult(
+  passage: Passage,
+  highlightTerms: string[]
+): ChatGPTSearchResult {
+  const { agreement, pageNumber } = passage;
+  const title = agreement.title || agreement.file_name || 'Untitled Agreement';
+
+  return {
+    id: agreement.id,
+    title: `${title} (p. ${pageNumber})`,
+    text: `[Page ${pageNumber}] ${buildSnippet(
+      passage.text,
+      highlightTerms,
+      PASSAGE_SNIPPET_LENGTH
+    )}`,
+    url: `https://navigator.docusign.com/agreement/${agreement.id}#page=${pageNumber}`, // Placeholder URL
+  };
+}
+
 /**
  * Creates a ChatGPT-compatible fetch response for a single agreement
  * @param agreement - Agreement to format
+ * @param documentText - Rendered source document text to append, if fetched
  * @returns ChatGPT fetch response object
  */
 export function createFetchResponse(
-  agreement: Agreement
+  agreement: Agreement,
+  documentText?: RenderedDocumentText
 ): ChatGPTFetchResponse {
   // Build comprehensive content string
   const contentParts = [
@@ -93,13 +191,41 @@ export function createFetchResponse(
       );
     }
     if (agreement.provisions.total_agreement_value) {
+      const currency = agreement.provisions.total_agreement_value_currency_code;
       provisions.push(
-        `Total Value: ${agreement.provisions.total_agreement_value}`
+        `Total Value: ${agreement.provisions.total_agreement_value}${
+          currency &&
+          !agreement.provisions.total_agreement_value.includes(currency)
+            ? ` ${currency}`
+            : ''
+        }`
       );
     }
     if (provisions.length > 0) {
       contentParts.push(`Provisions: ${provisions.join(', ')}`);
     }
+
+    for (const section of formatProvisionSections(agreement.provisions)) {
+      contentParts.push(`${section.title}: ${joinFields(section.fields)}`);
+    }
+  }
+
+  if (agreement.languages && agreement.languages.length > 0) {
+    contentParts.push(`Languages: ${agreement.languages.join(', ')}`);
+  }
+
+  const customAttributes = formatCustomAttributes(agreement.custom_attributes);
+  if (customAttributes.length > 0) {
+    contentParts.push(`Custom Attributes: ${joinFields(customAttributes)}`);
+  }
+
+  const sourceDocuments = formatSourceDocuments(agreement);
+  if (sourceDocuments.length > 0) {
+    contentParts.push(`Source Documents: ${joinFields(sourceDocuments)}`);
+  }
+
+  if (documentText) {
+    contentParts.push('', 'Document Text:', documentText.text);
   }
 
   return {
@@ -109,25 +235,49 @@ export function createFetchResponse(
     metadata: {
       file_name: agreement.file_name,
       created_at: agreement.metadata?.created_at,
+      modified_at: agreement.metadata?.modified_at,
+      languages: agreement.languages,
+      source_id: agreement.source_id,
+      ...(documentText && {
+        document: {
+          characters: documentText.characters,
+          total_characters: documentText.totalCharacters,
+          truncated: documentText.truncated,
+          next_page: documentText.nextPage,
+        },
+      }),
     },
   };
 }
 
+/**
+ * Joins label/value fields into a single comma-separated line
+ */
+function joinFields(fields: FormattedField[]): string {
+  return fields.map(field => `${field.label}: ${field.value}`).join(', ');
+}
+
 /**
  * Wraps data in MCP format for tool responses
- * @param data - Data to wrap (will be JSON stringified)
+ * @param data - Data to wrap (JSON stringified unless rendered), also
+ * returned as structuredContent
  * @param annotation - Additional annotation data
+ * @param rendering - View and output format, for text or markdown output
  * @returns MCPToolResponse with wrapped data
  */
 export function wrapInMCPFormat(
   data: unknown,
-  annotation?: Record<string, unknown>
+  annotation?: Record<string, unknown>,
+  rendering?: ChatGPTRenderOptions
 ): MCPToolResponse {
   return {
+    structuredContent: data as Record<string, unknown>,
     content: [
       {
         type: 'text',
-        text: JSON.stringify(data, null, 2),
+        text: rendering
+          ? renderView(rendering.view, data, rendering.format ?? 'json')
+          : JSON.stringify(data, null, 2),
         annotation: {
           chatgpt_format: data,
           ...annotation,
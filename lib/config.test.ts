@@ -0,0 +1,48 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config, validateConfig } from './config.js';
+
+const { store, redisUrl, redisToken } = config.oauth;
+
+describe('validateConfig', () => {
+  afterEach(() => {
+    delete process.env.VERCEL;
+    Object.assign(config.oauth, { store, redisUrl, redisToken });
+  });
+
+  it('accepts the test configuration', () => {
+    assert.doesNotThrow(() => validateConfig());
+  });
+
+  it('only warns about process-local OAuth stores on Vercel', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      process.env.VERCEL = '1';
+      config.oauth.store = 'memory';
+
+      assert.doesNotThrow(() => validateConfig());
+      assert.match(
+        String(warn.mock.calls[0]?.arguments[0]),
+        /OAUTH_STORE must be redis/
+      );
+    } finally {
+      mock.restoreAll();
+    }
+  });
+
+  it('accepts the redis store on Vercel', () => {
+    process.env.VERCEL = '1';
+    Object.assign(config.oauth, {
+      store: 'redis',
+      redisUrl: 'https://kv.example.com',
+      redisToken: 'token',
+    });
+
+    assert.doesNotThrow(() => validateConfig());
+  });
+
+  it('requires Redis credentials for the redis store', () => {
+    Object.assign(config.oauth, { store: 'redis', redisUrl: '' });
+    assert.throws(() => validateConfig(), /OAUTH_REDIS_URL/);
+  });
+});
@@ -4,13 +4,51 @@
  * with type-safe access and validation
  */
 
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from './logger.js';
+
+// Docusign environments: demo (developer sandbox), production, or custom
+// hosts supplied entirely through environment variables
+export const DOCUSIGN_ENVIRONMENTS = ['demo', 'production', 'custom'] as const;
+export type DocuSignEnvironment = (typeof DOCUSIGN_ENVIRONMENTS)[number];
+
+// Embedding providers for semantic search: a local hash embedder that
+// needs no network access, or hosted OpenAI-compatible / Voyage AI models
+export const EMBEDDING_PROVIDERS = ['hash', 'openai', 'voyage'] as const;
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+// Tokens issued by /token: DocuSign's own tokens passed straight through, or
+// server-minted opaque or JWT tokens mapped to stored DocuSign credentials
+export const OAUTH_TOKEN_MODES = ['passthrough', 'opaque', 'jwt'] as const;
+export type OAuthTokenMode = (typeof OAUTH_TOKEN_MODES)[number];
+
+// Where OAuth sessions are kept: process memory, JSON files on disk, or a
+// Redis-compatible REST endpoint (Upstash, Vercel KV, ...)
+export const OAUTH_STORES = ['memory', 'file', 'redis'] as const;
+export type OAuthStoreName = (typeof OAUTH_STORES)[number];
+
+// Per-region API host overrides, keyed by region (e.g. "eu", "au", "na")
+export interface RegionHostOverride {
+  navigatorBaseUrl?: string;
+  eSignatureBaseUrl?: string;
+}
+
 // Configuration interface
 export interface AppConfig {
   docusign: {
+    environment: DocuSignEnvironment;
     clientId: string;
     clientSecret: string;
+    // OAuth authorization server (account-d / account)
     baseUrl: string;
+    // Navigator API host (api-d / api)
+    navigatorBaseUrl: string;
+    jwksUri: string;
+    // Token revocation endpoint (RFC 7009); empty when Docusign offers none
+    revocationUri: string;
     redirectUri: string;
+    regionHosts: Record<string, RegionHostOverride>;
   };
   server: {
     baseUrl: string;
@@ -19,6 +57,48 @@ export interface AppConfig {
   security: {
     stateExpirationMs: number;
   };
+  oauth: {
+    tokenMode: OAuthTokenMode;
+    store: OAuthStoreName;
+    storePath: string;
+    redisUrl: string;
+    redisToken: string;
+    // Newest first; older secrets only decrypt and verify existing data
+    encryptionKeys: string[];
+    accessTokenTtlMs: number;
+    refreshTokenTtlMs: number;
+    refreshSkewMs: number;
+    clientTtlMs: number;
+    authorizationCodeTtlMs: number;
+  };
+  cache: {
+    userInfoTtlMs: number;
+    maxEntries: number;
+  };
+  retry: {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    timeoutMs: number;
+  };
+  documents: {
+    maxBytes: number;
+    maxContentChars: number;
+    chunkChars: number;
+    cacheTtlMs: number;
+    cacheMaxEntries: number;
+  };
+  search: {
+    embeddingProvider: EmbeddingProviderName;
+    embeddingModel: string;
+    embeddingApiKey: string;
+    embeddingApiUrl: string;
+    hashDimensions: number;
+    semanticWeight: number;
+    minSimilarity: number;
+    indexTtlMs: number;
+    indexMaxAccounts: number;
+  };
   logging: {
     level: string;
   };
@@ -38,19 +118,157 @@ function getEnvVar(key: string, defaultValue?: string): string {
   return value || defaultValue!;
 }
 
+// Well-known Docusign hosts per environment
+const DOCUSIGN_ENVIRONMENT_HOSTS: Record<
+  Exclude<DocuSignEnvironment, 'custom'>,
+  { authServer: string; navigatorBaseUrl: string }
+> = {
+  demo: {
+    authServer: 'https://account-d.docusign.com',
+    navigatorBaseUrl: 'https://api-d.docusign.com',
+  },
+  production: {
+    authServer: 'https://account.docusign.com',
+    navigatorBaseUrl: 'https://api.docusign.com',
+  },
+};
+
+/**
+ * Resolves the Docusign auth server, Navigator API and JWKS URLs
+ * Known environments supply defaults that individual variables can override;
+ * the custom environment requires the auth server and Navigator URLs
+ * @returns Environment name and host URLs without trailing slashes
+ * @throws Error if the environment is unknown or custom hosts are missing
+ */
+function resolveDocuSignHosts(): Pick<
+  AppConfig['docusign'],
+  'environment' | 'baseUrl' | 'navigatorBaseUrl' | 'jwksUri' | 'revocationUri'
+> {
+  const environment = getEnvVar('DOCUSIGN_ENVIRONMENT', 'demo').toLowerCase();
+  if (!DOCUSIGN_ENVIRONMENTS.includes(environment as DocuSignEnvironment)) {
+    throw new Error(
+      `DOCUSIGN_ENVIRONMENT must be one of ${DOCUSIGN_ENVIRONMENTS.join(', ')} (got "${environment}")`
+    );
+  }
+
+  const defaults =
+    environment === 'custom'
+      ? undefined
+      : DOCUSIGN_ENVIRONMENT_HOSTS[environment as 'demo' | 'production'];
+  const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+  const baseUrl = trimSlash(
+    getEnvVar('DOCUSIGN_AUTH_SERVER', defaults?.authServer)
+  );
+  return {
+    environment: environment as DocuSignEnvironment,
+    baseUrl,
+    navigatorBaseUrl: trimSlash(
+      getEnvVar('DOCUSIGN_NAVIGATOR_API_URL', defaults?.navigatorBaseUrl)
+    ),
+    jwksUri: getEnvVar('DOCUSIGN_JWKS_URI', `${baseUrl}/oauth/jwks`),
+    revocationUri: getEnvVar('DOCUSIGN_REVOCATION_URI', ''),
+  };
+}
+
+/**
+ * Reads an environment variable restricted to a fixed set of values
+ * @param key - Environment variable key
+ * @param allowed - Accepted values
+ * @param defaultValue - Value used when the variable is unset
+ * @returns Lower-cased value
+ * @throws Error if the value is not allowed
+ */
+function getEnumEnvVar<T extends string>(
+  key: string,
+  allowed: readonly T[],
+  defaultValue: T
+): T {
+  const value = getEnvVar(key, defaultValue).toLowerCase();
+  if (!allowed.includes(value as T)) {
+    throw new Error(
+      `${key} must be one of ${allowed.join(', ')} (got "${value}")`
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Parses OAUTH_ENCRYPTION_KEYS, a comma-separated list of secrets
+ * @returns Secrets, newest first
+ */
+function parseEncryptionKeys(): string[] {
+  return getEnvVar('OAUTH_ENCRYPTION_KEYS', '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses DOCUSIGN_REGION_HOSTS, a JSON object mapping regions to hosts, e.g.
+ * {"eu": {"navigatorBaseUrl": "https://...", "eSignatureBaseUrl": "https://..."}}
+ * @returns Overrides keyed by lower-case region
+ * @throws Error if the value is not a JSON object of host overrides
+ */
+function parseRegionHosts(): Record<string, RegionHostOverride> {
+  const raw = getEnvVar('DOCUSIGN_REGION_HOSTS', '');
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('DOCUSIGN_REGION_HOSTS must be valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('DOCUSIGN_REGION_HOSTS must be a JSON object');
+  }
+
+  const regionHosts: Record<string, RegionHostOverride> = {};
+  for (const [region, hosts] of Object.entries(parsed)) {
+    if (!hosts || typeof hosts !== 'object') {
+      throw new Error(
+        `DOCUSIGN_REGION_HOSTS entry "${region}" must be an object`
+      );
+    }
+    const { navigatorBaseUrl, eSignatureBaseUrl } = hosts as Record<
+      string,
+      unknown
+    >;
+    for (const url of [navigatorBaseUrl, eSignatureBaseUrl]) {
+      if (url !== undefined && typeof url !== 'string') {
+        throw new Error(
+          `DOCUSIGN_REGION_HOSTS entry "${region}" hosts must be strings`
+        );
+      }
+    }
+    regionHosts[region.toLowerCase()] = {
+      navigatorBaseUrl: (navigatorBaseUrl as string | undefined)?.replace(
+        /\/+$/,
+        ''
+      ),
+      eSignatureBaseUrl: (eSignatureBaseUrl as string | undefined)?.replace(
+        /\/+$/,
+        ''
+      ),
+    };
+  }
+  return regionHosts;
+}
+
 /**
  * Centralized application configuration
  * Loads and validates all configuration from environment variables
  */
 export const config: AppConfig = {
   docusign: {
+    ...resolveDocuSignHosts(),
     clientId: getEnvVar('DOCUSIGN_INTEGRATION_KEY'),
     clientSecret: getEnvVar('DOCUSIGN_SECRET_KEY'),
-    baseUrl: getEnvVar(
-      'DOCUSIGN_AUTH_SERVER',
-      'https://account-d.docusign.com'
-    ),
     redirectUri: getEnvVar('DOCUSIGN_REDIRECT_URI'),
+    regionHosts: parseRegionHosts(),
   },
   server: {
     baseUrl: getEnvVar('SERVER_BASE_URL', 'http://localhost:3000'),
@@ -59,6 +277,90 @@ export const config: AppConfig = {
   security: {
     stateExpirationMs: parseInt(getEnvVar('STATE_EXPIRATION_MS', '600000'), 10), // 10 minutes
   },
+  oauth: {
+    tokenMode: getEnumEnvVar(
+      'OAUTH_TOKEN_MODE',
+      OAUTH_TOKEN_MODES,
+      'passthrough'
+    ),
+    // Vercel KV credentials select the shared store by default
+    store: getEnumEnvVar(
+      'OAUTH_STORE',
+      OAUTH_STORES,
+      process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN
+        ? 'redis'
+        : 'memory'
+    ),
+    storePath: getEnvVar(
+      'OAUTH_STORE_PATH',
+      join(tmpdir(), 'docusign-navigator-oauth')
+    ),
+    // Vercel KV exposes its REST endpoint under these names
+    redisUrl: getEnvVar('OAUTH_REDIS_URL', process.env.KV_REST_API_URL || ''),
+    redisToken: getEnvVar(
+      'OAUTH_REDIS_TOKEN',
+      process.env.KV_REST_API_TOKEN || ''
+    ),
+    encryptionKeys: parseEncryptionKeys(),
+    accessTokenTtlMs: parseInt(
+      getEnvVar('OAUTH_ACCESS_TOKEN_TTL_MS', '3600000'),
+      10
+    ), // 1 hour
+    refreshTokenTtlMs: parseInt(
+      getEnvVar('OAUTH_REFRESH_TOKEN_TTL_MS', '2592000000'),
+      10
+    ), // 30 days
+    refreshSkewMs: parseInt(
+      getEnvVar('OAUTH_TOKEN_REFRESH_SKEW_MS', '300000'),
+      10
+    ), // 5 minutes
+    clientTtlMs: parseInt(getEnvVar('OAUTH_CLIENT_TTL_MS', '31536000000'), 10), // 1 year
+    authorizationCodeTtlMs: parseInt(
+      getEnvVar('OAUTH_CODE_TTL_MS', '120000'),
+      10
+    ), // 2 minutes
+  },
+  cache: {
+    userInfoTtlMs: parseInt(getEnvVar('USERINFO_CACHE_TTL_MS', '300000'), 10), // 5 minutes
+    maxEntries: parseInt(getEnvVar('CACHE_MAX_ENTRIES', '1000'), 10),
+  },
+  retry: {
+    maxAttempts: parseInt(getEnvVar('DOCUSIGN_API_MAX_ATTEMPTS', '3'), 10),
+    baseDelayMs: parseInt(getEnvVar('DOCUSIGN_API_RETRY_BASE_MS', '500'), 10),
+    maxDelayMs: parseInt(getEnvVar('DOCUSIGN_API_RETRY_MAX_MS', '10000'), 10),
+    timeoutMs: parseInt(getEnvVar('DOCUSIGN_API_TIMEOUT_MS', '15000'), 10),
+  },
+  documents: {
+    maxBytes: parseInt(getEnvVar('DOCUMENT_MAX_BYTES', '10485760'), 10), // 10 MB
+    maxContentChars: parseInt(
+      getEnvVar('DOCUMENT_MAX_CONTENT_CHARS', '50000'),
+      10
+    ),
+    chunkChars: parseInt(getEnvVar('DOCUMENT_CHUNK_CHARS', '2000'), 10),
+    cacheTtlMs: parseInt(getEnvVar('DOCUMENT_CACHE_TTL_MS', '900000'), 10), // 15 minutes
+    cacheMaxEntries: parseInt(
+      getEnvVar('DOCUMENT_CACHE_MAX_ENTRIES', '100'),
+      10
+    ),
+  },
+  search: {
+    embeddingProvider: getEnumEnvVar(
+      'SEARCH_EMBEDDING_PROVIDER',
+      EMBEDDING_PROVIDERS,
+      'hash'
+    ),
+    embeddingModel: getEnvVar('SEARCH_EMBEDDING_MODEL', ''),
+    embeddingApiKey: getEnvVar('SEARCH_EMBEDDING_API_KEY', ''),
+    embeddingApiUrl: getEnvVar('SEARCH_EMBEDDING_API_URL', ''),
+    hashDimensions: parseInt(getEnvVar('SEARCH_HASH_DIMENSIONS', '512'), 10),
+    semanticWeight: parseFloat(getEnvVar('SEARCH_SEMANTIC_WEIGHT', '0.5')),
+    minSimilarity: parseFloat(getEnvVar('SEARCH_MIN_SIMILARITY', '0.3')),
+    indexTtlMs: parseInt(getEnvVar('SEARCH_INDEX_TTL_MS', '3600000'), 10), // 1 hour
+    indexMaxAccounts: parseInt(
+      getEnvVar('SEARCH_INDEX_MAX_ACCOUNTS', '100'),
+      10
+    ),
+  },
   logging: {
     level: getEnvVar('LOG_LEVEL', 'info'),
   },
@@ -80,6 +382,16 @@ export function validateConfig(): void {
     throw new Error('Docusign Redirect URI is required');
   }
 
+  for (const [name, url] of Object.entries({
+    'Docusign auth server': config.docusign.baseUrl,
+    'Docusign Navigator API URL': config.docusign.navigatorBaseUrl,
+    'Docusign JWKS URI': config.docusign.jwksUri,
+  })) {
+    if (!URL.canParse(url)) {
+      throw new Error(`${name} must be an absolute URL`);
+    }
+  }
+
   // Validate numeric values
   if (isNaN(config.server.port) || config.server.port <= 0) {
     throw new Error('Server port must be a positive number');
@@ -90,4 +402,113 @@ export function validateConfig(): void {
   ) {
     throw new Error('State expiration must be a positive number');
   }
+  if (config.oauth.tokenMode !== 'passthrough') {
+    if (config.oauth.encryptionKeys.length === 0) {
+      throw new Error(
+        `OAUTH_ENCRYPTION_KEYS is required for the ${config.oauth.tokenMode} token mode`
+      );
+    }
+    if (config.oauth.encryptionKeys.some(key => key.length < 32)) {
+      throw new Error('OAuth encryption keys must be at least 32 characters');
+    }
+  }
+  // Vercel runs many short-lived instances that share nothing but Redis;
+  // the MCP endpoint still works, the OAuth endpoints refuse requests
+  if (process.env.VERCEL && config.oauth.store !== 'redis') {
+    logger.warn(
+      'OAuth endpoints are disabled: OAUTH_STORE must be redis on Vercel',
+      { store: config.oauth.store, context: 'config' }
+    );
+  }
+  if (
+    config.oauth.store === 'redis' &&
+    (!config.oauth.redisUrl || !config.oauth.redisToken)
+  ) {
+    throw new Error(
+      'OAUTH_REDIS_URL and OAUTH_REDIS_TOKEN are required for the redis OAuth store'
+    );
+  }
+  for (const [name, value] of Object.entries({
+    'OAuth access token TTL': config.oauth.accessTokenTtlMs,
+    'OAuth refresh token TTL': config.oauth.refreshTokenTtlMs,
+    'OAuth client registration TTL': config.oauth.clientTtlMs,
+    'OAuth authorization code TTL': config.oauth.authorizationCodeTtlMs,
+  })) {
+    if (isNaN(value) || value <= 0) {
+      throw new Error(`${name} must be a positive number`);
+    }
+  }
+  if (isNaN(config.oauth.refreshSkewMs) || config.oauth.refreshSkewMs < 0) {
+    throw new Error('OAuth token refresh skew must be a non-negative number');
+  }
+  if (isNaN(config.cache.userInfoTtlMs) || config.cache.userInfoTtlMs < 0) {
+    throw new Error('Userinfo cache TTL must be a non-negative number');
+  }
+  if (isNaN(config.cache.maxEntries) || config.cache.maxEntries <= 0) {
+    throw new Error('Cache max entries must be a positive number');
+  }
+  if (isNaN(config.retry.maxAttempts) || config.retry.maxAttempts <= 0) {
+    throw new Error('API max attempts must be a positive number');
+  }
+  if (isNaN(config.retry.timeoutMs) || config.retry.timeoutMs <= 0) {
+    throw new Error('API timeout must be a positive number');
+  }
+  if (isNaN(config.documents.maxBytes) || config.documents.maxBytes <= 0) {
+    throw new Error('Document size limit must be a positive number');
+  }
+  if (
+    isNaN(config.documents.maxContentChars) ||
+    config.documents.maxContentChars <= 0
+  ) {
+    throw new Error('Document content limit must be a positive number');
+  }
+  if (isNaN(config.documents.chunkChars) || config.documents.chunkChars <= 0) {
+    throw new Error('Document chunk size must be a positive number');
+  }
+  if (isNaN(config.documents.cacheTtlMs) || config.documents.cacheTtlMs < 0) {
+    throw new Error('Document cache TTL must be a non-negative number');
+  }
+  if (
+    isNaN(config.documents.cacheMaxEntries) ||
+    config.documents.cacheMaxEntries <= 0
+  ) {
+    throw new Error('Document cache max entries must be a positive number');
+  }
+  if (
+    config.search.embeddingProvider !== 'hash' &&
+    !config.search.embeddingApiKey
+  ) {
+    throw new Error(
+      `SEARCH_EMBEDDING_API_KEY is required for the ${config.search.embeddingProvider} embedding provider`
+    );
+  }
+  if (
+    isNaN(config.search.hashDimensions) ||
+    config.search.hashDimensions <= 0
+  ) {
+    throw new Error('Hash embedding dimensions must be a positive number');
+  }
+  if (
+    isNaN(config.search.semanticWeight) ||
+    config.search.semanticWeight < 0 ||
+    config.search.semanticWeight > 1
+  ) {
+    throw new Error('Semantic search weight must be between 0 and 1');
+  }
+  if (isNaN(config.search.minSimilarity)) {
+    throw new Error('Semantic search minimum similarity must be a number');
+  }
+  if (isNaN(config.search.indexTtlMs) || config.search.indexTtlMs < 0) {
+    throw new Error('Semantic index TTL must be a non-negative number');
+  }
+  if (
+    isNaN(config.search.indexMaxAccounts) ||
+    config.search.indexMaxAccounts <= 0
+  ) {
+    throw new Error('Semantic index max accounts must be a positive number');
+  }
 }
+
+// Every entry point imports the config, so a bad deployment fails at startup
+// instead of on the first request that needs the setting
+validateConfig();
@@ -19,10 +19,15 @@ export function createOptionsResponse(request: Request): Response {
   });
 }
 
-export function createJsonResponse(data: unknown, request: Request): Response {
+export function createJsonResponse(
+  data: unknown,
+  request: Request,
+  status = 200
+): Response {
   const corsHeaders = createCorsHeaders(request);
 
   return new Response(JSON.stringify(data), {
+    status,
     headers: {
       'Content-Type': 'application/json',
       ...corsHeaders,
@@ -0,0 +1,158 @@
+/**
+ * Document Chunking
+ * Splits extracted pages into page-referenced chunks and renders them
+ * within a character budget, marking where content was truncated
+ */
+
+import type { ExtractedPage } from './extract.js';
+
+export interface DocumentChunk {
+  index: number;
+  pageNumber: number;
+  text: string;
+}
+
+export interface RenderedDocumentText {
+  text: string;
+  characters: number;
+  totalCharacters: number;
+  truncated: boolean;
+  // First page not included when truncated, for continuation
+  nextPage?: number;
+}
+
+/**
+ * Splits text at the last paragraph, line or sentence boundary before the
+ * limit, falling back to the last space and then a hard cut
+ */
+function splitPoint(text: string, limit: number): number {
+  const window = text.slice(0, limit);
+  const minimum = Math.floor(limit / 2);
+
+  for (const boundary of [
+    /\n\n(?!.*\n\n)/s,
+    /\n(?!.*\n)/s,
+    /[.;:!?]\s(?!.*[.;:!?]\s)/s,
+  ]) {
+    const match = window.match(boundary);
+    if (match?.index !== undefined && match.index >= minimum) {
+      return match.index + match[0].length;
+    }
+  }
+
+  const space = window.lastIndexOf(' ');
+  return space >= minimum ? space + 1 : limit;
+}
+
+/**
+ * Breaks pages into chunks of at most chunkChars characters; chunks never
+ * span pages so every chunk has a single page reference
+ * @param pages - Extracted pages
+ * @param chunkChars - Maximum characters per chunk
+ * @returns Chunks in document order
+ */
+export function chunkPages(
+  pages: ExtractedPage[],
+  chunkChars: number
+): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+
+  for (const page of pages) {
+    let remaining = page.text;
+    while (remaining.length > 0) {
+      const end =
+        remaining.length <= chunkChars
+          ? remaining.length
+          : splitPoint(remaining, chunkChars);
+      const text = remaining.slice(0, end).trim();
+      if (text) {
+        chunks.push({
+          index: chunks.length,
+          pageNumber: page.pageNumber,
+          text,
+        });
+      }
+      remaining = remaining.slice(end);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Renders chunks as text with "[Page N]" headers, stopping before the
+ * character budget is exceeded and appending a truncation marker
+ * @param chunks - Chunks to render
+ * @param maxChars - Character budget for the rendered text
+ * @param startPage - First page to include (for continuation requests)
+ * @returns Rendered text and truncation details
+ */
+export function renderChunks(
+  chunks: DocumentChunk[],
+  maxChars: number,
+  startPage = 1
+): RenderedDocumentText {
+  const selected = chunks.filter(chunk => chunk.pageNumber >= startPage);
+  const totalCharacters = selected.reduce(
+    (sum, chunk) => sum + chunk.text.length,
+    0
+  );
+
+  const parts: string[] = [];
+  let length = 0;
+  let characters = 0;
+  let currentPage: number | undefined;
+  let truncatedAt: DocumentChunk | undefined;
+
+  for (const chunk of selected) {
+    const header =
+      chunk.pageNumber !== currentPage ? `[Page ${chunk.pageNumber}]\n` : '';
+    const piece = `${parts.length > 0 ? '\n\n' : ''}${header}${chunk.text}`;
+
+    if (length + piece.length > maxChars) {
+      // Show the start of an oversized first chunk rather than nothing
+      if (parts.length === 0) {
+        const partial = piece.slice(0, splitPoint(piece, maxChars)).trimEnd();
+        parts.push(partial);
+        characters += partial.length - header.length;
+        currentPage = chunk.pageNumber;
+      }
+      truncatedAt = chunk;
+      break;
+    }
+
+    parts.push(piece);
+    length += piece.length;
+    characters += chunk.text.length;
+    currentPage = chunk.pageNumber;
+  }
+
+  // Continue from the page that was cut off, unless it is the only page shown
+  // (an oversized page) in which case move on to guarantee progress
+  const firstPage = selected[0]?.pageNumber;
+  const nextPage =
+    truncatedAt &&
+    (truncatedAt.pageNumber !== firstPage
+      ? truncatedAt.pageNumber
+      : truncatedAt.pageNumber + 1);
+  const hasNextPage =
+    nextPage !== undefined &&
+    selected.some(chunk => chunk.pageNumber >= nextPage);
+
+  const truncated = truncatedAt !== undefined;
+  if (truncated) {
+    parts.push(
+      `\n\n[... truncated: showing ${characters.toLocaleString()} of ${totalCharacters.toLocaleString()} characters${
+        hasNextPage ? `; continue from page ${nextPage}` : ''
+      } ...]`
+    );
+  }
+
+  return {
+    text: parts.join(''),
+    characters,
+    totalCharacters,
+    truncated,
+    ...(hasNextPage && { nextPage }),
+  };
+}
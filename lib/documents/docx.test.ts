@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'node:zlib';
+import { extractDocxPages } from './docx.js';
+import { readZipEntry, ZipFormatError } from './zip.js';
+
+/**
+ * Builds a ZIP archive with deflated entries (CRCs are not checked)
+ */
+function createZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const size = Buffer.byteLength(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const paragraph = (...runs: string[]) =>
+  `<w:p><w:r>${runs.join('')}</w:r></w:p>`;
+
+const documentXml = (...paragraphs: string[]) =>
+  `<?xml version="1.0"?><w:document><w:body>${paragraphs.join('')}</w:body></w:document>`;
+
+describe('readZipEntry', () => {
+  it('reads a deflated entry by name', () => {
+    const zip = createZip({ 'a.txt': 'alpha', 'b.txt': 'beta' });
+
+    assert.equal(readZipEntry(zip, 'b.txt', 1000)?.toString(), 'beta');
+    assert.equal(readZipEntry(zip, 'missing.txt', 1000), undefined);
+  });
+
+  it('rejects non-ZIP data and oversized entries', () => {
+    assert.throws(
+      () => readZipEntry(Buffer.from('PK'), 'a', 10),
+      ZipFormatError
+    );
+    assert.throws(
+      () => readZipEntry(Buffer.alloc(64), 'a', 10),
+      ZipFormatError
+    );
+    assert.throws(
+      () => readZipEntry(createZip({ 'a.txt': 'x'.repeat(100) }), 'a.txt', 10),
+      ZipFormatError
+    );
+  });
+});
+
+describe('extractDocxPages', () => {
+  it('extracts paragraphs and splits pages at page breaks', () => {
+    const docx = createZip({
+      'word/document.xml': documentXml(
+        paragraph('<w:t>Term &amp; Termination</w:t>'),
+        paragraph(
+          '<w:t xml:space="preserve">Either party </w:t><w:t>may end</w:t>'
+        ),
+        paragraph('<w:br w:type="page"/><w:t>Schedule A</w:t>')
+      ),
+    });
+
+    assert.deepEqual(extractDocxPages(docx, 10_000), [
+      {
+        pageNumber: 1,
+        text: 'Term & Termination\nEither party may end',
+      },
+      { pageNumber: 2, text: 'Schedule A' },
+    ]);
+  });
+
+  it('requires a Word document part', () => {
+    const zip = createZip({ 'xl/workbook.xml': '<workbook/>' });
+    assert.throws(() => extractDocxPages(zip, 10_000), /word\/document\.xml/);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * DOCX Text Extraction
+ * Pulls paragraph text out of word/document.xml. Word documents have no
+ * fixed pages, so page numbers follow explicit and last-rendered page breaks.
+ */
+
+import { readZipEntry } from './zip.js';
+import type { ExtractedPage } from './extract.js';
+
+const DOCUMENT_PART = 'word/document.xml';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decodes the predefined and numeric XML entities
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Extracts text from a DOCX file, one entry per page
+ * @param buffer - DOCX bytes
+ * @param maxBytes - Largest document.xml size accepted
+ * @returns Pages of paragraph text separated by newlines
+ * @throws ZipFormatError if the archive is not a Word document
+ */
+export function extractDocxPages(
+  buffer: Buffer,
+  maxBytes: number
+): ExtractedPage[] {
+  const documentXml = readZipEntry(buffer, DOCUMENT_PART, maxBytes);
+  if (!documentXml) {
+    throw new Error('DOCX file has no word/document.xml part');
+  }
+
+  const pages: string[][] = [[]];
+  const paragraphs = documentXml
+    .toString('utf8')
+    .split(/<\/w:p>/)
+    .map(part => {
+      const start = part.search(/<w:p[\s>]/);
+      return start === -1 ? '' : part.slice(start);
+    });
+
+  for (const paragraph of paragraphs) {
+    let text = '';
+    // Text runs, tabs, line breaks and page breaks in document order
+    const tokens = paragraph.matchAll(
+      /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br(?:\s[^>]*)?\/>|<w:lastRenderedPageBreak\/>/g
+    );
+
+    for (const token of tokens) {
+      const [markup, runText] = token;
+      if (runText !== undefined) {
+        text += decodeXmlEntities(runText);
+      } else if (markup === '<w:tab/>') {
+        text += '\t';
+      } else if (
+        markup.includes('w:type="page"') ||
+        markup === '<w:lastRenderedPageBreak/>'
+      ) {
+        if (text.trim()) {
+          pages[pages.length - 1]!.push(text);
+        }
+        text = '';
+        if (pages[pages.length - 1]!.length > 0) {
+          pages.push([]);
+        }
+      } else {
+        text += '\n';
+      }
+    }
+
+    if (text.trim()) {
+      pages[pages.length - 1]!.push(text);
+    }
+  }
+
+  return pages
+    .filter(lines => lines.length > 0)
+    .map((lines, index) => ({
+      pageNumber: index + 1,
+      text: lines.join('\n'),
+    }));
+}
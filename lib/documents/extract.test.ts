@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectDocumentFormat, extractDocumentPages } from './extract.js';
+
+const DOCX_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const ZIP_BYTES = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+describe('detectDocumentFormat', () => {
+  it('recognizes PDFs by their signature', () => {
+    assert.equal(detectDocumentFormat(Buffer.from('%PDF-1.7\n')), 'pdf');
+    assert.equal(
+      detectDocumentFormat(Buffer.from('%PDF-1.4'), 'application/octet-stream'),
+      'pdf'
+    );
+  });
+
+  it('handles empty and truncated downloads', () => {
+    assert.equal(detectDocumentFormat(Buffer.alloc(0)), null);
+    assert.equal(detectDocumentFormat(Buffer.from('PK'), DOCX_TYPE), null);
+    assert.equal(detectDocumentFormat(Buffer.from('%P'), 'text/plain'), 'text');
+  });
+
+  it('recognizes DOCX by the ZIP signature plus its type or name', () => {
+    assert.equal(detectDocumentFormat(ZIP_BYTES, DOCX_TYPE), 'docx');
+    assert.equal(
+      detectDocumentFormat(ZIP_BYTES, `${DOCX_TYPE}; charset=binary`),
+      'docx'
+    );
+    assert.equal(
+      detectDocumentFormat(ZIP_BYTES, 'application/octet-stream', 'MSA.DOCX'),
+      'docx'
+    );
+  });
+
+  it('rejects other ZIPs and mislabelled downloads', () => {
+    assert.equal(detectDocumentFormat(ZIP_BYTES, 'application/zip'), null);
+    assert.equal(detectDocumentFormat(ZIP_BYTES, null, 'archive.zip'), null);
+    assert.equal(
+      detectDocumentFormat(Buffer.from('not a zip'), DOCX_TYPE, 'MSA.docx'),
+      null
+    );
+  });
+});
+
+describe('extractDocumentPages', () => {
+  it('normalizes whitespace in text documents', async () => {
+    const pages = await extractDocumentPages(
+      Buffer.from('Term  of\tAgreement \r\n\r\n\r\n\r\nRenewal'),
+      'text'
+    );
+
+    assert.deepEqual(pages, [
+      { pageNumber: 1, text: 'Term of Agreement\n\nRenewal' },
+    ]);
+  });
+});
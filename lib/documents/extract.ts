@@ -0,0 +1,114 @@
+/**
+ * Document Text Extraction
+ * Detects the format of a downloaded agreement document and extracts its
+ * plain text page by page
+ */
+
+import { extractText, getDocumentProxy } from 'unpdf';
+import { extractDocxPages } from './docx.js';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+}
+
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
+
+const DOCX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Local file header that opens every ZIP container ("PK\x03\x04")
+const ZIP_SIGNATURE = 0x04034b50;
+
+/**
+ * Identifies a document format from its leading bytes
+ * A ZIP container only counts as DOCX when the download declares the DOCX
+ * content type or a .docx file name, since other ZIPs have no Word text
+ * @param bytes - Document bytes, possibly empty or truncated
+ * @param contentType - Content-Type header from the download, if any
+ * @param fileName - Downloaded or agreement file name, if any
+ * @returns Detected format, or null when unsupported
+ */
+export function detectDocumentFormat(
+  bytes: Buffer,
+  contentType?: string | null,
+  fileName?: string | null
+): DocumentFormat | null {
+  if (bytes.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'pdf';
+  }
+  if (
+    bytes.length >= 4 &&
+    bytes.readUInt32LE(0) === ZIP_SIGNATURE &&
+    (contentType?.split(';')[0]?.trim() === DOCX_CONTENT_TYPE ||
+      /\.docx$/i.test(fileName || ''))
+  ) {
+    return 'docx';
+  }
+  if (contentType?.startsWith('text/')) {
+    return 'text';
+  }
+  return null;
+}
+
+/**
+ * Normalizes extracted text: collapses runs of spaces, trims lines and
+ * drops blank lines beyond a single paragraph gap
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extracts plain text from a PDF, DOCX or text document
+ * @param bytes - Document bytes
+ * @param format - Format from detectDocumentFormat
+ * @param maxBytes - Size limit applied to decompressed DOCX content
+ * @returns Non-empty pages in order with 1-based page numbers
+ * @throws DocumentExtractionError if the document cannot be parsed
+ */
+export async function extractDocumentPages(
+  bytes: Buffer,
+  format: DocumentFormat,
+  maxBytes: number
+): Promise<ExtractedPage[]> {
+  let pages: ExtractedPage[];
+
+  try {
+    if (format === 'pdf') {
+      const pdf = await getDocumentProxy(new Uint8Array(bytes));
+      const { text } = await extractText(pdf, { mergePages: false });
+      pages = text.map((pageText, index) => ({
+        pageNumber: index + 1,
+        text: pageText,
+      }));
+    } else if (format === 'docx') {
+      pages = extractDocxPages(bytes, maxBytes);
+    } else {
+      pages = [{ pageNumber: 1, text: bytes.toString('utf8') }];
+    }
+  } catch (error) {
+    throw new DocumentExtractionError(
+      `Could not extract text from ${format.toUpperCase()} document: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  return pages
+    .map(page => ({ ...page, text: normalizeText(page.text) }))
+    .filter(page => page.text.length > 0);
+}
@@ -0,0 +1,9 @@
+export {
+  detectDocumentFormat,
+  extractDocumentPages,
+  DocumentExtractionError,
+} from './extract.js';
+export type { DocumentFormat, ExtractedPage } from './extract.js';
+export { chunkPages, renderChunks } from './chunker.js';
+export type { DocumentChunk, RenderedDocumentText } from './chunker.js';
+export { readZipEntry, ZipFormatError } from './zip.js';
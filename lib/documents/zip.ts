@@ -0,0 +1,113 @@
+/**
+ * Minimal ZIP Reader
+ * Reads single entries from ZIP containers (DOCX files) using the central
+ * directory; supports stored and deflated entries, not ZIP64 or encryption
+ */
+
+import { inflateRawSync } from 'node:zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// End record is 22 bytes plus an optional comment of up to 65535 bytes
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+/**
+ * Locates the end-of-central-directory record by scanning backwards
+ */
+function findEndRecord(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('Not a ZIP archive');
+}
+
+/**
+ * Reads and decompresses one entry from a ZIP archive
+ * @param buffer - Archive bytes
+ * @param name - Entry path, e.g. "word/document.xml"
+ * @param maxBytes - Largest uncompressed size accepted
+ * @returns Entry contents, or undefined when the entry does not exist
+ * @throws ZipFormatError if the archive is malformed or unsupported
+ */
+export function readZipEntry(
+  buffer: Buffer,
+  name: string,
+  maxBytes: number
+): Buffer | undefined {
+  if (buffer.length < 22) {
+    throw new ZipFormatError('Not a ZIP archive');
+  }
+
+  const endRecord = findEndRecord(buffer);
+  const entryCount = buffer.readUInt16LE(endRecord + 10);
+  let offset = buffer.readUInt32LE(endRecord + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY
+    ) {
+      throw new ZipFormatError('Corrupt ZIP central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const entryName = buffer.toString(
+      'utf8',
+      offset + 46,
+      offset + 46 + nameLength
+    );
+
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) {
+      continue;
+    }
+
+    if (uncompressedSize > maxBytes) {
+      throw new ZipFormatError(`ZIP entry ${name} exceeds the size limit`);
+    }
+    if (
+      localHeaderOffset + 30 > buffer.length ||
+      buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER
+    ) {
+      throw new ZipFormatError('Corrupt ZIP local header');
+    }
+
+    const dataStart =
+      localHeaderOffset +
+      30 +
+      buffer.readUInt16LE(localHeaderOffset + 26) +
+      buffer.readUInt16LE(localHeaderOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      return data;
+    }
+    if (method === METHOD_DEFLATED) {
+      return inflateRawSync(data, { maxOutputLength: maxBytes });
+    }
+    throw new ZipFormatError(`Unsupported ZIP compression method ${method}`);
+  }
+
+  return undefined;
+}
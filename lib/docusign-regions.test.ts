@@ -0,0 +1,57 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from './config.js';
+import { resolveAccountRegion } from './docusign-regions.js';
+import type { DocuSignAccount } from './mcp/types.js';
+
+const { environment, navigatorBaseUrl, regionHosts } = config.docusign;
+
+const account = (base_uri: string): DocuSignAccount => ({
+  account_id: 'account-1',
+  account_name: 'Acme',
+  is_default: true,
+  base_uri,
+});
+
+describe('resolveAccountRegion', () => {
+  afterEach(() => {
+    Object.assign(config.docusign, {
+      environment,
+      navigatorBaseUrl,
+      regionHosts,
+    });
+  });
+
+  it('routes production accounts to their regional Navigator host', () => {
+    config.docusign.environment = 'production';
+    config.docusign.navigatorBaseUrl = 'https://api.docusign.com';
+
+    const eu = resolveAccountRegion(account('https://eu.docusign.net'));
+    assert.equal(eu.region, 'eu');
+    assert.equal(eu.navigatorBaseUrl, 'https://api-eu.docusign.com');
+    assert.equal(eu.eSignatureBaseUrl, 'https://eu.docusign.net/restapi');
+
+    const na = resolveAccountRegion(account('https://na3.docusign.net'));
+    assert.equal(na.region, 'na');
+    assert.equal(na.navigatorBaseUrl, 'https://api.docusign.com');
+  });
+
+  it('keeps demo accounts on the environment host', () => {
+    config.docusign.environment = 'demo';
+    config.docusign.navigatorBaseUrl = 'https://api-d.docusign.com';
+
+    const demo = resolveAccountRegion(account('https://demo.docusign.net'));
+    assert.equal(demo.region, 'demo');
+    assert.equal(demo.navigatorBaseUrl, 'https://api-d.docusign.com');
+  });
+
+  it('prefers DOCUSIGN_REGION_HOSTS overrides', () => {
+    config.docusign.environment = 'production';
+    config.docusign.regionHosts = {
+      eu: { navigatorBaseUrl: 'https://navigator.example.eu' },
+    };
+
+    const eu = resolveAccountRegion(account('https://eu.docusign.net'));
+    assert.equal(eu.navigatorBaseUrl, 'https://navigator.example.eu');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Docusign Regional Routing
+ * Derives the API hosts for an account from the base_uri in userinfo, so
+ * accounts hosted in EU, AU or CA data centers are served by their region
+ */
+
+import { config } from './config.js';
+import type { DocuSignAccount } from './mcp/types.js';
+
+// eSignature REST API path appended to an account's base_uri
+const ESIGNATURE_API_PATH = '/restapi';
+
+// Fallback region when an account has no usable base_uri
+const DEFAULT_REGION = 'na';
+
+// Production Navigator hosts for accounts outside North America; "na" and
+// the demo environment use config.docusign.navigatorBaseUrl
+const NAVIGATOR_REGION_HOSTS: Record<string, string> = {
+  eu: 'https://api-eu.docusign.com',
+  au: 'https://api-au.docusign.com',
+  ca: 'https://api-ca.docusign.com',
+};
+
+export interface AccountRegion {
+  // Region key used for host overrides, e.g. "na", "eu", "au", "demo"
+  region: string;
+  // Account site host from base_uri, e.g. "eu.docusign.net"
+  site?: string;
+  navigatorBaseUrl: string;
+  eSignatureBaseUrl?: string;
+}
+
+/**
+ * Extracts the region from an account base_uri host
+ * The first host label names the site ("na3", "eu", "demo"); numbered
+ * sites share their region, and "www" is the original North America site
+ * @param host - base_uri host name
+ * @returns Lower-case region key
+ */
+function regionFromHost(host: string): string {
+  const site = host.split('.')[0]?.toLowerCase() || '';
+  if (!site || site === 'www') {
+    return DEFAULT_REGION;
+  }
+  return site.replace(/\d+$/, '') || DEFAULT_REGION;
+}
+
+/**
+ * Resolves the region and API hosts for a Docusign account
+ * In production, Navigator uses the regional host for the account's site
+ * (eu, au, ca) and the environment host otherwise; eSignature uses the
+ * account's base_uri. DOCUSIGN_REGION_HOSTS overrides either per region
+ * @param account - Account selected from userinfo
+ * @returns Region details and the hosts API calls should use
+ */
+export function resolveAccountRegion(account: DocuSignAccount): AccountRegion {
+  let site: string | undefined;
+  let accountBaseUrl: string | undefined;
+
+  if (account.base_uri && URL.canParse(account.base_uri)) {
+    const baseUri = new URL(account.base_uri);
+    site = baseUri.host;
+    accountBaseUrl = baseUri.origin;
+  }
+
+  const region = site ? regionFromHost(site) : DEFAULT_REGION;
+  const override = config.docusign.regionHosts[region];
+  const regionalNavigatorBaseUrl =
+    config.docusign.environment === 'production'
+      ? NAVIGATOR_REGION_HOSTS[region]
+      : undefined;
+
+  return {
+    region,
+    site,
+    navigatorBaseUrl:
+      override?.navigatorBaseUrl ||
+      regionalNavigatorBaseUrl ||
+      config.docusign.navigatorBaseUrl,
+    eSignatureBaseUrl:
+      override?.eSignatureBaseUrl ||
+      (accountBaseUrl ? `${accountBaseUrl}${ESIGNATURE_API_PATH}` : undefined),
+  };
+}
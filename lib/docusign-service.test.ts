@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryLRUCache } from './cache.js';
+import { config } from './config.js';
+import {
+  AppError,
+  isDocuSignTokenRevoked,
+  markDocuSignTokenRevoked,
+  OAuthError,
+  RateLimitError,
+  refreshDocuSignToken,
+  setRevokedTokenStore,
+  validateDocuSignToken,
+} from './docusign-service.js';
+
+const respondWith = (response: Response) =>
+  mock.method(globalThis, 'fetch', async () => response);
+
+const json = (body: unknown, status: number, headers = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+describe('Docusign token requests', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('returns the token response', async () => {
+    respondWith(json({ access_token: 'at', token_type: 'Bearer' }, 200));
+    assert.equal((await refreshDocuSignToken('rt')).access_token, 'at');
+  });
+
+  it('reports invalid_grant as a rejected grant', async () => {
+    for (const status of [400, 401]) {
+      respondWith(json({ error: 'invalid_grant' }, status));
+      await assert.rejects(
+        refreshDocuSignToken('rt'),
+        (error: unknown) =>
+          error instanceof OAuthError && error.error === 'invalid_grant'
+      );
+      mock.restoreAll();
+    }
+  });
+
+  it('reports server errors as unavailable, not as a rejected grant', async () => {
+    respondWith(new Response('Bad gateway', { status: 502 }));
+    await assert.rejects(
+      refreshDocuSignToken('rt'),
+      (error: unknown) =>
+        !(error instanceof OAuthError) &&
+        error instanceof AppError &&
+        error.statusCode === 503
+    );
+  });
+
+  it('reports rate limits with the advised wait', async () => {
+    respondWith(json({}, 429, { 'Retry-After': '7' }));
+    await assert.rejects(
+      refreshDocuSignToken('rt'),
+      (error: unknown) =>
+        error instanceof RateLimitError && error.retryAfterSeconds === 7
+    );
+  });
+
+  it('reports other client errors as a server problem', async () => {
+    respondWith(json({ error: 'invalid_client' }, 401));
+    await assert.rejects(
+      refreshDocuSignToken('rt'),
+      (error: unknown) =>
+        !(error instanceof OAuthError) &&
+        error instanceof AppError &&
+        error.statusCode === 502
+    );
+  });
+
+  it('reports network failures as unavailable', async () => {
+    mock.method(globalThis, 'fetch', async () => {
+      throw new TypeError('fetch failed');
+    });
+    await assert.rejects(
+      refreshDocuSignToken('rt'),
+      (error: unknown) => error instanceof AppError && error.statusCode === 503
+    );
+  });
+});
+
+describe('revoked passthrough tokens', () => {
+  const { tokenMode } = config.oauth;
+
+  beforeEach(() => {
+    setRevokedTokenStore(
+      new MemoryLRUCache({ maxEntries: 10, defaultTtlMs: 60_000 })
+    );
+  });
+
+  afterEach(() => {
+    config.oauth.tokenMode = tokenMode;
+    mock.restoreAll();
+  });
+
+  it('refuses revoked tokens without asking Docusign', async () => {
+    config.oauth.tokenMode = 'passthrough';
+    const fetchMock = mock.method(globalThis, 'fetch', async () =>
+      json({}, 200)
+    );
+
+    await markDocuSignTokenRevoked('docusign-access-token');
+
+    assert.equal(await isDocuSignTokenRevoked('docusign-access-token'), true);
+    assert.deepEqual(await validateDocuSignToken('docusign-access-token'), {
+      isValid: false,
+      error: 'Access token has been revoked',
+    });
+    assert.equal(fetchMock.mock.callCount(), 0);
+  });
+
+  it('only applies in passthrough mode', async () => {
+    config.oauth.tokenMode = 'passthrough';
+    await markDocuSignTokenRevoked('docusign-access-token');
+
+    config.oauth.tokenMode = 'opaque';
+    assert.equal(await isDocuSignTokenRevoked('docusign-access-token'), false);
+  });
+});
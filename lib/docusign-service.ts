@@ -4,218 +4,245 @@
 
 import { logger } from './logger.js';
 import { config } from './config.js';
-
-export class AppError extends Error {
-  constructor(
-    message: string,
-    public statusCode: number
-  ) {
-    super(message);
-    this.name = 'AppError';
-  }
-}
+import oauthConfig from './oauth-config.js';
+import { AppError, OAuthError, RateLimitError } from './errors.js';
+import { getRetryAfterMs } from './retry.js';
+import { hashToken, type CacheStore } from './cache.js';
+import { createOAuthStore } from './oauth-store.js';
+import { NavigatorClient } from './navigator-client.js';
+import type { DocuSignUserInfo } from './mcp/types.js';
+import type { OAuthTokenResponse } from './oauth-response-utils.js';
+
+export { AppError, OAuthError, RateLimitError } from './errors.js';
+export {
+  invalidateUserInfo,
+  selectAccount,
+  setUserInfoCache,
+} from './navigator-client.js';
 
 // ==========================================
-// Docusign User Info Utility
+// Docusign Authentication
 // ==========================================
 
 /**
- * Fetches user info and extracts account ID
- * Shared utility to eliminate duplicate user info fetching
+ * Converts a failed Docusign token response into an error
+ * Only an invalid_grant answer means the code or refresh token itself was
+ * rejected; outages and rate limits must not be mistaken for that
  */
-async function fetchUserAccountId(accessToken: string): Promise<string> {
-  const userInfoRes = await fetch(`${config.docusign.baseUrl}/oauth/userinfo`, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!userInfoRes.ok) {
-    const errorText = await userInfoRes.text();
-
-    if (userInfoRes.status === 401) {
-      // Try to parse the error for more details
-      let errorMessage = 'Invalid access token';
-      try {
-        const errorData = JSON.parse(errorText);
-        if (errorData.error === 'internal_server_error') {
-          errorMessage =
-            'Access token has expired or is invalid. Please re-authenticate with Docusign.';
-        } else if (errorData.error) {
-          errorMessage = `Authentication failed: ${errorData.error}`;
-        }
-      } catch {
-        // Use default message if parsing fails
-      }
-      throw new AppError(errorMessage, 401);
-    }
-
-    throw new AppError(
-      'Failed to retrieve user information',
-      userInfoRes.status
+async function toTokenRequestError(
+  res: Response,
+  context: string
+): Promise<AppError> {
+  const errorText = await res.text().catch(() => '');
+  logger.error(
+    'Docusign token request failed',
+    { message: errorText || 'Unknown error' },
+    { status: res.status, context }
+  );
+
+  if (res.status === 429) {
+    const retryAfterMs = getRetryAfterMs(res);
+    return new RateLimitError(
+      retryAfterMs !== null ? Math.ceil(retryAfterMs / 1000) : null
     );
   }
-
-  const userInfo = await userInfoRes.json();
-
-  if (
-    !userInfo.accounts ||
-    !Array.isArray(userInfo.accounts) ||
-    userInfo.accounts.length === 0
-  ) {
-    throw new AppError('No Docusign accounts found for user', 404);
+  if (res.status >= 500) {
+    return new AppError('Authentication service unavailable', 503);
   }
 
-  return userInfo.accounts[0].account_id;
+  let error: unknown;
+  try {
+    ({ error } = JSON.parse(errorText) as { error?: unknown });
+  } catch {
+    // Not an OAuth error body
+  }
+  if ((res.status === 400 || res.status === 401) && error === 'invalid_grant') {
+    return new OAuthError(
+      'invalid_grant',
+      'Docusign rejected the authorization grant'
+    );
+  }
+  // Anything else (e.g. invalid_client) is a problem with this server's setup
+  return new AppError('Docusign token request failed', 502);
 }
 
-// ==========================================
-// Generic Docusign API Request Wrapper
-// ==========================================
-
 /**
- * Generic wrapper for Docusign Navigator API requests
- * Consolidates common patterns and error handling
+ * Posts a grant to the Docusign token endpoint
+ * @param tokenParams - Grant parameters
+ * @param context - Logging context
+ * @returns Docusign token response
+ * @throws OAuthError invalid_grant if Docusign rejects the grant,
+ * RateLimitError if rate limited, AppError 503 if Docusign is unavailable
+ * or 502 for any other failure
  */
-async function makeDocuSignAPIRequest(
-  url: string,
-  accessToken: string,
-  apiName: string,
-  additionalContext?: Record<string, unknown>
-): Promise<any> {
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      Accept: 'application/json',
-    },
-  });
+async function requestDocuSignToken(
+  tokenParams: Record<string, string>,
+  context: string
+): Promise<OAuthTokenResponse> {
+  const { auth_server } = oauthConfig.oauth_integration;
+  const url = `${auth_server.base_url}${auth_server.token_endpoint}`;
+  const auth = Buffer.from(
+    `${config.docusign.clientId}:${config.docusign.clientSecret}`
+  ).toString('base64');
 
-  if (!response.ok) {
-    // Try to get the response body for more details
-    let errorDetails = '';
-    try {
-      const errorBody = await response.text();
-      errorDetails = errorBody;
-    } catch {
-      // Ignore error reading response body
-    }
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${auth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(tokenParams),
+    });
 
-    // Log meaningful API errors for debugging
-    if (response.status >= 500) {
-      logger.error(
-        'Docusign Navigator API error',
-        {
-          message: errorDetails || 'Unknown server error',
-        },
-        {
-          status: response.status,
-          api: apiName,
-          ...additionalContext,
-        }
-      );
+    if (!res.ok) {
+      throw await toTokenRequestError(res, context);
     }
 
-    // Handle common error cases
-    if (response.status === 401) {
-      throw new AppError('Invalid access token', 401);
-    }
-    if (response.status === 403) {
-      throw new AppError(
-        'Access denied - Docusign Navigator may not be enabled for this account. To get access, please visit: https://developers.docusign.com/docs/navigator-api/',
-        403
-      );
-    }
-    if (response.status === 404) {
-      // Check if this is a Navigator API not found error vs resource not found
-      if (
-        errorDetails.includes('Navigator') ||
-        errorDetails.includes('not available')
-      ) {
-        throw new AppError(
-          'Docusign Navigator API not found - may not be available for this account. To get access, please visit: https://developers.docusign.com/docs/navigator-api/',
-          404
-        );
-      } else {
-        throw new AppError(
-          apiName === 'agreement_by_id'
-            ? 'Agreement not found'
-            : 'Resource not found',
-          404
-        );
-      }
+    return res.json();
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
     }
-
-    throw new AppError(
-      `Failed to retrieve ${apiName} (${response.status}): ${errorDetails}`,
-      response.status
-    );
+    logger.error('Token request failed', error as Error, { context });
+    throw new AppError('Authentication service unavailable', 503);
   }
-
-  return response.json();
 }
 
-// ==========================================
-// Docusign Authentication
-// ==========================================
-
 export async function exchangeCodeForToken(
   code: string,
   codeVerifier?: string,
   redirectUri?: string
-) {
+): Promise<OAuthTokenResponse> {
   if (!code || typeof code !== 'string') {
     throw new AppError('Invalid authorization code', 400);
   }
 
-  const url = `${config.docusign.baseUrl}/oauth/token`;
+  // Build token request parameters
+  const tokenParams: Record<string, string> = {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri || config.docusign.redirectUri,
+  };
+
+  // Add PKCE code_verifier if provided (required for desktop OAuth)
+  if (codeVerifier) {
+    tokenParams.code_verifier = codeVerifier;
+  }
+
+  return requestDocuSignToken(tokenParams, 'oauth_token_exchange');
+}
+
+/**
+ * Exchanges a Docusign refresh token for a new access token
+ * @param refreshToken - Docusign refresh token
+ * @returns Docusign token response (may include a rotated refresh token)
+ * @throws OAuthError invalid_grant if the refresh token was rejected, or an
+ * AppError if Docusign could not be reached or rate limited the request
+ */
+export async function refreshDocuSignToken(
+  refreshToken: string
+): Promise<OAuthTokenResponse> {
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    throw new AppError('Invalid refresh token', 400);
+  }
+
+  return requestDocuSignToken(
+    { grant_type: 'refresh_token', refresh_token: refreshToken },
+    'oauth_token_refresh'
+  );
+}
+
+// Docusign refresh tokens live 30 days, longer than any access token, so a
+// revoked passthrough token is remembered until it would have expired anyway
+const REVOKED_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+let revokedTokenStore: CacheStore<true> | undefined;
+
+function getRevokedTokenStore(): CacheStore<true> {
+  return (revokedTokenStore ??= createOAuthStore(
+    'revoked-tokens',
+    REVOKED_TOKEN_TTL_MS
+  ));
+}
+
+/**
+ * Replaces the revoked passthrough token store (e.g. with a custom adapter)
+ * @param store - Cache store implementation
+ */
+export function setRevokedTokenStore(store: CacheStore<true>): void {
+  revokedTokenStore = store;
+}
+
+/**
+ * Stops this server from accepting a passthrough Docusign token
+ * Docusign may not offer revocation, so the token is refused here whether or
+ * not revokeDocuSignToken succeeds
+ * @param token - Docusign access or refresh token
+ */
+export async function markDocuSignTokenRevoked(token: string): Promise<void> {
+  await getRevokedTokenStore().set(hashToken(token), true);
+}
+
+/**
+ * Checks whether a passthrough Docusign token was revoked through /revoke
+ * @param token - Docusign access or refresh token
+ * @returns True if the token must be refused
+ */
+export async function isDocuSignTokenRevoked(token: string): Promise<boolean> {
+  if (config.oauth.tokenMode !== 'passthrough') {
+    return false;
+  }
+  return (await getRevokedTokenStore().get(hashToken(token))) === true;
+}
+
+/**
+ * Asks Docusign to revoke a token (RFC 7009) when a revocation endpoint is
+ * configured; failures are logged rather than thrown because the token is
+ * already unusable through this server
+ * @param token - Docusign access or refresh token
+ * @param tokenTypeHint - "access_token" or "refresh_token"
+ * @returns Whether Docusign accepted the revocation
+ */
+export async function revokeDocuSignToken(
+  token: string,
+  tokenTypeHint?: 'access_token' | 'refresh_token'
+): Promise<boolean> {
+  const { revocation_uri } = oauthConfig.oauth_integration.auth_server;
+  if (!revocation_uri || !token) {
+    return false;
+  }
+
   const auth = Buffer.from(
     `${config.docusign.clientId}:${config.docusign.clientSecret}`
   ).toString('base64');
+  const params: Record<string, string> = { token };
+  if (tokenTypeHint) {
+    params.token_type_hint = tokenTypeHint;
+  }
 
   try {
-    // Build token request parameters
-    const tokenParams: Record<string, string> = {
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: redirectUri || config.docusign.redirectUri,
-    };
-
-    // Add PKCE code_verifier if provided (required for desktop OAuth)
-    if (codeVerifier) {
-      tokenParams.code_verifier = codeVerifier;
-    }
-
-    const res = await fetch(url, {
+    const res = await fetch(revocation_uri, {
       method: 'POST',
       headers: {
         Authorization: `Basic ${auth}`,
         'Content-Type': 'application/x-www-form-urlencoded',
       },
-      body: new URLSearchParams(tokenParams),
+      body: new URLSearchParams(params),
     });
-
     if (!res.ok) {
-      const errorText = await res.text();
-      logger.error(
-        'Docusign token exchange failed',
-        {
-          message: errorText || 'Unknown error',
-        },
-        {
-          status: res.status,
-          context: 'oauth_token_exchange',
-        }
-      );
-      throw new AppError('Authentication failed', 401);
+      logger.warn('Docusign token revocation failed', {
+        status: res.status,
+        context: 'oauth_revocation',
+      });
     }
-
-    return res.json();
+    return res.ok;
   } catch (error) {
-    if (error instanceof AppError) {
-      throw error;
-    }
-    logger.error('Token exchange failed', error as Error, {
-      context: 'oauth_token_exchange',
+    logger.warn('Docusign token revocation failed', {
+      error: (error as Error).message,
+      context: 'oauth_revocation',
     });
-    throw new AppError('Authentication service unavailable', 503);
+    return false;
   }
 }
 
@@ -225,119 +252,41 @@ export async function exchangeCodeForToken(
 
 export async function validateDocuSignToken(accessToken: string): Promise<{
   isValid: boolean;
-  userInfo?: any;
+  userInfo?: DocuSignUserInfo;
   error?: string;
 }> {
   if (!accessToken || typeof accessToken !== 'string') {
     return { isValid: false, error: 'Invalid access token' };
   }
+  if (await isDocuSignTokenRevoked(accessToken)) {
+    return { isValid: false, error: 'Access token has been revoked' };
+  }
 
   try {
-    const userInfoRes = await fetch(
-      `${config.docusign.baseUrl}/oauth/userinfo`,
-      {
-        headers: { Authorization: `Bearer ${accessToken}` },
-      }
-    );
-
-    if (!userInfoRes.ok) {
-      const errorText = await userInfoRes.text();
-
-      // Only log meaningful authentication failures
-      if (userInfoRes.status === 401) {
-        logger.warn('Docusign token expired or invalid', {
-          status: userInfoRes.status,
-          context: 'token_validation',
-        });
-        return {
-          isValid: false,
-          error: 'Access token has expired or is invalid',
-        };
-      }
-
-      logger.error(
-        'Docusign userinfo request failed',
-        {
-          message: errorText || 'Unknown error',
-        },
-        {
-          status: userInfoRes.status,
-          context: 'token_validation',
-        }
-      );
+    const userInfo = await new NavigatorClient(accessToken).getUserInfo();
+    return { isValid: true, userInfo };
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 401) {
+      logger.warn('Docusign token expired or invalid', {
+        status: error.statusCode,
+        context: 'token_validation',
+      });
+      return {
+        isValid: false,
+        error: 'Access token has expired or is invalid',
+      };
+    }
 
+    if (error instanceof AppError) {
       return {
         isValid: false,
         error: 'Failed to validate token with Docusign',
       };
     }
 
-    const userInfo = await userInfoRes.json();
-    return { isValid: true, userInfo };
-  } catch (error) {
     logger.error('Token validation failed', error as Error, {
       context: 'docusign_auth',
     });
     return { isValid: false, error: 'Docusign service unavailable' };
   }
 }
-
-// ==========================================
-// Docusign Navigator API Client
-// ==========================================
-
-export async function fetchAgreements(accessToken: string) {
-  if (!accessToken || typeof accessToken !== 'string') {
-    throw new AppError('Invalid access token', 401);
-  }
-
-  try {
-    const accountId = await fetchUserAccountId(accessToken);
-
-    // Fetch agreements from Navigator API - uses different base URL than eSignature API
-    const url = `https://api-d.docusign.com/v1/accounts/${accountId}/agreements`;
-
-    return await makeDocuSignAPIRequest(url, accessToken, 'agreements');
-  } catch (error) {
-    if (error instanceof AppError) {
-      throw error;
-    }
-    logger.error('Agreements fetch failed', error as Error, {
-      api: 'agreements',
-    });
-    throw new AppError('Docusign Navigator service unavailable', 503);
-  }
-}
-
-export async function fetchAgreementById(
-  accessToken: string,
-  agreementId: string
-) {
-  if (!accessToken || typeof accessToken !== 'string') {
-    throw new AppError('Invalid access token', 401);
-  }
-
-  if (!agreementId || typeof agreementId !== 'string') {
-    throw new AppError('Invalid agreement ID', 400);
-  }
-
-  try {
-    const accountId = await fetchUserAccountId(accessToken);
-
-    // Fetch specific agreement from Navigator API - uses different base URL than eSignature API
-    const url = `https://api-d.docusign.com/v1/accounts/${accountId}/agreements/${agreementId}`;
-
-    return await makeDocuSignAPIRequest(url, accessToken, 'agreement_by_id', {
-      agreementId,
-    });
-  } catch (error) {
-    if (error instanceof AppError) {
-      throw error;
-    }
-    logger.error('Agreement fetch failed', error as Error, {
-      api: 'agreement_by_id',
-      agreementId,
-    });
-    throw new AppError('Docusign Navigator service unavailable', 503);
-  }
-}
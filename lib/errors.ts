@@ -0,0 +1,46 @@
+/**
+ * Application Errors
+ * Error types carrying HTTP status codes for Docusign service and OAuth
+ * failures
+ */
+
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+/**
+ * Raised when Docusign rate limits a request beyond what retries absorb
+ */
+export class RateLimitError extends AppError {
+  constructor(public retryAfterSeconds: number | null) {
+    super(
+      retryAfterSeconds !== null
+        ? `Docusign rate limit reached. Retry in ${retryAfterSeconds} second${
+            retryAfterSeconds !== 1 ? 's' : ''
+          }.`
+        : 'Docusign rate limit reached. Please retry shortly.',
+      429
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * OAuth protocol failure carrying an RFC 6749 error code
+ */
+export class OAuthError extends AppError {
+  constructor(
+    public error: string,
+    message: string,
+    statusCode = 400
+  ) {
+    super(message, statusCode);
+    this.name = 'OAuthError';
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keyring } from './keyring.js';
+import { AppError } from './errors.js';
+
+const SECRET_A = 'a'.repeat(32);
+const SECRET_B = 'b'.repeat(32);
+
+describe('Keyring', () => {
+  it('round-trips encrypted text', () => {
+    const keyring = new Keyring('test', [SECRET_A]);
+    const sealed = keyring.encrypt('hello world');
+
+    assert.notEqual(sealed, 'hello world');
+    assert.equal(sealed.split('.').length, 3);
+    assert.equal(keyring.decrypt(sealed), 'hello world');
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    const keyring = new Keyring('test', [SECRET_A]);
+    assert.notEqual(keyring.encrypt('same'), keyring.encrypt('same'));
+  });
+
+  it('rejects altered ciphertext', () => {
+    const keyring = new Keyring('test', [SECRET_A]);
+    const [keyId, iv, ciphertext] = keyring.encrypt('hello').split('.');
+    const flipped = (ciphertext![0] === 'A' ? 'B' : 'A') + ciphertext!.slice(1);
+
+    assert.equal(keyring.decrypt(`${keyId}.${iv}.${flipped}`), null);
+    assert.equal(keyring.decrypt('not-sealed'), null);
+  });
+
+  it('decrypts with older secrets after rotation', () => {
+    const sealed = new Keyring('test', [SECRET_A]).encrypt('hello');
+    const rotated = new Keyring('test', [SECRET_B, SECRET_A]);
+
+    assert.equal(rotated.decrypt(sealed), 'hello');
+    assert.notEqual(rotated.keyId, new Keyring('test', [SECRET_A]).keyId);
+  });
+
+  it('rejects data from a retired secret', () => {
+    const sealed = new Keyring('test', [SECRET_A]).encrypt('hello');
+    assert.equal(new Keyring('test', [SECRET_B]).decrypt(sealed), null);
+  });
+
+  it('derives separate keys per purpose', () => {
+    const sealed = new Keyring('session', [SECRET_A]).encrypt('hello');
+    assert.equal(new Keyring('state', [SECRET_A]).decrypt(sealed), null);
+  });
+
+  it('signs and verifies data', () => {
+    const keyring = new Keyring('test', [SECRET_A]);
+    const signature = keyring.sign('payload');
+
+    assert.equal(keyring.verify('payload', signature, keyring.keyId), true);
+    assert.equal(keyring.verify('payload!', signature, keyring.keyId), false);
+    assert.equal(keyring.verify('payload', signature, 'unknown'), false);
+  });
+
+  it('verifies signatures from rotated secrets', () => {
+    const old = new Keyring('test', [SECRET_A]);
+    const signature = old.sign('payload');
+    const rotated = new Keyring('test', [SECRET_B, SECRET_A]);
+
+    assert.equal(rotated.verify('payload', signature, old.keyId), true);
+  });
+
+  it('requires at least one secret', () => {
+    assert.throws(
+      () => new Keyring('test', []),
+      (error: unknown) => error instanceof AppError && error.statusCode === 500
+    );
+  });
+});
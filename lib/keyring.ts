@@ -0,0 +1,168 @@
+/**
+ * Secret Keyring
+ * Encrypts and signs OAuth data with keys derived from OAUTH_ENCRYPTION_KEYS.
+ * New data always uses the first secret; the others still decrypt and verify
+ * existing data, so secrets can be rotated by prepending a new one.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto';
+import { config } from './config.js';
+import { AppError } from './errors.js';
+
+interface DerivedKey {
+  id: string;
+  encryptionKey: Buffer;
+  signingKey: Buffer;
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Derives a purpose-specific 256-bit key so one secret never keys two
+ * different algorithms or features
+ */
+function deriveKey(secret: string, info: string): Buffer {
+  return Buffer.from(
+    hkdfSync('sha256', secret, 'docusign-navigator-mcp', info, 32)
+  );
+}
+
+/**
+ * Secrets for data that only lives through the authorization round-trip
+ * (state, authorization codes): OAUTH_ENCRYPTION_KEYS when configured,
+ * otherwise the Docusign client secret so the flow works without extra setup
+ * @returns Secrets, newest first
+ */
+export function getAuthorizationSecrets(): string[] {
+  return config.oauth.encryptionKeys.length > 0
+    ? config.oauth.encryptionKeys
+    : [config.docusign.clientSecret];
+}
+
+export class Keyring {
+  private keys: DerivedKey[];
+
+  /**
+   * @param purpose - Feature the keys are used for, e.g. "session"
+   * @param secrets - Secrets, newest first
+   * @throws AppError 500 if no secret is configured
+   */
+  constructor(purpose: string, secrets = config.oauth.encryptionKeys) {
+    if (secrets.length === 0) {
+      throw new AppError('OAUTH_ENCRYPTION_KEYS is not configured', 500);
+    }
+    this.keys = secrets.map(secret => ({
+      // Short public identifier so the right key is picked without trial
+      id: createHash('sha256').update(secret).digest('base64url').slice(0, 8),
+      encryptionKey: deriveKey(secret, `${purpose}:encryption`),
+      signingKey: deriveKey(secret, `${purpose}:signing`),
+    }));
+  }
+
+  private get current(): DerivedKey {
+    return this.keys[0]!;
+  }
+
+  private find(id: string): DerivedKey | undefined {
+    return this.keys.find(key => key.id === id);
+  }
+
+  /**
+   * Encrypts and authenticates text with AES-256-GCM
+   * @param plaintext - Text to protect
+   * @returns "keyId.iv.ciphertext" with base64url parts
+   */
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      this.current.encryptionKey,
+      iv
+    );
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+    return [
+      this.current.id,
+      iv.toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join('.');
+  }
+
+  /**
+   * Decrypts text produced by encrypt with any key in the ring
+   * @param sealed - Encrypted text
+   * @returns Plaintext, or null if the key is unknown or the data was altered
+   */
+  decrypt(sealed: string): string | null {
+    const [keyId, iv, ciphertext] = sealed.split('.');
+    const key = keyId ? this.find(keyId) : undefined;
+    if (!key || !iv || !ciphertext) {
+      return null;
+    }
+
+    try {
+      const data = Buffer.from(ciphertext, 'base64url');
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        key.encryptionKey,
+        Buffer.from(iv, 'base64url')
+      );
+      decipher.setAuthTag(data.subarray(data.length - TAG_BYTES));
+      return Buffer.concat([
+        decipher.update(data.subarray(0, data.length - TAG_BYTES)),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ID of the key used for new signatures, e.g. for a JWT "kid" header
+   */
+  get keyId(): string {
+    return this.current.id;
+  }
+
+  /**
+   * Signs data with HMAC-SHA256 using the current key
+   * @param data - Data to sign
+   * @returns base64url signature
+   */
+  sign(data: string): string {
+    return createHmac('sha256', this.current.signingKey)
+      .update(data)
+      .digest('base64url');
+  }
+
+  /**
+   * Verifies an HMAC-SHA256 signature in constant time
+   * @param data - Signed data
+   * @param signature - base64url signature
+   * @param keyId - ID of the key that produced the signature
+   * @returns Whether the signature is valid for a key in the ring
+   */
+  verify(data: string, signature: string, keyId: string): boolean {
+    const key = this.find(keyId);
+    if (!key) {
+      return false;
+    }
+    const expected = createHmac('sha256', key.signingKey).update(data).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+}
@@ -68,3 +68,5 @@ export const logger = {
     );
   },
 };
+
+export type Logger = typeof logger;
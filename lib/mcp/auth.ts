@@ -1,5 +1,10 @@
 import { validateDocuSignToken } from '../docusign-service.js';
 import { logger } from '../logger.js';
+import {
+  isSessionTokenMode,
+  resolveOAuthAccessToken,
+  type ResolvedAccessToken,
+} from '../oauth-sessions.js';
 import type { AuthInfo } from './types.js';
 
 // Token validation with Docusign - validates tokens proactively
@@ -11,8 +16,23 @@ export const createTokenVerifier =
     }
 
     try {
+      // Server-minted tokens stand in for Docusign credentials held in the
+      // session store; tools always receive the Docusign token
+      let docusignToken = bearerToken;
+      let resolved: ResolvedAccessToken | undefined;
+      if (isSessionTokenMode()) {
+        resolved = await resolveOAuthAccessToken(bearerToken);
+        if (!resolved) {
+          logger.warn('Unknown or expired session token', {
+            context: 'mcp_auth',
+          });
+          return undefined; // This will trigger 401 response
+        }
+        docusignToken = resolved.docusignAccessToken;
+      }
+
       // Validate token with Docusign before processing requests
-      const validation = await validateDocuSignToken(bearerToken);
+      const validation = await validateDocuSignToken(docusignToken);
 
       if (!validation.isValid) {
         logger.warn('Token validation failed', {
@@ -22,6 +42,21 @@ export const createTokenVerifier =
         return undefined; // This will trigger 401 response
       }
 
+      if (resolved) {
+        const { session, token } = resolved;
+        return {
+          token: docusignToken,
+          scopes: session.scope.split(' '),
+          clientId: session.clientId,
+          expiresAt: Math.floor(token.expiresAt / 1000),
+          extra: {
+            userInfo: validation.userInfo,
+            sessionId: session.id,
+            validatedAt: new Date().toISOString(),
+          },
+        };
+      }
+
       return {
         token: bearerToken,
         scopes: ['signature'], // Default scope
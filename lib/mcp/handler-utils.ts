@@ -5,6 +5,8 @@
  */
 
 import { logger } from '../logger.js';
+import { NavigatorClient } from '../navigator-client.js';
+import { renderView, type OutputFormat } from '../agreement-formatter.js';
 import type {
   MCPToolResponse,
   ToolContext,
@@ -40,6 +42,7 @@ export function createMCPErrorResponse(
   };
 
   return {
+    isError: true,
     content: [
       {
         type: 'text',
@@ -54,6 +57,37 @@ export function createMCPErrorResponse(
   };
 }
 
+/**
+ * Creates a tool response rendering a formatted model in the requested format
+ * @param view - Registered renderer view (see registerRenderers)
+ * @param model - Formatted model to render
+ * @param format - Output format requested by the caller
+ * @param annotation - Structured data to include in annotation
+ * @param structuredContent - Result matching the tool's outputSchema
+ * @returns MCPToolResponse with the rendered text
+ */
+export function createFormattedResponse<T>(
+  view: string,
+  model: T,
+  format: OutputFormat = 'text',
+  annotation?: Record<string, unknown>,
+  structuredContent?: Record<string, unknown>
+): MCPToolResponse {
+  return {
+    ...(structuredContent && { structuredContent }),
+    content: [
+      {
+        type: 'text',
+        text: renderView(view, model, format),
+        annotation: {
+          outputFormat: format,
+          ...annotation,
+        },
+      },
+    ],
+  };
+}
+
 /**
  * Extracts and validates access token from MCP tool context
  * @param context - MCP tool context
@@ -92,6 +126,20 @@ export function extractAccessToken(
   return token;
 }
 
+/**
+ * Creates a Navigator client for the access token in an MCP tool context
+ * @param context - MCP tool context
+ * @param toolName - Name of the tool requesting the client (for logging)
+ * @returns NavigatorClient bound to the caller's token
+ * @throws Error if token is missing or invalid
+ */
+export function createNavigatorClient(
+  context: ToolContext,
+  toolName?: string
+): NavigatorClient {
+  return new NavigatorClient(extractAccessToken(context, toolName));
+}
+
 /**
  * Logs MCP tool usage with consistent format
  * @param toolName - Name of the tool being used
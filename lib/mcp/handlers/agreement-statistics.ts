@@ -0,0 +1,146 @@
+import {
+  createNavigatorClient,
+  createFormattedResponse,
+  createMCPErrorResponse,
+  logToolUsage,
+} from '../handler-utils.js';
+import {
+  computeAgreementStatistics,
+  UNKNOWN_CURRENCY,
+  type AgreementStatistics,
+  type StatisticsDimension,
+  type DimensionBreakdown,
+} from '../../agreement-statistics.js';
+import {
+  registerRenderers,
+  renderMarkdownTable,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
+import { formatAmount } from '../../agreement-value.js';
+import type { ToolHandler, MCPToolResponse, ToolContext } from '../types.js';
+
+interface AgreementStatisticsInput {
+  groupBy?: StatisticsDimension[];
+  accountId?: string;
+  format?: OutputFormat;
+}
+
+const DEFAULT_DIMENSIONS: StatisticsDimension[] = ['type', 'status'];
+
+const DIMENSION_LABELS: Record<StatisticsDimension, string> = {
+  type: 'Type',
+  category: 'Category',
+  status: 'Status',
+  party: 'Party',
+  created_month: 'Created Month',
+};
+
+/**
+ * Formats per-currency totals, e.g. "USD 10,000.00; EUR 2,500.00"
+ */
+function formatTotals(totals: Record<string, number>): string {
+  const entries = Object.entries(totals);
+  if (entries.length === 0) return '-';
+
+  return entries
+    .map(([currency, amount]) =>
+      currency === UNKNOWN_CURRENCY
+        ? `${formatAmount(amount, null)} (no currency)`
+        : formatAmount(amount, currency)
+    )
+    .join('; ');
+}
+
+/**
+ * Describes a breakdown, noting that party groups overlap
+ */
+function describeBreakdown(breakdown: DimensionBreakdown): string {
+  return `By ${DIMENSION_LABELS[breakdown.dimension]}${
+    breakdown.dimension === 'party'
+      ? ' (agreements with several parties count once per party)'
+      : ''
+  }`;
+}
+
+/**
+ * Renders a dimension breakdown as a markdown table
+ */
+function formatBreakdownTable(breakdown: DimensionBreakdown): string {
+  return renderMarkdownTable(
+    [DIMENSION_LABELS[breakdown.dimension], 'Agreements', 'Total Value'],
+    breakdown.groups.map(group => [
+      group.key,
+      String(group.count),
+      formatTotals(group.valueTotals),
+    ]),
+    ['left', 'right', 'right']
+  );
+}
+
+registerRenderers<AgreementStatistics>('agreement_statistics', {
+  text: statistics =>
+    [
+      `Docusign Navigator Portfolio Statistics`,
+      '',
+      `Total Agreements: ${statistics.totalAgreements}`,
+      `Agreements With A Value: ${statistics.valuedAgreements}`,
+      `Total Value: ${formatTotals(statistics.valueTotals)}`,
+      ...statistics.breakdowns.flatMap(breakdown => [
+        '',
+        `${describeBreakdown(breakdown)}:`,
+        '',
+        formatBreakdownTable(breakdown),
+      ]),
+    ].join('\n'),
+  markdown: statistics =>
+    [
+      '## Docusign Navigator Portfolio Statistics',
+      '',
+      `- **Total Agreements:** ${statistics.totalAgreements}`,
+      `- **Agreements With A Value:** ${statistics.valuedAgreements}`,
+      `- **Total Value:** ${formatTotals(statistics.valueTotals)}`,
+      ...statistics.breakdowns.flatMap(breakdown => [
+        '',
+        `### ${describeBreakdown(breakdown)}`,
+        '',
+        formatBreakdownTable(breakdown),
+      ]),
+    ].join('\n'),
+});
+
+export const agreementStatisticsHandler: ToolHandler<
+  AgreementStatisticsInput
+> = async (
+  { groupBy, accountId, format }: AgreementStatisticsInput,
+  context: ToolContext
+): Promise<MCPToolResponse> => {
+  // Log tool usage with standardized format
+  logToolUsage('agreement_statistics', { groupBy, accountId, format }, context);
+
+  try {
+    const client = createNavigatorClient(context, 'agreement_statistics');
+
+    const dimensions = [
+      ...new Set(groupBy && groupBy.length > 0 ? groupBy : DEFAULT_DIMENSIONS),
+    ];
+
+    const agreementsData = await client.listAllAgreements({
+      accountId,
+    });
+    const statistics = computeAgreementStatistics(
+      agreementsData.data || [],
+      dimensions
+    );
+
+    return createFormattedResponse('agreement_statistics', statistics, format, {
+      statistics,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createMCPErrorResponse(
+      'fetch_failed',
+      `Failed to compute agreement statistics: ${errorMessage}`,
+      'agreement_statistics'
+    );
+  }
+};
@@ -1,22 +1,77 @@
-import { validateDocuSignToken } from '../../docusign-service.js';
+import {
+  selectAccount,
+  validateDocuSignToken,
+} from '../../docusign-service.js';
+import {
+  resolveAccountRegion,
+  type AccountRegion,
+} from '../../docusign-regions.js';
 import {
   extractAccessToken,
+  createFormattedResponse,
   createMCPErrorResponse,
   logToolUsage,
 } from '../handler-utils.js';
-import type {
-  ToolHandler,
-  MCPToolResponse,
-  ToolContext,
-  DocuSignAccount,
-} from '../types.js';
+import {
+  registerRenderers,
+  renderMarkdownTable,
+  type FormattedField,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
+import type { ToolHandler, MCPToolResponse, ToolContext } from '../types.js';
+
+interface AuthStatusInput {
+  format?: OutputFormat;
+}
+
+interface AuthStatus {
+  status: 'VALID';
+  user: string;
+  email: string;
+  defaultAccount: string;
+  accountId: string | null;
+  region: AccountRegion | null;
+}
+
+/**
+ * Lists the status facts shared by the text and markdown views
+ */
+function statusFields(status: AuthStatus): FormattedField[] {
+  const { region } = status;
+  return [
+    { label: 'User', value: status.user },
+    { label: 'Email', value: status.email },
+    { label: 'Default Account', value: status.defaultAccount },
+    { label: 'Account ID', value: status.accountId || 'Unknown' },
+    {
+      label: 'Region',
+      value: region
+        ? `${region.region.toUpperCase()}${region.site ? ` (${region.site})` : ''}`
+        : 'Unknown',
+    },
+    { label: 'Navigator API', value: region?.navigatorBaseUrl || 'Unknown' },
+    { label: 'eSignature API', value: region?.eSignatureBaseUrl || 'Unknown' },
+  ];
+}
 
-export const authStatusHandler: ToolHandler = async (
-  input: Record<string, unknown>,
+registerRenderers<AuthStatus>('auth_status', {
+  text: status =>
+    `Authentication Status: ${status.status}\n\n${statusFields(status)
+      .map(field => `${field.label}: ${field.value}`)
+      .join('\n')}`,
+  markdown: status =>
+    `**Authentication Status: ${status.status}**\n\n${renderMarkdownTable(
+      ['Field', 'Value'],
+      statusFields(status).map(field => [field.label, field.value])
+    )}`,
+});
+
+export const authStatusHandler: ToolHandler<AuthStatusInput> = async (
+  input: AuthStatusInput,
   context: ToolContext
 ): Promise<MCPToolResponse> => {
   // Log tool usage with standardized format
-  logToolUsage('auth_status', input, context);
+  logToolUsage('auth_status', { ...input }, context);
 
   try {
     const accessToken = extractAccessToken(context, 'auth_status');
@@ -34,25 +89,26 @@ export const authStatusHandler: ToolHandler = async (
 
     // Build simple authentication status
     const user = validationResult.userInfo;
-    const defaultAccount = user?.accounts?.find(
-      (acc: DocuSignAccount) => acc.is_default
-    );
-
-    const statusText = `Authentication Status: VALID
+    const defaultAccount = user?.accounts?.length
+      ? selectAccount(user)
+      : undefined;
+    const region = defaultAccount
+      ? resolveAccountRegion(defaultAccount)
+      : undefined;
 
-User: ${user?.name || 'Unknown'}
-Email: ${user?.email || 'Unknown'}
-Default Account: ${defaultAccount?.account_name || 'Unknown'}
-Account ID: ${defaultAccount?.account_id || 'Unknown'}`;
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: statusText,
-        },
-      ],
+    const status: AuthStatus = {
+      status: 'VALID',
+      user: user?.name || 'Unknown',
+      email: user?.email || 'Unknown',
+      defaultAccount: defaultAccount?.account_name || 'Unknown',
+      accountId: defaultAccount?.account_id || null,
+      region: region || null,
     };
+
+    return createFormattedResponse('auth_status', status, input.format, {
+      accountId: status.accountId,
+      region: status.region,
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     return createMCPErrorResponse(
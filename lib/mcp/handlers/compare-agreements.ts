@@ -0,0 +1,241 @@
+import {
+  createNavigatorClient,
+  createFormattedResponse,
+  createMCPErrorResponse,
+  logToolUsage,
+} from '../handler-utils.js';
+import {
+  formatAgreementDetails,
+  markdownTableCell,
+  registerRenderers,
+  type FormattedAgreementDetails,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
+import type {
+  ToolHandler,
+  MCPToolResponse,
+  ToolContext,
+  Agreement,
+} from '../types.js';
+
+interface CompareAgreementsInput {
+  agreementIds: string[];
+  accountId?: string;
+  format?: OutputFormat;
+}
+
+interface ComparedField {
+  field: string;
+  label: string;
+  values: Record<string, string>;
+  differs: boolean;
+}
+
+interface FailedAgreement {
+  id: string;
+  error: string;
+}
+
+interface AgreementComparison {
+  // Agreements that were retrieved and compared
+  agreementIds: string[];
+  fields: ComparedField[];
+  differingFields: string[];
+  agreements: FormattedAgreementDetails[];
+  failed: FailedAgreement[];
+}
+
+// Fields compared across agreements, in display order
+const COMPARISON_FIELDS: Array<{
+  field: string;
+  label: string;
+  value: (details: FormattedAgreementDetails) => string;
+}> = [
+  { field: 'type', label: 'Type', value: d => d.type },
+  { field: 'category', label: 'Category', value: d => d.category },
+  { field: 'status', label: 'Status', value: d => d.status },
+  {
+    field: 'parties',
+    label: 'Parties',
+    value: d =>
+      d.parties.length > 0
+        ? d.parties
+            .map(p => p.displayName)
+            .sort()
+            .join(', ')
+        : 'No parties specified',
+  },
+  {
+    field: 'effectiveDate',
+    label: 'Effective Date',
+    value: d => d.provisions.effectiveDate,
+  },
+  {
+    field: 'expirationDate',
+    label: 'Expiration Date',
+    value: d => d.provisions.expirationDate,
+  },
+  {
+    field: 'totalValue',
+    label: 'Total Value',
+    value: d => d.provisions.totalValue,
+  },
+];
+
+/**
+ * Renders the comparison as a markdown table, bolding differing rows
+ */
+function formatComparisonTable({
+  agreementIds: ids,
+  agreements,
+  fields,
+}: AgreementComparison): string {
+  const header = `| Field | ${agreements
+    .map((a, index) => markdownTableCell(`${a.title} (${ids[index]})`))
+    .join(' | ')} | Same? |`;
+  const divider = `| --- | ${agreements.map(() => '---').join(' | ')} | --- |`;
+
+  const rows = fields.map(field => {
+    const label = field.differs ? `**${field.label}**` : field.label;
+    const values = ids.map(id => {
+      const value = markdownTableCell(field.values[id] || '');
+      return field.differs ? `**${value}**` : value;
+    });
+    return `| ${label} | ${values.join(' | ')} | ${
+      field.differs ? 'No' : 'Yes'
+    } |`;
+  });
+
+  return [header, divider, ...rows].join('\n');
+}
+
+/**
+ * Lists the labels of the fields that differ, or says there are none
+ */
+function describeDifferences(comparison: AgreementComparison): string {
+  const labels = comparison.fields.filter(f => f.differs).map(f => f.label);
+  return labels.length > 0
+    ? `Differences: ${labels.join(', ')}`
+    : 'No differences found in the compared fields.';
+}
+
+/**
+ * Names the agreements left out of the comparison, if any
+ */
+function describeFailures({ failed }: AgreementComparison): string {
+  return failed.length > 0
+    ? `\n\nCould not retrieve: ${failed
+        .map(failure => `${failure.id} (${failure.error})`)
+        .join('; ')}`
+    : '';
+}
+
+registerRenderers<AgreementComparison>('agreement_comparison', {
+  text: comparison => `Comparison of ${comparison.agreements.length} Docusign Navigator agreements:
+
+${formatComparisonTable(comparison)}
+
+${describeDifferences(comparison)}${describeFailures(comparison)}`,
+  markdown:
+    comparison => `## Comparison of ${comparison.agreements.length} Docusign Navigator agreements
+
+${formatComparisonTable(comparison)}
+
+**${describeDifferences(comparison)}**${describeFailures(comparison)}`,
+});
+
+export const compareAgreementsHandler: ToolHandler<
+  CompareAgreementsInput
+> = async (
+  { agreementIds, accountId, format }: CompareAgreementsInput,
+  context: ToolContext
+): Promise<MCPToolResponse> => {
+  // Log tool usage with standardized format
+  logToolUsage(
+    'compare_agreements',
+    { agreementIds, accountId, format },
+    context
+  );
+
+  const uniqueIds = [...new Set(agreementIds)];
+  if (uniqueIds.length < 2) {
+    return createMCPErrorResponse(
+      'invalid_input',
+      'Provide at least two different agreement IDs to compare',
+      'compare_agreements',
+      { agreementIds }
+    );
+  }
+
+  try {
+    const client = createNavigatorClient(context, 'compare_agreements');
+
+    // Fetch all agreements in parallel; one that fails is reported while
+    // the rest are still compared
+    const results = await Promise.allSettled(
+      uniqueIds.map(id => client.getAgreement(id, accountId))
+    );
+    const retrieved: Array<{ id: string; agreement: Agreement }> = [];
+    const failed: FailedAgreement[] = [];
+    results.forEach((result, index) => {
+      const id = uniqueIds[index]!;
+      if (result.status === 'fulfilled') {
+        retrieved.push({ id, agreement: result.value });
+      } else {
+        failed.push({
+          id,
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+        });
+      }
+    });
+    if (retrieved.length < 2) {
+      return createMCPErrorResponse(
+        'fetch_failed',
+        `Failed to retrieve enough agreements to compare: ${failed
+          .map(failure => `${failure.id}: ${failure.error}`)
+          .join('; ')}`,
+        'compare_agreements',
+        { agreementIds: uniqueIds, failed }
+      );
+    }
+
+    const comparedIds = retrieved.map(({ id }) => id);
+    const agreements = retrieved.map(({ agreement }) =>
+      formatAgreementDetails(agreement)
+    );
+
+    const fields: ComparedField[] = COMPARISON_FIELDS.map(definition => {
+      const values = Object.fromEntries(
+        agreements.map((a, index) => [comparedIds[index], definition.value(a)])
+      );
+      return {
+        field: definition.field,
+        label: definition.label,
+        values,
+        differs: new Set(Object.values(values)).size > 1,
+      };
+    });
+    const comparison: AgreementComparison = {
+      agreementIds: comparedIds,
+      fields,
+      differingFields: fields.filter(f => f.differs).map(f => f.field),
+      agreements,
+      failed,
+    };
+
+    return createFormattedResponse('agreement_comparison', comparison, format, {
+      ...comparison,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createMCPErrorResponse(
+      'fetch_failed',
+      `Failed to compare agreements: ${errorMessage}`,
+      'compare_agreements',
+      { agreementIds: uniqueIds }
+    );
+  }
+};
@@ -1,9 +1,14 @@
-import { fetchAgreementById } from '../../docusign-service.js';
-import { extractAccessToken, logToolUsage } from '../handler-utils.js';
+import { createNavigatorClient, logToolUsage } from '../handler-utils.js';
 import {
   createFetchResponse,
   wrapInMCPFormat,
 } from '../../chatgpt-formatter.js';
+import {
+  getAgreementDocumentText,
+  renderAgreementDocumentText,
+} from '../../agreement-document.js';
+import type { OutputFormat } from '../../agreement-formatter.js';
+import type { RenderedDocumentText } from '../../documents/index.js';
 import type {
   ToolHandler,
   MCPToolResponse,
@@ -13,23 +18,46 @@ import type {
 
 interface FetchInput {
   id: string;
+  accountId?: string;
+  includeDocument?: boolean;
+  format?: OutputFormat;
 }
 
 export const fetchHandler: ToolHandler<FetchInput> = async (
-  { id }: FetchInput,
+  { id, accountId, includeDocument, format }: FetchInput,
   context: ToolContext
 ): Promise<MCPToolResponse> => {
   // Log tool usage with standardized format
-  logToolUsage('fetch', { id }, context);
+  logToolUsage('fetch', { id, accountId, includeDocument, format }, context);
 
   try {
-    const accessToken = extractAccessToken(context, 'fetch');
+    const client = createNavigatorClient(context, 'fetch');
+
+    const agreement: Agreement = await client.getAgreement(id, accountId);
 
-    // Use the existing fetchAgreementById service function
-    const agreement: Agreement = await fetchAgreementById(accessToken, id);
+    // Document text is best effort: metadata is still returned without it
+    let documentText: RenderedDocumentText | undefined;
+    if (includeDocument) {
+      try {
+        const document = await getAgreementDocumentText(
+          client,
+          agreement,
+          accountId
+        );
+        documentText = renderAgreementDocumentText(document);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        documentText = {
+          text: `[Document text unavailable: ${reason}]`,
+          characters: 0,
+          totalCharacters: 0,
+          truncated: false,
+        };
+      }
+    }
 
     // Create ChatGPT-compatible response using standardized formatter
-    const chatgptResponse = createFetchResponse(agreement);
+    const chatgptResponse = createFetchResponse(agreement, documentText);
 
     // Add additional metadata for the fetch response
     const enhancedResponse = {
@@ -46,10 +74,14 @@ export const fetchHandler: ToolHandler<FetchInput> = async (
       },
     };
 
-    return wrapInMCPFormat(enhancedResponse, {
-      agreement_id: id,
-      title: enhancedResponse.title,
-    });
+    return wrapInMCPFormat(
+      enhancedResponse,
+      {
+        agreement_id: id,
+        title: enhancedResponse.title,
+      },
+      { view: 'fetch_result', format }
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -67,9 +99,13 @@ export const fetchHandler: ToolHandler<FetchInput> = async (
       },
     };
 
-    return wrapInMCPFormat(errorResponse, {
-      agreement_id: id,
-      error: true,
-    });
+    return wrapInMCPFormat(
+      errorResponse,
+      {
+        agreement_id: id,
+        error: true,
+      },
+      { view: 'fetch_result', format }
+    );
   }
 };
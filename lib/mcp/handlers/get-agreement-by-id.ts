@@ -1,10 +1,13 @@
-import { fetchAgreementById } from '../../docusign-service.js';
 import {
-  extractAccessToken,
+  createNavigatorClient,
+  createFormattedResponse,
   createMCPErrorResponse,
   logToolUsage,
 } from '../handler-utils.js';
-import { formatAgreementDetails } from '../../agreement-formatter.js';
+import {
+  formatAgreementDetails,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
 import type {
   ToolHandler,
   MCPToolResponse,
@@ -14,75 +17,42 @@ import type {
 
 interface GetAgreementByIdInput {
   agreementId: string;
+  accountId?: string;
+  format?: OutputFormat;
 }
 
 export const getAgreementByIdHandler: ToolHandler<
   GetAgreementByIdInput
 > = async (
-  { agreementId }: GetAgreementByIdInput,
+  { agreementId, accountId, format }: GetAgreementByIdInput,
   context: ToolContext
 ): Promise<MCPToolResponse> => {
   // Log tool usage with standardized format
-  logToolUsage('get_agreement_by_id', { agreementId }, context);
+  logToolUsage(
+    'get_agreement_by_id',
+    { agreementId, accountId, format },
+    context
+  );
 
   try {
-    const accessToken = extractAccessToken(context, 'get_agreement_by_id');
+    const client = createNavigatorClient(context, 'get_agreement_by_id');
 
-    // Use the existing fetchAgreementById service function
-    const agreementData = await fetchAgreementById(accessToken, agreementId);
+    const agreementData = await client.getAgreement(agreementId, accountId);
 
     // Format the response using the standardized formatter
     const agreement: Agreement = agreementData;
     const formatted = formatAgreementDetails(agreement);
 
-    const displayText = `Docusign Navigator Agreement Details:
-
-Title: ${formatted.title}
-ID: ${formatted.id}
-Type: ${formatted.type}
-Category: ${formatted.category}
-Status: ${formatted.status}
-File: ${formatted.fileName}
-Parties: ${formatted.parties.map(p => p.displayName).join(', ')}${
-      formatted.provisions.hasEffectiveDate
-        ? `
-Effective Date: ${new Date(formatted.provisions.effectiveDate).toLocaleDateString()}`
-        : ''
-    }${
-      formatted.provisions.hasExpirationDate
-        ? `
-Expiration Date: ${new Date(formatted.provisions.expirationDate).toLocaleDateString()}`
-        : ''
-    }${
-      formatted.provisions.hasTotalValue
-        ? `
-Total Value: ${formatted.provisions.totalValue}`
-        : ''
-    }${
-      formatted.summary !== 'No summary available'
-        ? `
-Summary: ${formatted.summary}`
-        : ''
-    }${
-      formatted.metadata.hasCreatedAt
-        ? `
-Created: ${new Date(formatted.metadata.createdAt).toLocaleString()}`
-        : ''
-    }`;
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: displayText,
-          annotation: {
-            agreement: agreement,
-            agreementId: agreementId,
-            rawData: agreementData,
-          },
-        },
-      ],
-    };
+    return createFormattedResponse(
+      'agreement_details',
+      formatted,
+      format,
+      {
+        agreement: agreement,
+        agreementId: agreementId,
+      },
+      { agreement }
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     return createMCPErrorResponse(
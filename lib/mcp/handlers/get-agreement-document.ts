@@ -0,0 +1,125 @@
+import {
+  createNavigatorClient,
+  createFormattedResponse,
+  createMCPErrorResponse,
+  logToolUsage,
+} from '../handler-utils.js';
+import {
+  registerRenderers,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
+import type { DocumentFormat } from '../../documents/index.js';
+import {
+  getAgreementDocumentText,
+  renderAgreementDocumentText,
+} from '../../agreement-document.js';
+import type { ToolHandler, MCPToolResponse, ToolContext } from '../types.js';
+
+interface GetAgreementDocumentInput {
+  agreementId: string;
+  accountId?: string;
+  startPage?: number;
+  maxCharacters?: number;
+  format?: OutputFormat;
+}
+
+interface AgreementDocumentView {
+  agreementId: string;
+  title: string;
+  documentFormat: DocumentFormat;
+  pageCount: number;
+  startPage: number;
+  characters: number;
+  totalCharacters: number;
+  truncated: boolean;
+  nextPage: number | null;
+  text: string;
+}
+
+/**
+ * Describes the document, e.g. "Format: PDF | Pages: 12"
+ */
+function describeDocument(view: AgreementDocumentView): string {
+  return `Format: ${view.documentFormat.toUpperCase()} | Pages: ${view.pageCount}${
+    view.startPage > 1 ? ` | Starting at page ${view.startPage}` : ''
+  }`;
+}
+
+registerRenderers<AgreementDocumentView>('agreement_document', {
+  text: view => `Document text for "${view.title}" (${view.agreementId})
+${describeDocument(view)}
+
+${view.text}`,
+  markdown:
+    view => `## Document text for "${view.title}" (\`${view.agreementId}\`)
+
+_${describeDocument(view)}_
+
+${view.text}`,
+});
+
+export const getAgreementDocumentHandler: ToolHandler<
+  GetAgreementDocumentInput
+> = async (
+  input: GetAgreementDocumentInput,
+  context: ToolContext
+): Promise<MCPToolResponse> => {
+  // Log tool usage with standardized format
+  logToolUsage('get_agreement_document', { ...input }, context);
+
+  const {
+    agreementId,
+    accountId,
+    startPage = 1,
+    maxCharacters,
+    format,
+  } = input;
+
+  try {
+    const client = createNavigatorClient(context, 'get_agreement_document');
+
+    const agreement = await client.getAgreement(agreementId, accountId);
+    const document = await getAgreementDocumentText(
+      client,
+      agreement,
+      accountId
+    );
+    const rendered = renderAgreementDocumentText(
+      document,
+      maxCharacters,
+      startPage
+    );
+
+    const view: AgreementDocumentView = {
+      agreementId: agreement.id,
+      title: agreement.title || agreement.file_name || 'Untitled Agreement',
+      documentFormat: document.format,
+      pageCount: document.pageCount,
+      startPage,
+      characters: rendered.characters,
+      totalCharacters: rendered.totalCharacters,
+      truncated: rendered.truncated,
+      nextPage: rendered.nextPage ?? null,
+      text: rendered.text,
+    };
+
+    return createFormattedResponse('agreement_document', view, format, {
+      agreementId: agreement.id,
+      format: document.format,
+      pageCount: document.pageCount,
+      chunkCount: document.chunks.length,
+      characters: rendered.characters,
+      totalCharacters: rendered.totalCharacters,
+      truncated: rendered.truncated,
+      nextPage: rendered.nextPage ?? null,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createMCPErrorResponse(
+      'fetch_failed',
+      `Failed to retrieve agreement document: ${errorMessage}`,
+      'get_agreement_document',
+      { agreementId }
+    );
+  }
+};
@@ -1,98 +1,56 @@
-import { fetchAgreements } from '../../docusign-service.js';
 import {
-  extractAccessToken,
+  createNavigatorClient,
+  createFormattedResponse,
   createMCPErrorResponse,
   logToolUsage,
 } from '../handler-utils.js';
-import { formatAgreementSummary } from '../../agreement-formatter.js';
+import {
+  formatAgreementList,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
 import type {
   ToolHandler,
   MCPToolResponse,
   ToolContext,
-  Agreement,
+  AgreementListOptions,
 } from '../types.js';
 
-export const getAgreementsHandler: ToolHandler = async (
-  input: Record<string, unknown>,
+type GetAgreementsInput = AgreementListOptions & { format?: OutputFormat };
+
+export const getAgreementsHandler: ToolHandler<GetAgreementsInput> = async (
+  input: GetAgreementsInput,
   context: ToolContext
 ): Promise<MCPToolResponse> => {
   // Log tool usage with standardized format
-  logToolUsage('get_agreements', input, context);
+  logToolUsage('get_agreements', { ...input }, context);
+
+  const { format, ...listOptions } = input;
 
   try {
-    const accessToken = extractAccessToken(context, 'get_agreements');
+    const client = createNavigatorClient(context, 'get_agreements');
 
-    // Use the existing fetchAgreements service function
-    const agreementsData = await fetchAgreements(accessToken);
+    // Fetch a single page of agreements matching the requested filters
+    const agreementsData = await client.listAgreements(listOptions);
     const agreements = agreementsData.data || [];
+    const nextCursor = agreementsData.response_metadata?.page_token_next;
 
     // Format the response using the standardized formatter
-    const displayText = `Found ${agreements.length} Docusign Navigator agreement${
-      agreements.length !== 1 ? 's' : ''
-    }${
-      agreements.length > 0
-        ? '\n\nAgreement Details:\n\n' +
-          agreements
-            .map((agreement: Agreement, index: number) => {
-              const formatted = formatAgreementSummary(agreement);
-              const lines = [
-                `${index + 1}. ${formatted.title}`,
-                `   ID: ${formatted.id}`,
-                `   Type: ${formatted.type}`,
-                `   Category: ${agreement.category || 'Unknown'}`,
-                `   Status: ${formatted.status}`,
-                `   File: ${agreement.file_name || 'Unknown'}`,
-                `   Parties: ${formatted.parties}`,
-              ];
-
-              // Add optional fields if they exist
-              if (formatted.effectiveDate) {
-                lines.push(
-                  `   Effective Date: ${new Date(formatted.effectiveDate).toLocaleDateString()}`
-                );
-              }
-              if (formatted.expirationDate) {
-                lines.push(
-                  `   Expiration Date: ${new Date(formatted.expirationDate).toLocaleDateString()}`
-                );
-              }
-              if (agreement.provisions?.total_agreement_value) {
-                lines.push(
-                  `   Total Value: ${agreement.provisions.total_agreement_value}`
-                );
-              }
-              if (agreement.summary) {
-                const summary =
-                  agreement.summary.length > 100
-                    ? agreement.summary.substring(0, 100) + '...'
-                    : agreement.summary;
-                lines.push(`   Summary: ${summary}`);
-              }
-              if (agreement.metadata?.created_at) {
-                lines.push(
-                  `   Created: ${new Date(agreement.metadata.created_at).toLocaleString()}`
-                );
-              }
+    const list = formatAgreementList(agreements, nextCursor);
 
-              return lines.join('\n');
-            })
-            .join('\n\n')
-        : ''
-    }`;
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: displayText,
-          annotation: {
-            count: agreements.length,
-            agreements: agreements,
-            rawData: agreementsData,
-          },
-        },
-      ],
+    const result = {
+      count: list.count,
+      hasMore: list.hasMore,
+      nextCursor: list.nextCursor,
+      agreements: agreements,
     };
+
+    return createFormattedResponse(
+      'agreement_list',
+      list,
+      format,
+      result,
+      result
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     return createMCPErrorResponse(
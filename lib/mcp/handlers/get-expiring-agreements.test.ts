@@ -0,0 +1,28 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getExpiringAgreementsHandler } from './get-expiring-agreements.js';
+
+describe('getExpiringAgreementsHandler', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('rejects a window that ended before today', async () => {
+    mock.method(console, 'log', () => {});
+    const fetchMock = mock.method(globalThis, 'fetch', async () => {
+      throw new Error('unexpected request');
+    });
+
+    const response = await getExpiringAgreementsHandler(
+      { startDate: '2020-01-01', endDate: '2020-03-31' },
+      {}
+    );
+
+    assert.equal(response.isError, true);
+    assert.match(
+      response.content[0]!.text,
+      /endDate must be today or later; set includeExpired/
+    );
+    assert.equal(fetchMock.mock.callCount(), 0);
+  });
+});
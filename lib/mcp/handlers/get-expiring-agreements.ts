@@ -0,0 +1,302 @@
+import {
+  createNavigatorClient,
+  createFormattedResponse,
+  createMCPErrorResponse,
+  logToolUsage,
+} from '../handler-utils.js';
+import {
+  formatAgreementSummary,
+  registerRenderers,
+  renderMarkdownTable,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
+import type {
+  ToolHandler,
+  MCPToolResponse,
+  ToolContext,
+  Agreement,
+} from '../types.js';
+
+interface GetExpiringAgreementsInput {
+  days?: number;
+  startDate?: string;
+  endDate?: string;
+  includeExpired?: boolean;
+  accountId?: string;
+  format?: OutputFormat;
+}
+
+interface ExpiringAgreement {
+  id: string;
+  title: string;
+  type: string;
+  status: string;
+  parties: string;
+  expirationDate: string;
+  daysRemaining: number;
+}
+
+interface ExpirationMonth {
+  month: string;
+  label: string;
+  agreements: ExpiringAgreement[];
+}
+
+interface ExpiringAgreementsReport {
+  window: { from: string | null; to: string; includeExpired: boolean };
+  count: number;
+  months: ExpirationMonth[];
+}
+
+const DEFAULT_WINDOW_DAYS = 90;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalizes a date string to YYYY-MM-DD (UTC), or null if unparseable
+ */
+function toDateOnly(value: string): string | null {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Adds whole days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+/**
+ * Formats a YYYY-MM month key as e.g. "March 2026"
+ */
+function formatMonthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Describes days remaining relative to today
+ */
+function describeDaysRemaining(daysRemaining: number): string {
+  if (daysRemaining === 0) return 'expires today';
+  if (daysRemaining < 0) {
+    const daysAgo = -daysRemaining;
+    return `expired ${daysAgo} day${daysAgo !== 1 ? 's' : ''} ago`;
+  }
+  return `${daysRemaining} day${daysRemaining !== 1 ? 's' : ''} remaining`;
+}
+
+/**
+ * Groups expiring agreements by expiration month, preserving sort order
+ */
+function groupByMonth(agreements: ExpiringAgreement[]): ExpirationMonth[] {
+  const groups = new Map<string, ExpiringAgreement[]>();
+  for (const agreement of agreements) {
+    const month = agreement.expirationDate.slice(0, 7);
+    groups.set(month, [...(groups.get(month) || []), agreement]);
+  }
+
+  return [...groups.entries()].map(([month, monthAgreements]) => ({
+    month,
+    label: formatMonthLabel(month),
+    agreements: monthAgreements,
+  }));
+}
+
+/**
+ * Describes the report heading, e.g. "Found 2 agreements expiring between ..."
+ */
+function describeReport(report: ExpiringAgreementsReport): string {
+  const { window } = report;
+  const windowDescription = window.from
+    ? `between ${window.from} and ${window.to}`
+    : `on or before ${window.to}`;
+
+  return `Found ${report.count} agreement${
+    report.count !== 1 ? 's' : ''
+  } expiring ${windowDescription}${
+    window.includeExpired ? ' (including already expired)' : ''
+  }`;
+}
+
+registerRenderers<ExpiringAgreementsReport>('expiring_agreements', {
+  text: report =>
+    `${describeReport(report)}${
+      report.months.length > 0
+        ? '\n\n' +
+          report.months
+            .map(month =>
+              [
+                `${month.label} (${month.agreements.length})`,
+                ...month.agreements.map(
+                  agreement =>
+                    `  - ${agreement.title} (ID: ${agreement.id})\n` +
+                    `    Expires: ${agreement.expirationDate} - ${describeDaysRemaining(agreement.daysRemaining)}\n` +
+                    `    Type: ${agreement.type} | Status: ${agreement.status} | Parties: ${agreement.parties}`
+                ),
+              ].join('\n')
+            )
+            .join('\n\n')
+        : ''
+    }`,
+  markdown: report =>
+    [
+      `**${describeReport(report)}**`,
+      ...report.months.map(
+        month =>
+          `### ${month.label} (${month.agreements.length})\n\n${renderMarkdownTable(
+            [
+              'Agreement',
+              'ID',
+              'Expires',
+              'Remaining',
+              'Type',
+              'Status',
+              'Parties',
+            ],
+            month.agreements.map(agreement => [
+              agreement.title,
+              `\`${agreement.id}\``,
+              agreement.expirationDate,
+              describeDaysRemaining(agreement.daysRemaining),
+              agreement.type,
+              agreement.status,
+              agreement.parties,
+            ])
+          )}`
+      ),
+    ].join('\n\n'),
+});
+
+export const getExpiringAgreementsHandler: ToolHandler<
+  GetExpiringAgreementsInput
+> = async (
+  input: GetExpiringAgreementsInput,
+  context: ToolContext
+): Promise<MCPToolResponse> => {
+  // Log tool usage with standardized format
+  logToolUsage('get_expiring_agreements', { ...input }, context);
+
+  const {
+    days,
+    startDate,
+    endDate,
+    includeExpired = false,
+    accountId,
+    format,
+  } = input;
+
+  // Resolve the expiration window
+  if (days !== undefined && (startDate || endDate)) {
+    return createMCPErrorResponse(
+      'invalid_input',
+      'Provide either days or a startDate/endDate range, not both',
+      'get_expiring_agreements'
+    );
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const windowStart = startDate ? toDateOnly(startDate) : today;
+  const windowEnd = endDate
+    ? toDateOnly(endDate)
+    : addDays(windowStart || today, days ?? DEFAULT_WINDOW_DAYS);
+
+  if (!windowStart || !windowEnd) {
+    return createMCPErrorResponse(
+      'invalid_input',
+      'startDate and endDate must be valid dates in YYYY-MM-DD format',
+      'get_expiring_agreements'
+    );
+  }
+  if (windowStart > windowEnd) {
+    return createMCPErrorResponse(
+      'invalid_input',
+      'startDate must be on or before endDate',
+      'get_expiring_agreements'
+    );
+  }
+  if (!includeExpired && windowEnd < today) {
+    return createMCPErrorResponse(
+      'invalid_input',
+      'endDate must be today or later; set includeExpired to list agreements that have already expired',
+      'get_expiring_agreements'
+    );
+  }
+
+  // Already-expired agreements are only included when asked for
+  const from = includeExpired
+    ? startDate
+      ? windowStart
+      : undefined
+    : windowStart > today
+      ? windowStart
+      : today;
+
+  try {
+    const client = createNavigatorClient(context, 'get_expiring_agreements');
+
+    const agreementsData = await client.listAllAgreements({
+      accountId,
+      expirationDateFrom: from,
+      expirationDateTo: windowEnd,
+    });
+
+    // Re-apply the window locally and compute days remaining
+    const expiring: ExpiringAgreement[] = (agreementsData.data || [])
+      .flatMap((agreement: Agreement) => {
+        const expirationDate = agreement.provisions?.expiration_date
+          ? toDateOnly(agreement.provisions.expiration_date)
+          : null;
+        if (
+          !expirationDate ||
+          expirationDate > windowEnd ||
+          (from && expirationDate < from)
+        ) {
+          return [];
+        }
+
+        const formatted = formatAgreementSummary(agreement);
+        return [
+          {
+            id: formatted.id,
+            title: formatted.title,
+            type: formatted.type,
+            status: formatted.status,
+            parties: formatted.parties,
+            expirationDate,
+            daysRemaining: daysBetween(today, expirationDate),
+          },
+        ];
+      })
+      .sort((a, b) => a.expirationDate.localeCompare(b.expirationDate));
+
+    const report: ExpiringAgreementsReport = {
+      window: { from: from || null, to: windowEnd, includeExpired },
+      count: expiring.length,
+      months: groupByMonth(expiring),
+    };
+
+    return createFormattedResponse('expiring_agreements', report, format, {
+      ...report,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createMCPErrorResponse(
+      'fetch_failed',
+      `Failed to retrieve expiring agreements: ${errorMessage}`,
+      'get_expiring_agreements'
+    );
+  }
+};
@@ -1,5 +1,11 @@
 export { authStatusHandler } from './auth-status.js';
+export { listAccountsHandler } from './list-accounts.js';
 export { getAgreementsHandler } from './get-agreements.js';
 export { getAgreementByIdHandler } from './get-agreement-by-id.js';
+export { getAgreementDocumentHandler } from './get-agreement-document.js';
+export { getExpiringAgreementsHandler } from './get-expiring-agreements.js';
+export { agreementStatisticsHandler } from './agreement-statistics.js';
+export { compareAgreementsHandler } from './compare-agreements.js';
 export { searchHandler } from './search.js';
+export { searchClausesHandler } from './search-clauses.js';
 export { fetchHandler } from './fetch.js';
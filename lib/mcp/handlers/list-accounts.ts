@@ -0,0 +1,105 @@
+import { selectAccount } from '../../navigator-client.js';
+import {
+  createNavigatorClient,
+  createFormattedResponse,
+  createMCPErrorResponse,
+  logToolUsage,
+} from '../handler-utils.js';
+import {
+  registerRenderers,
+  renderMarkdownTable,
+  type OutputFormat,
+} from '../../agreement-formatter.js';
+import type {
+  ToolHandler,
+  MCPToolResponse,
+  ToolContext,
+  DocuSignAccount,
+} from '../types.js';
+
+interface ListAccountsInput {
+  format?: OutputFormat;
+}
+
+interface AccountList {
+  user: string;
+  count: number;
+  defaultAccountId: string;
+  accounts: DocuSignAccount[];
+}
+
+const ACCOUNT_ID_HINT =
+  'Pass an account ID as the accountId argument of any agreement tool to target that account.';
+
+registerRenderers<AccountList>('account_list', {
+  text: list => `Found ${list.count} Docusign account${
+    list.count !== 1 ? 's' : ''
+  } for ${list.user}:
+
+${list.accounts
+  .map((account, index) =>
+    [
+      `${index + 1}. ${account.account_name || 'Unnamed Account'}${
+        account.account_id === list.defaultAccountId ? ' (used by default)' : ''
+      }`,
+      `   Account ID: ${account.account_id}`,
+      `   Default: ${account.is_default ? 'Yes' : 'No'}`,
+      ...(account.base_uri ? [`   Base URI: ${account.base_uri}`] : []),
+    ].join('\n')
+  )
+  .join('\n\n')}
+
+${ACCOUNT_ID_HINT}`,
+  markdown: list => `**${list.count} Docusign account${
+    list.count !== 1 ? 's' : ''
+  } for ${list.user}**
+
+${renderMarkdownTable(
+  ['Account', 'Account ID', 'Default', 'Used by Default', 'Base URI'],
+  list.accounts.map(account => [
+    account.account_name || 'Unnamed Account',
+    `\`${account.account_id}\``,
+    account.is_default ? 'Yes' : 'No',
+    account.account_id === list.defaultAccountId ? 'Yes' : 'No',
+    account.base_uri || '-',
+  ])
+)}
+
+${ACCOUNT_ID_HINT}`,
+});
+
+export const listAccountsHandler: ToolHandler<ListAccountsInput> = async (
+  input: ListAccountsInput,
+  context: ToolContext
+): Promise<MCPToolResponse> => {
+  // Log tool usage with standardized format
+  logToolUsage('list_accounts', { ...input }, context);
+
+  try {
+    const client = createNavigatorClient(context, 'list_accounts');
+
+    const userInfo = await client.getUserInfo();
+    const accounts: DocuSignAccount[] = userInfo.accounts;
+    const selected = selectAccount(userInfo);
+
+    const list: AccountList = {
+      user: userInfo.name || userInfo.email || 'the current user',
+      count: accounts.length,
+      defaultAccountId: selected.account_id,
+      accounts,
+    };
+
+    return createFormattedResponse('account_list', list, input.format, {
+      count: accounts.length,
+      defaultAccountId: selected.account_id,
+      accounts,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createMCPErrorResponse(
+      'fetch_failed',
+      `Failed to retrieve accounts: ${errorMessage}`,
+      'list_accounts'
+    );
+  }
+};
@@ -0,0 +1,181 @@
+import { createNavigatorClient, logToolUsage } from '../handler-utils.js';
+import {
+  createSearchResponse,
+  wrapInMCPFormat,
+} from '../../chatgpt-formatter.js';
+import { getAgreementDocumentText } from '../../agreement-document.js';
+import { hasDownloadableDocument } from '../../navigator-client.js';
+import {
+  buildPassages,
+  matchesQueryQualifiers,
+  parseSearchQuery,
+  rankPassages,
+  type Passage,
+} from '../../search/index.js';
+import type { OutputFormat } from '../../agreement-formatter.js';
+import type {
+  ToolHandler,
+  MCPToolResponse,
+  ToolContext,
+  Agreement,
+} from '../types.js';
+
+// Documents are downloaded per search, so bound how many are read
+export const MAX_CLAUSE_SEARCH_AGREEMENTS = 25;
+export const DEFAULT_CLAUSE_SEARCH_LIMIT = 10;
+const DOCUMENT_CONCURRENCY = 4;
+
+interface SearchClausesInput {
+  query: string;
+  agreementIds?: string[];
+  accountId?: string;
+  limit?: number;
+  format?: OutputFormat;
+}
+
+// An agreement that could not be fetched, downloaded or extracted
+interface AgreementFailure {
+  id: string;
+  error: string;
+}
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export const searchClausesHandler: ToolHandler<SearchClausesInput> = async (
+  {
+    query,
+    agreementIds,
+    accountId,
+    limit = DEFAULT_CLAUSE_SEARCH_LIMIT,
+    format,
+  }: SearchClausesInput,
+  context: ToolContext
+): Promise<MCPToolResponse> => {
+  // Log tool usage with standardized format
+  logToolUsage(
+    'search_clauses',
+    { query, agreementIds, accountId, limit, format },
+    context
+  );
+
+  try {
+    const client = createNavigatorClient(context, 'search_clauses');
+
+    // Parse before fetching so syntax errors are reported immediately
+    const parsedQuery = parseSearchQuery(query);
+    if (parsedQuery.groups.length === 0) {
+      return wrapInMCPFormat(
+        {
+          results: [],
+          error:
+            'Search query contains no searchable terms. Try clause wording such as "limitation of liability" or "auto-renew".',
+        },
+        { query: query, count: 0 },
+        { view: 'search_results', format }
+      );
+    }
+
+    // Explicit IDs are fetched directly, reporting any that fail; otherwise
+    // search every agreement with a downloadable source that satisfies the
+    // query's qualifiers
+    const failures: AgreementFailure[] = [];
+    let candidates: Agreement[];
+    if (agreementIds?.length) {
+      const ids = [...new Set(agreementIds)];
+      const results = await Promise.allSettled(
+        ids.map(id => client.getAgreement(id, accountId))
+      );
+      candidates = [];
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          candidates.push(result.value);
+        } else {
+          failures.push({
+            id: ids[index]!,
+            error: toErrorMessage(result.reason),
+          });
+        }
+      });
+    } else {
+      candidates = (await client.listAllAgreements({ accountId })).data || [];
+    }
+
+    const searchable = candidates.filter(
+      agreement =>
+        hasDownloadableDocument(agreement) &&
+        matchesQueryQualifiers(agreement, parsedQuery)
+    );
+    const searched = searchable.slice(0, MAX_CLAUSE_SEARCH_AGREEMENTS);
+    // Only counted: an account can hold thousands of agreements without one
+    const skipped = candidates.filter(
+      agreement => !hasDownloadableDocument(agreement)
+    ).length;
+
+    // Extract documents a few at a time; one unreadable document should
+    // not fail the whole search
+    const passages: Passage[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < searched.length) {
+        const agreement = searched[next++]!;
+        try {
+          const document = await getAgreementDocumentText(
+            client,
+            agreement,
+            accountId
+          );
+          passages.push(...buildPassages(agreement, document.chunks));
+        } catch (error) {
+          failures.push({ id: agreement.id, error: toErrorMessage(error) });
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: DOCUMENT_CONCURRENCY }, () => worker())
+    );
+
+    const hits = rankPassages(passages, parsedQuery).slice(0, limit);
+
+    // Create ChatGPT-compatible response using standardized formatter
+    const chatgptResponse = createSearchResponse(
+      hits.map(hit => hit.passage),
+      parsedQuery.highlightTerms
+    );
+
+    return wrapInMCPFormat(
+      chatgptResponse,
+      {
+        query: query,
+        count: hits.length,
+        agreements_searched: searched.length,
+        agreements_not_searched: searchable.length - searched.length,
+        skipped_without_document: skipped,
+        failed: failures,
+        scores: hits.map(hit => ({
+          id: hit.passage.agreement.id,
+          page: hit.passage.pageNumber,
+          score: Number(hit.score.toFixed(4)),
+        })),
+      },
+      { view: 'search_results', format }
+    );
+  } catch (error) {
+    const errorMessage = toErrorMessage(error);
+
+    // Return error in ChatGPT-compatible format
+    const errorResponse = {
+      results: [],
+      error: `Clause search failed: ${errorMessage}`,
+    };
+
+    return wrapInMCPFormat(
+      errorResponse,
+      {
+        query: query,
+        error: true,
+      },
+      { view: 'search_results', format }
+    );
+  }
+};
@@ -1,60 +1,105 @@
-import { fetchAgreements } from '../../docusign-service.js';
-import { extractAccessToken, logToolUsage } from '../handler-utils.js';
+import { createNavigatorClient, logToolUsage } from '../handler-utils.js';
 import {
   createSearchResponse,
   wrapInMCPFormat,
 } from '../../chatgpt-formatter.js';
-import type {
-  ToolHandler,
-  MCPToolResponse,
-  ToolContext,
-  Agreement,
-} from '../types.js';
+import {
+  createEmbeddingProvider,
+  parseSearchQuery,
+  rankAgreements,
+  rankAgreementsHybrid,
+  type HybridSearchHit,
+} from '../../search/index.js';
+import type { OutputFormat } from '../../agreement-formatter.js';
+import type { ToolHandler, MCPToolResponse, ToolContext } from '../types.js';
 
 interface SearchInput {
   query: string;
+  accountId?: string;
+  semantic?: boolean;
+  format?: OutputFormat;
 }
 
 export const searchHandler: ToolHandler<SearchInput> = async (
-  { query }: SearchInput,
+  { query, accountId, semantic, format }: SearchInput,
   context: ToolContext
 ): Promise<MCPToolResponse> => {
   // Log tool usage with standardized format
-  logToolUsage('search', { query }, context);
+  logToolUsage('search', { query, accountId, semantic, format }, context);
 
   try {
-    const accessToken = extractAccessToken(context, 'search');
-
-    // Use the existing fetchAgreements service function
-    const agreementsData = await fetchAgreements(accessToken);
-    const agreements = agreementsData.data || [];
+    const client = createNavigatorClient(context, 'search');
 
-    // Filter agreements based on the search query
-    const searchTerms = query.toLowerCase().split(' ');
-    const filteredAgreements = agreements.filter((agreement: Agreement) => {
-      const searchableText = [
-        agreement.title || '',
-        agreement.summary || '',
-        agreement.type || '',
-        agreement.category || '',
-        agreement.file_name || '',
-        ...(agreement.parties || []).map(
-          p => `${p.preferred_name || ''} ${p.name_in_agreement || ''}`
-        ),
-      ]
-        .join(' ')
-        .toLowerCase();
+    // Parse before fetching so syntax errors are reported immediately
+    const parsedQuery = parseSearchQuery(query);
+    if (parsedQuery.groups.length === 0) {
+      return wrapInMCPFormat(
+        {
+          results: [],
+          error:
+            'Search query contains no searchable terms. Try more specific words, a quoted phrase, or a field qualifier such as type:NDA.',
+        },
+        { query: query, count: 0 },
+        { view: 'search_results', format }
+      );
+    }
 
-      return searchTerms.some(term => searchableText.includes(term));
+    // Search across every page of the repository, not just the first
+    const agreementsData = await client.listAllAgreements({
+      accountId,
     });
+    const agreements = agreementsData.data || [];
+
+    // Rank agreements by relevance to the parsed query, blending in
+    // embedding similarity when semantic mode is requested
+    let hits: HybridSearchHit[] | undefined;
+    let semanticError: string | undefined;
+    if (semantic) {
+      try {
+        const account = await client.resolveAccount(accountId);
+        hits = await rankAgreementsHybrid(
+          createEmbeddingProvider(),
+          account.account_id,
+          agreements,
+          parsedQuery
+        );
+      } catch (error) {
+        // Keyword results are still useful if the embedder is unavailable
+        semanticError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    const rankedHits =
+      hits ??
+      rankAgreements(agreements, parsedQuery).map(hit => ({
+        ...hit,
+        keywordScore: hit.score,
+        semanticScore: 0,
+      }));
 
     // Create ChatGPT-compatible response using standardized formatter
-    const chatgptResponse = createSearchResponse(filteredAgreements);
+    const chatgptResponse = createSearchResponse(
+      rankedHits.map(hit => hit.agreement),
+      parsedQuery.highlightTerms
+    );
 
-    return wrapInMCPFormat(chatgptResponse, {
-      query: query,
-      count: filteredAgreements.length,
-    });
+    return wrapInMCPFormat(
+      chatgptResponse,
+      {
+        query: query,
+        mode: hits ? 'semantic' : 'keyword',
+        ...(semanticError && { semantic_error: semanticError }),
+        count: rankedHits.length,
+        scores: rankedHits.map(hit => ({
+          id: hit.agreement.id,
+          score: Number(hit.score.toFixed(4)),
+          ...(hits && {
+            keyword: Number(hit.keywordScore.toFixed(4)),
+            semantic: Number(hit.semanticScore.toFixed(4)),
+          }),
+        })),
+      },
+      { view: 'search_results', format }
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -64,9 +109,13 @@ export const searchHandler: ToolHandler<SearchInput> = async (
       error: `Search failed: ${errorMessage}`,
     };
 
-    return wrapInMCPFormat(errorResponse, {
-      query: query,
-      error: true,
-    });
+    return wrapInMCPFormat(
+      errorResponse,
+      {
+        query: query,
+        error: true,
+      },
+      { view: 'search_results', format }
+    );
   }
 };
@@ -0,0 +1,109 @@
+/**
+ * MCP Tool Output Schemas
+ * Declared as each tool's outputSchema so clients can rely on the shape of
+ * structuredContent. Objects pass unknown fields through so new Navigator
+ * fields reach clients without a schema change.
+ */
+
+import { z } from 'zod';
+
+const agreementPartyOutput = z
+  .object({
+    id: z.string().optional(),
+    preferred_name: z.string().optional(),
+    name_in_agreement: z.string().optional(),
+  })
+  .passthrough();
+
+// Headline provisions; the remaining provision fields pass through as-is
+const agreementProvisionsOutput = z
+  .object({
+    effective_date: z.string().optional(),
+    expiration_date: z.string().optional(),
+    execution_date: z.string().optional(),
+    term_length: z.string().optional(),
+    renewal_type: z.string().optional(),
+    total_agreement_value: z.string().optional(),
+    total_agreement_value_currency_code: z.string().optional(),
+    governing_law: z.string().optional(),
+    jurisdiction: z.string().optional(),
+  })
+  .passthrough();
+
+const agreementMetadataOutput = z
+  .object({
+    created_at: z.string().optional(),
+    created_by: z.string().optional(),
+    modified_at: z.string().optional(),
+    modified_by: z.string().optional(),
+  })
+  .passthrough();
+
+export const agreementOutput = z
+  .object({
+    id: z.string(),
+    title: z.string().optional(),
+    type: z.string().optional(),
+    category: z.string().optional(),
+    status: z.string().optional(),
+    file_name: z.string().optional(),
+    summary: z.string().optional(),
+    languages: z.array(z.string()).optional(),
+    parties: z.array(agreementPartyOutput).optional(),
+    provisions: agreementProvisionsOutput.optional(),
+    custom_attributes: z
+      .record(
+        z
+          .union([z.string(), z.number(), z.boolean(), z.array(z.string())])
+          .nullable()
+      )
+      .optional(),
+    related_agreement_documents: z
+      .object({ parent_agreement_document_id: z.string().optional() })
+      .passthrough()
+      .optional(),
+    source_name: z.string().optional(),
+    source_id: z.string().optional(),
+    source_account_id: z.string().optional(),
+    metadata: agreementMetadataOutput.optional(),
+  })
+  .passthrough();
+
+// get_agreements: one page of agreements and the cursor for the next
+export const getAgreementsOutputSchema = {
+  count: z.number().int().describe('Number of agreements on this page'),
+  hasMore: z.boolean().describe('Whether another page is available'),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe('Pass as cursor to retrieve the next page'),
+  agreements: z.array(agreementOutput),
+};
+
+// get_agreement_by_id: the full agreement
+export const getAgreementByIdOutputSchema = {
+  agreement: agreementOutput,
+};
+
+// search and search_clauses: ChatGPT Connectors search results
+export const searchOutputSchema = {
+  results: z.array(
+    z.object({
+      id: z.string().describe('Agreement ID, usable with fetch'),
+      title: z.string(),
+      text: z.string().describe('Snippet around the matched text'),
+      url: z.string(),
+    })
+  ),
+  error: z.string().optional(),
+};
+
+// fetch: ChatGPT Connectors document
+export const fetchOutputSchema = {
+  id: z.string(),
+  title: z.string(),
+  content: z.string().describe('Agreement details as readable text'),
+  url: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  error: z.string().optional(),
+};
@@ -0,0 +1,233 @@
+/**
+ * MCP Prompt Templates
+ * Pre-composed contract-review workflows surfaced by clients as
+ * slash-commands. Each prompt pulls agreement data through the existing
+ * tool handlers and embeds it alongside the instructions.
+ */
+
+import {
+  getAgreementsHandler,
+  getAgreementByIdHandler,
+  getExpiringAgreementsHandler,
+} from './handlers/index.js';
+import { buildAgreementResourceUri } from './resources.js';
+import { logToolUsage } from './handler-utils.js';
+import type { MCPToolResponse, ToolContext } from './types.js';
+
+// Prompt result shape (structurally compatible with the SDK's GetPromptResult)
+export interface PromptResult {
+  description?: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content:
+      | { type: 'text'; text: string }
+      | {
+          type: 'resource';
+          resource: { uri: string; mimeType: string; text: string };
+        };
+  }>;
+  [key: string]: unknown;
+}
+
+export interface SummarizeObligationsArgs {
+  partyName: string;
+  accountId?: string;
+}
+
+export interface RenewalBriefArgs {
+  agreementId?: string;
+  days?: string;
+  accountId?: string;
+}
+
+export interface CompareAgreementsPromptArgs {
+  firstAgreementId: string;
+  secondAgreementId: string;
+  accountId?: string;
+}
+
+/**
+ * Extracts the text of a handler response, surfacing tool errors
+ * @throws Error with the tool's error description if the handler failed
+ */
+function handlerText(response: MCPToolResponse): string {
+  const [content] = response.content;
+  if (!content) {
+    return '';
+  }
+
+  if (content.annotation?.error) {
+    let description = content.text;
+    try {
+      const parsed = JSON.parse(content.text);
+      description = parsed.error_description || parsed.error || description;
+    } catch {
+      // Use raw text if the error is not JSON
+    }
+    throw new Error(description);
+  }
+
+  return content.text;
+}
+
+/**
+ * Builds a user message embedding an agreement as a resource
+ */
+function embeddedAgreement(
+  agreementId: string,
+  text: string
+): PromptResult['messages'][number] {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri: buildAgreementResourceUri(agreementId),
+        mimeType: 'text/plain',
+        text,
+      },
+    },
+  };
+}
+
+/**
+ * Prompt: summarize obligations owed to or by a counterparty
+ */
+export async function summarizeObligationsPrompt(
+  { partyName, accountId }: SummarizeObligationsArgs,
+  context: ToolContext
+): Promise<PromptResult> {
+  logToolUsage('prompt:summarize_obligations', { partyName }, context);
+
+  const agreementsText = handlerText(
+    await getAgreementsHandler({ partyName, accountId, pageSize: 100 }, context)
+  );
+
+  return {
+    description: `Obligations summary for ${partyName}`,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `Summarize our contractual obligations with the counterparty "${partyName}" using the Docusign Navigator agreements below.
+
+For each agreement:
+1. State what we owe them and what they owe us (deliverables, payments, confidentiality, exclusivity).
+2. Note key dates: effective date, expiration date and any notice deadlines.
+3. Flag anything expiring within 90 days or with unclear terms.
+
+Finish with a short overall summary of the relationship. Use get_agreement_by_id for more detail on any agreement, and do not invent terms that are not in the data.
+
+${agreementsText}`,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Prompt: renewal brief for one agreement or everything expiring soon
+ */
+export async function renewalBriefPrompt(
+  { agreementId, days, accountId }: RenewalBriefArgs,
+  context: ToolContext
+): Promise<PromptResult> {
+  logToolUsage('prompt:renewal_brief', { agreementId, days }, context);
+
+  if (agreementId) {
+    const detailsText = handlerText(
+      await getAgreementByIdHandler({ agreementId, accountId }, context)
+    );
+
+    return {
+      description: `Renewal brief for agreement ${agreementId}`,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `Prepare a renewal brief for the attached Docusign Navigator agreement. Cover:
+1. Current term: effective and expiration dates, and days until expiration.
+2. Commercial terms: total value and parties.
+3. Renewal considerations: what to renegotiate, risks of lapsing, and recommended next steps with owners and deadlines.
+
+Keep it to one page and do not invent terms that are not in the data.`,
+          },
+        },
+        embeddedAgreement(agreementId, detailsText),
+      ],
+    };
+  }
+
+  const windowDays = days ? parseInt(days, 10) : 90;
+  if (isNaN(windowDays) || windowDays <= 0) {
+    throw new Error('days must be a positive whole number');
+  }
+
+  const expiringText = handlerText(
+    await getExpiringAgreementsHandler({ days: windowDays, accountId }, context)
+  );
+
+  return {
+    description: `Renewal brief for agreements expiring in the next ${windowDays} days`,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `Prepare a renewal review for the Docusign Navigator agreements expiring in the next ${windowDays} days, listed below.
+
+1. Prioritize by days remaining and value.
+2. For each agreement recommend renew, renegotiate or let lapse, with a one-line rationale.
+3. List the actions needed this week.
+
+Use get_agreement_by_id for more detail on any agreement, and do not invent terms that are not in the data.
+
+${expiringText}`,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Prompt: compare two agreements
+ */
+export async function compareAgreementsPrompt(
+  {
+    firstAgreementId,
+    secondAgreementId,
+    accountId,
+  }: CompareAgreementsPromptArgs,
+  context: ToolContext
+): Promise<PromptResult> {
+  logToolUsage(
+    'prompt:compare_agreements',
+    { firstAgreementId, secondAgreementId },
+    context
+  );
+
+  const [firstText, secondText] = await Promise.all(
+    [firstAgreementId, secondAgreementId].map(async agreementId =>
+      handlerText(
+        await getAgreementByIdHandler({ agreementId, accountId }, context)
+      )
+    )
+  );
+
+  return {
+    description: `Comparison of agreements ${firstAgreementId} and ${secondAgreementId}`,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `Compare the two attached Docusign Navigator agreements. Present a side-by-side table of type, category, status, parties, effective and expiration dates, and total value, then explain the material differences and which terms are more favourable to us. Do not invent terms that are not in the data.`,
+        },
+      },
+      embeddedAgreement(firstAgreementId, firstText!),
+      embeddedAgreement(secondAgreementId, secondText!),
+    ],
+  };
+}
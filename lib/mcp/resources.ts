@@ -0,0 +1,105 @@
+/**
+ * MCP Agreement Resources
+ * Exposes Navigator agreements as MCP resources so clients can browse and
+ * attach them as context (e.g. @-mentions in Claude Desktop or VS Code)
+ */
+
+import { MAX_AGREEMENTS_PAGE_SIZE } from '../navigator-client.js';
+import {
+  formatAgreementDetails,
+  formatAgreementSummary,
+  renderAgreementDetailsText,
+} from '../agreement-formatter.js';
+import { createNavigatorClient, logToolUsage } from './handler-utils.js';
+import type { ToolContext } from './types.js';
+
+export const AGREEMENT_RESOURCE_SCHEME = 'docusign-navigator';
+export const AGREEMENT_RESOURCE_TEMPLATE = `${AGREEMENT_RESOURCE_SCHEME}://agreements/{id}`;
+
+// Resource shapes returned to the MCP server (structurally compatible with
+// the SDK's ListResourcesResult / ReadResourceResult)
+export interface AgreementResourceListing {
+  resources: Array<{
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType: string;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface AgreementResourceContents {
+  contents: Array<{
+    uri: string;
+    mimeType: string;
+    text: string;
+  }>;
+  [key: string]: unknown;
+}
+
+/**
+ * Builds the resource URI for an agreement
+ * @param agreementId - Agreement ID
+ * @returns Resource URI such as docusign-navigator://agreements/abc123
+ */
+export function buildAgreementResourceUri(agreementId: string): string {
+  return `${AGREEMENT_RESOURCE_SCHEME}://agreements/${encodeURIComponent(agreementId)}`;
+}
+
+/**
+ * Lists agreements as resources
+ * Returns the first page of the default account's agreements; use the
+ * get_agreements tool to walk larger repositories
+ * @param context - Request context carrying authentication
+ * @returns Resource listing
+ */
+export async function listAgreementResources(
+  context: ToolContext
+): Promise<AgreementResourceListing> {
+  logToolUsage('resources/list', {}, context);
+
+  const client = createNavigatorClient(context, 'resources/list');
+  const agreementsData = await client.listAgreements({
+    pageSize: MAX_AGREEMENTS_PAGE_SIZE,
+  });
+
+  return {
+    resources: (agreementsData.data || []).map(agreement => {
+      const formatted = formatAgreementSummary(agreement);
+      return {
+        uri: buildAgreementResourceUri(agreement.id),
+        name: formatted.title,
+        description: `${formatted.type} - ${formatted.status} - ${formatted.parties}`,
+        mimeType: 'text/plain',
+      };
+    }),
+  };
+}
+
+/**
+ * Reads a single agreement resource
+ * @param uri - Requested resource URI
+ * @param agreementId - Agreement ID extracted from the URI template
+ * @param context - Request context carrying authentication
+ * @returns Resource contents rendered as agreement details text
+ */
+export async function readAgreementResource(
+  uri: URL,
+  agreementId: string,
+  context: ToolContext
+): Promise<AgreementResourceContents> {
+  logToolUsage('resources/read', { agreementId }, context);
+
+  const client = createNavigatorClient(context, 'resources/read');
+  const agreement = await client.getAgreement(decodeURIComponent(agreementId));
+
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'text/plain',
+        text: renderAgreementDetailsText(formatAgreementDetails(agreement)),
+      },
+    ],
+  };
+}
@@ -3,6 +3,8 @@ export interface AuthInfo {
   token: string;
   scopes: string[];
   clientId: string;
+  // Access token expiry in epoch seconds, enforced by mcp-handler
+  expiresAt?: number;
   extra?: Record<string, unknown>;
 }
 
@@ -18,6 +20,10 @@ export interface MCPToolResponse {
     text: string;
     annotation?: Record<string, unknown>;
   }>;
+  // Machine-readable result matching the tool's declared outputSchema
+  structuredContent?: Record<string, unknown>;
+  // Marks failures; output schemas are not enforced on error results
+  isError?: boolean;
   [key: string]: unknown; // Index signature for MCP compatibility
 }
 
@@ -50,20 +56,81 @@ export interface TokenValidationResult {
 
 // Docusign Navigator Agreement types
 export interface AgreementParty {
+  id?: string;
   preferred_name?: string;
   name_in_agreement?: string;
 }
 
+// Extracted provisions; durations are ISO 8601 (e.g. "P1Y", "P30D")
 export interface AgreementProvisions {
+  // Key dates and term
   effective_date?: string;
   expiration_date?: string;
+  execution_date?: string;
+  term_length?: string;
+
+  // Renewal
+  renewal_type?: string;
+  renewal_notice_period?: string;
+  renewal_notice_date?: string;
+  auto_renewal_term_length?: string;
+  renewal_extension_period?: string;
+  renewal_process_owner?: string;
+  renewal_additional_info?: string;
+
+  // Governing law
+  governing_law?: string;
+  jurisdiction?: string;
+
+  // Payment
+  payment_terms_due_date?: string;
+  can_charge_late_payment_fees?: boolean;
+  late_payment_fee_percent?: number;
+  price_cap_percent_increase?: number;
+
+  // Value
   total_agreement_value?: string;
+  total_agreement_value_currency_code?: string;
+  annual_agreement_value?: string;
+  annual_agreement_value_currency_code?: string;
+
+  // Liability
+  liability_cap_fixed_amount?: string;
+  liability_cap_multiplier?: number;
+  liability_cap_currency_code?: string;
+  liability_cap_duration?: string;
+
+  // Assignment
+  assignment_type?: string;
+  assignment_change_of_control?: string;
+  assignment_termination_rights?: string;
+
+  // Termination
+  termination_period_for_cause?: string;
+  termination_period_for_convenience?: string;
+
+  // Confidentiality
+  confidentiality_obligation_period?: string;
 }
 
 export interface AgreementMetadata {
   created_at?: string;
+  created_by?: string;
+  modified_at?: string;
+  modified_by?: string;
+}
+
+export interface RelatedAgreementDocuments {
+  parent_agreement_document_id?: string;
 }
 
+export type AgreementCustomAttributeValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | null;
+
 export interface Agreement {
   id: string;
   title?: string;
@@ -72,11 +139,43 @@ export interface Agreement {
   status?: string;
   file_name?: string;
   summary?: string;
+  languages?: string[];
   parties?: AgreementParty[];
   provisions?: AgreementProvisions;
+  custom_attributes?: Record<string, AgreementCustomAttributeValue>;
+  related_agreement_documents?: RelatedAgreementDocuments;
+  // Source document references (e.g. the eSignature envelope or upload)
+  source_name?: string;
+  source_id?: string;
+  source_account_id?: string;
   metadata?: AgreementMetadata;
 }
 
+export interface AgreementsResponseMetadata {
+  page_limit?: number;
+  page_token_next?: string;
+  href?: string;
+  href_next?: string;
+  response_timestamp?: string;
+  response_duration_ms?: number;
+}
+
 export interface AgreementsResponse {
   data?: Agreement[];
+  response_metadata?: AgreementsResponseMetadata;
+}
+
+// Paging and filter options for agreement listing
+export interface AgreementListOptions {
+  accountId?: string;
+  pageSize?: number;
+  cursor?: string;
+  type?: string;
+  category?: string;
+  status?: string;
+  partyName?: string;
+  effectiveDateFrom?: string;
+  effectiveDateTo?: string;
+  expirationDateFrom?: string;
+  expirationDateTo?: string;
 }
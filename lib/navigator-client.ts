@@ -0,0 +1,689 @@
+// ==========================================
+// Docusign Navigator API Client
+// ==========================================
+
+import type { z } from 'zod';
+import { logger as defaultLogger, type Logger } from './logger.js';
+import { config } from './config.js';
+import { MemoryLRUCache, hashToken, type CacheStore } from './cache.js';
+import { AppError, RateLimitError } from './errors.js';
+import { resolveAccountRegion } from './docusign-regions.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+  getRetryAfterMs,
+  RequestTimeoutError,
+  type RetryPolicy,
+} from './retry.js';
+import {
+  agreementSchema,
+  agreementsResponseSchema,
+  docuSignUserInfoSchema,
+} from './navigator-schemas.js';
+import type {
+  Agreement,
+  AgreementListOptions,
+  AgreementsResponse,
+  DocuSignAccount,
+  DocuSignUserInfo,
+} from './mcp/types.js';
+
+// Navigator paging limits
+export const DEFAULT_AGREEMENTS_PAGE_SIZE = 25;
+export const MAX_AGREEMENTS_PAGE_SIZE = 100;
+const MAX_AGREEMENT_PAGES = 50;
+
+// Agreements whose source_name matches are backed by an eSignature envelope
+const ESIGNATURE_SOURCE_PATTERN = /e-?sign/i;
+
+/**
+ * Checks whether an agreement's source document can be downloaded
+ * Only agreements backed by an eSignature envelope are supported
+ */
+export function hasDownloadableDocument(
+  agreement: Agreement
+): agreement is Agreement & { source_id: string } {
+  return (
+    !!agreement.source_id &&
+    ESIGNATURE_SOURCE_PATTERN.test(agreement.source_name || '')
+  );
+}
+
+// 404 messages for APIs where the missing resource is known
+const NOT_FOUND_MESSAGES: Record<string, string> = {
+  agreement_by_id: 'Agreement not found',
+  agreement_document: 'Agreement source document not found',
+};
+
+// Maps agreement list filters onto Navigator query parameters
+const AGREEMENT_FILTER_PARAMS: Record<
+  Exclude<keyof AgreementListOptions, 'pageSize' | 'cursor' | 'accountId'>,
+  string
+> = {
+  type: 'type',
+  category: 'category',
+  status: 'status',
+  partyName: 'parties.name_in_agreement',
+  effectiveDateFrom: 'provisions.effective_date[gte]',
+  effectiveDateTo: 'provisions.effective_date[lte]',
+  expirationDateFrom: 'provisions.expiration_date[gte]',
+  expirationDateTo: 'provisions.expiration_date[lte]',
+};
+
+/**
+ * Builds the Navigator agreements query string from paging and filter options
+ */
+function buildAgreementsQuery(options: AgreementListOptions): string {
+  const params = new URLSearchParams();
+
+  const pageSize = Math.min(
+    Math.max(options.pageSize || DEFAULT_AGREEMENTS_PAGE_SIZE, 1),
+    MAX_AGREEMENTS_PAGE_SIZE
+  );
+  params.set('limit', String(pageSize));
+
+  if (options.cursor) {
+    params.set('ctoken', options.cursor);
+  }
+
+  for (const [option, param] of Object.entries(AGREEMENT_FILTER_PARAMS)) {
+    const value = options[option as keyof typeof AGREEMENT_FILTER_PARAMS];
+    if (value) {
+      params.set(param, value);
+    }
+  }
+
+  return params.toString();
+}
+
+// ==========================================
+// Docusign User Info Cache
+// ==========================================
+
+// Userinfo keyed by a hash of the bearer token, shared between the MCP token
+// verifier and every client so each tool call needs one round-trip
+let userInfoCache: CacheStore<DocuSignUserInfo> = new MemoryLRUCache({
+  maxEntries: config.cache.maxEntries,
+  defaultTtlMs: config.cache.userInfoTtlMs,
+});
+
+/**
+ * Replaces the shared userinfo cache store (e.g. with a Redis/KV adapter)
+ * @param store - Cache store implementation
+ */
+export function setUserInfoCache(store: CacheStore<DocuSignUserInfo>): void {
+  userInfoCache = store;
+}
+
+/**
+ * Removes any cached userinfo for an access token
+ * @param accessToken - Bearer token whose entry should be dropped
+ */
+export async function invalidateUserInfo(accessToken: string): Promise<void> {
+  try {
+    await userInfoCache.delete(hashToken(accessToken));
+  } catch (error) {
+    defaultLogger.warn('Userinfo cache delete failed', {
+      error: (error as Error).message,
+      context: 'userinfo_cache',
+    });
+  }
+}
+
+// ==========================================
+// Account Selection
+// ==========================================
+
+/**
+ * Selects the account a request should target
+ * Uses the requested account when given, otherwise the user's default
+ * account (falling back to the first account listed)
+ * @throws AppError if the requested account is not in the user's userinfo
+ */
+export function selectAccount(
+  userInfo: DocuSignUserInfo,
+  accountId?: string
+): DocuSignAccount {
+  const accounts = userInfo.accounts || [];
+
+  if (accountId) {
+    const account = accounts.find(acc => acc.account_id === accountId);
+    if (!account) {
+      const available = accounts.map(acc => acc.account_id).join(', ');
+      throw new AppError(
+        `Account ${accountId} is not available to this user. Available accounts: ${available || 'none'}. Use list_accounts to see account details.`,
+        404
+      );
+    }
+    return account;
+  }
+
+  const account = accounts.find(acc => acc.is_default) || accounts[0];
+  if (!account) {
+    throw new AppError('No Docusign accounts found for user', 404);
+  }
+  return account;
+}
+
+// ==========================================
+// Navigator Client
+// ==========================================
+
+export interface AgreementDocumentDownload {
+  bytes: Buffer;
+  contentType: string | null;
+  // File name from Content-Disposition, if the response names one
+  fileName?: string;
+}
+
+/**
+ * Reads the file name from a Content-Disposition header
+ */
+function parseContentDispositionFileName(
+  header: string | null
+): string | undefined {
+  const match = header?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(match[1]!);
+  } catch {
+    return match[1];
+  }
+}
+
+/**
+ * Builds the error for documents above the configured size limit
+ */
+function documentTooLarge(size: number, maxBytes: number): AppError {
+  const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+  return new AppError(
+    `Agreement document is too large to extract (${megabytes(size)} MB, limit ${megabytes(maxBytes)} MB)`,
+    413
+  );
+}
+
+export interface NavigatorClientOptions {
+  // Navigator API host for every account (defaults to the host resolved
+  // from each account's region, see docusign-regions.ts)
+  baseUrl?: string;
+  // OAuth host serving /oauth/userinfo (defaults to config.docusign.baseUrl)
+  authBaseUrl?: string;
+  // Account used when a call does not name one (defaults to the user's default)
+  accountId?: string;
+  // Fetch implementation, injectable for tests and custom transports
+  fetch?: typeof fetch;
+  // Userinfo cache (defaults to the shared process-wide cache)
+  cache?: CacheStore<DocuSignUserInfo>;
+  logger?: Logger;
+  retryPolicy?: RetryPolicy;
+}
+
+/**
+ * Typed client for the Docusign Navigator API bound to one access token
+ * Responses are validated against the schemas in navigator-schemas.ts
+ */
+export class NavigatorClient {
+  private readonly baseUrl?: string;
+  private readonly authBaseUrl: string;
+  private readonly defaultAccountId?: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly cache?: CacheStore<DocuSignUserInfo>;
+  private readonly logger: Logger;
+  private readonly retryPolicy: RetryPolicy;
+
+  /**
+   * @param accessToken - Docusign OAuth access token
+   * @param options - Client configuration overrides
+   * @throws AppError if the access token is missing
+   */
+  constructor(
+    private readonly accessToken: string,
+    options: NavigatorClientOptions = {}
+  ) {
+    if (!accessToken || typeof accessToken !== 'string') {
+      throw new AppError('Invalid access token', 401);
+    }
+
+    this.baseUrl = options.baseUrl?.replace(/\/+$/, '');
+    this.authBaseUrl = (options.authBaseUrl || config.docusign.baseUrl).replace(
+      /\/+$/,
+      ''
+    );
+    this.defaultAccountId = options.accountId;
+    this.fetchImpl = options.fetch || fetch;
+    this.cache = options.cache;
+    this.logger = options.logger || defaultLogger;
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * Fetches the Docusign userinfo document for the client's token
+   * @returns Userinfo, served from cache when available
+   * @throws AppError if the token is rejected
+   */
+  async getUserInfo(): Promise<DocuSignUserInfo> {
+    const cached = await this.getCachedUserInfo();
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.fetchImpl(
+      `${this.authBaseUrl}/oauth/userinfo`,
+      {
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+
+      if (response.status === 401) {
+        // Try to parse the error for more details
+        let errorMessage = 'Invalid access token';
+        try {
+          const errorData = JSON.parse(errorText);
+          if (errorData.error === 'internal_server_error') {
+            errorMessage =
+              'Access token has expired or is invalid. Please re-authenticate with Docusign.';
+          } else if (errorData.error) {
+            errorMessage = `Authentication failed: ${errorData.error}`;
+          }
+        } catch {
+          // Use default message if parsing fails
+        }
+        throw new AppError(errorMessage, 401);
+      }
+
+      this.logger.error(
+        'Docusign userinfo request failed',
+        {
+          message: errorText || 'Unknown error',
+        },
+        {
+          status: response.status,
+          context: 'userinfo',
+        }
+      );
+      throw new AppError(
+        'Failed to retrieve user information',
+        response.status
+      );
+    }
+
+    const userInfo: DocuSignUserInfo = this.parse(
+      docuSignUserInfoSchema,
+      await response.json(),
+      'userinfo'
+    );
+
+    await this.cacheUserInfo(userInfo);
+    return userInfo;
+  }
+
+  /**
+   * Resolves the account a call should target
+   * @param accountId - Explicit account, falling back to the client default
+   * @throws AppError if the account is unavailable or the user has none
+   */
+  async resolveAccount(accountId?: string): Promise<DocuSignAccount> {
+    const userInfo = await this.getUserInfo();
+    return selectAccount(userInfo, accountId || this.defaultAccountId);
+  }
+
+  /**
+   * Fetches a single page of agreements
+   * Pass the returned response_metadata.page_token_next as cursor to continue
+   */
+  async listAgreements(
+    options: AgreementListOptions = {}
+  ): Promise<AgreementsResponse> {
+    const account = await this.resolveAccount(options.accountId);
+    const url = `${this.accountBaseUrl(account)}/v1/accounts/${account.account_id}/agreements?${buildAgreementsQuery(options)}`;
+
+    return this.request(url, agreementsResponseSchema, 'agreements', {
+      cursor: options.cursor,
+    });
+  }
+
+  /**
+   * Fetches every agreement matching the filters by following Navigator
+   * paging tokens until exhausted (capped to protect against runaway loops)
+   */
+  async listAllAgreements(
+    options: Omit<AgreementListOptions, 'cursor'> = {}
+  ): Promise<AgreementsResponse> {
+    const agreements: Agreement[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_AGREEMENT_PAGES; page++) {
+      const response = await this.listAgreements({
+        pageSize: MAX_AGREEMENTS_PAGE_SIZE,
+        ...options,
+        cursor,
+      });
+      agreements.push(...(response.data || []));
+
+      cursor = response.response_metadata?.page_token_next;
+      if (!cursor) {
+        return { data: agreements };
+      }
+    }
+
+    this.logger.warn('Agreement paging limit reached', {
+      api: 'agreements',
+      pages: MAX_AGREEMENT_PAGES,
+      count: agreements.length,
+    });
+
+    return {
+      data: agreements,
+      response_metadata: { page_token_next: cursor },
+    };
+  }
+
+  /**
+   * Fetches a single agreement by ID
+   * @throws AppError with status 404 if the agreement does not exist
+   */
+  async getAgreement(
+    agreementId: string,
+    accountId?: string
+  ): Promise<Agreement> {
+    if (!agreementId || typeof agreementId !== 'string') {
+      throw new AppError('Invalid agreement ID', 400);
+    }
+
+    const account = await this.resolveAccount(accountId);
+    const url = `${this.accountBaseUrl(account)}/v1/accounts/${account.account_id}/agreements/${encodeURIComponent(agreementId)}`;
+
+    return this.request(url, agreementSchema, 'agreement_by_id', {
+      agreementId,
+    });
+  }
+
+  /**
+   * Downloads the source document behind an agreement
+   * Agreements created from eSignature envelopes are downloaded from the
+   * eSignature API of the account's region as a combined PDF
+   * @param agreement - Agreement returned by getAgreement
+   * @param accountId - Account the agreement was fetched from
+   * @returns Document bytes and the declared content type
+   * @throws AppError 404 if the agreement has no downloadable source and
+   * 413 if the document exceeds config.documents.maxBytes
+   */
+  async downloadAgreementDocument(
+    agreement: Agreement,
+    accountId?: string
+  ): Promise<AgreementDocumentDownload> {
+    if (!hasDownloadableDocument(agreement)) {
+      throw new AppError(
+        `Agreement ${agreement.id} has no downloadable source document${
+          agreement.source_name ? ` (source: ${agreement.source_name})` : ''
+        }`,
+        404
+      );
+    }
+
+    const account = await this.resolveAccount(accountId);
+    const { eSignatureBaseUrl } = resolveAccountRegion(account);
+    if (!eSignatureBaseUrl) {
+      throw new AppError(
+        'Unable to determine the eSignature API host for this account',
+        404
+      );
+    }
+
+    const sourceAccountId = agreement.source_account_id || account.account_id;
+    const url = `${eSignatureBaseUrl}/v2.1/accounts/${encodeURIComponent(sourceAccountId)}/envelopes/${encodeURIComponent(agreement.source_id)}/documents/combined?certificate=false`;
+    const context = { agreementId: agreement.id };
+    const maxBytes = config.documents.maxBytes;
+
+    try {
+      const response = await this.send(
+        url,
+        'agreement_document',
+        context,
+        'application/pdf'
+      );
+
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (declaredLength > maxBytes) {
+        throw documentTooLarge(declaredLength, maxBytes);
+      }
+      const bytes = Buffer.from(await response.arrayBuffer());
+      if (bytes.length > maxBytes) {
+        throw documentTooLarge(bytes.length, maxBytes);
+      }
+
+      return {
+        bytes,
+        contentType: response.headers.get('content-type'),
+        fileName: parseContentDispositionFileName(
+          response.headers.get('content-disposition')
+        ),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error('Agreement document download failed', error as Error, {
+        api: 'agreement_document',
+        ...context,
+      });
+      throw new AppError('Docusign eSignature service unavailable', 503);
+    }
+  }
+
+  /**
+   * Navigator host for an account: the explicit client base URL, otherwise
+   * the host for the account's region
+   */
+  private accountBaseUrl(account: DocuSignAccount): string {
+    return this.baseUrl || resolveAccountRegion(account).navigatorBaseUrl;
+  }
+
+  /**
+   * Performs an authenticated Navigator GET with retries and validates the
+   * response body against a schema
+   * @throws AppError describing the failure; unexpected errors map to 503
+   */
+  private async request<S extends z.ZodTypeAny>(
+    url: string,
+    schema: S,
+    apiName: string,
+    additionalContext?: Record<string, unknown>
+  ): Promise<z.output<S>> {
+    try {
+      const response = await this.send(url, apiName, additionalContext);
+      return this.parse(schema, await response.json(), apiName);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error('Docusign Navigator request failed', error as Error, {
+        api: apiName,
+        ...additionalContext,
+      });
+      throw new AppError('Docusign Navigator service unavailable', 503);
+    }
+  }
+
+  /**
+   * Sends the request and maps non-success responses onto AppErrors
+   */
+  private async send(
+    url: string,
+    apiName: string,
+    additionalContext?: Record<string, unknown>,
+    accept = 'application/json'
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetchWithRetry(
+        url,
+        {
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+            Accept: accept,
+          },
+        },
+        this.retryPolicy,
+        this.fetchImpl
+      );
+    } catch (error) {
+      if (error instanceof RequestTimeoutError) {
+        this.logger.warn('Docusign Navigator API request timed out', {
+          api: apiName,
+          timeoutMs: error.timeoutMs,
+          ...additionalContext,
+        });
+        throw new AppError('Docusign Navigator API request timed out', 504);
+      }
+      throw error;
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    if (response.status === 429) {
+      const retryAfterMs = getRetryAfterMs(response);
+      throw new RateLimitError(
+        retryAfterMs !== null ? Math.ceil(retryAfterMs / 1000) : null
+      );
+    }
+
+    // Try to get the response body for more details
+    let errorDetails = '';
+    try {
+      errorDetails = await response.text();
+    } catch {
+      // Ignore error reading response body
+    }
+
+    // Log meaningful API errors for debugging
+    if (response.status >= 500) {
+      this.logger.error(
+        'Docusign Navigator API error',
+        {
+          message: errorDetails || 'Unknown server error',
+        },
+        {
+          status: response.status,
+          api: apiName,
+          ...additionalContext,
+        }
+      );
+    }
+
+    // Handle common error cases
+    if (response.status === 401) {
+      throw new AppError('Invalid access token', 401);
+    }
+    if (response.status === 403 && apiName === 'agreement_document') {
+      throw new AppError(
+        'Access denied - the agreement source document is not shared with this user',
+        403
+      );
+    }
+    if (response.status === 403) {
+      throw new AppError(
+        'Access denied - Docusign Navigator may not be enabled for this account. To get access, please visit: https://developers.docusign.com/docs/navigator-api/',
+        403
+      );
+    }
+    if (response.status === 404) {
+      // Check if this is a Navigator API not found error vs resource not found
+      if (
+        errorDetails.includes('Navigator') ||
+        errorDetails.includes('not available')
+      ) {
+        throw new AppError(
+          'Docusign Navigator API not found - may not be available for this account. To get access, please visit: https://developers.docusign.com/docs/navigator-api/',
+          404
+        );
+      }
+      throw new AppError(
+        NOT_FOUND_MESSAGES[apiName] || 'Resource not found',
+        404
+      );
+    }
+
+    throw new AppError(
+      `Failed to retrieve ${apiName} (${response.status}): ${errorDetails}`,
+      response.status
+    );
+  }
+
+  /**
+   * Validates a response body, logging schema issues without echoing data
+   * @throws AppError with status 502 when the body does not match
+   */
+  private parse<S extends z.ZodTypeAny>(
+    schema: S,
+    body: unknown,
+    apiName: string
+  ): z.output<S> {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      this.logger.error(
+        'Unexpected Docusign response shape',
+        {
+          message: result.error.issues
+            .slice(0, 5)
+            .map(
+              issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+            )
+            .join('; '),
+        },
+        { api: apiName }
+      );
+      throw new AppError('Unexpected response from Docusign', 502);
+    }
+    return result.data;
+  }
+
+  /**
+   * Reads cached userinfo, treating cache failures as misses
+   */
+  private async getCachedUserInfo(): Promise<DocuSignUserInfo | undefined> {
+    if (config.cache.userInfoTtlMs <= 0) {
+      return undefined;
+    }
+
+    try {
+      return await (this.cache || userInfoCache).get(
+        hashToken(this.accessToken)
+      );
+    } catch (error) {
+      this.logger.warn('Userinfo cache read failed', {
+        error: (error as Error).message,
+        context: 'userinfo_cache',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores userinfo in the cache, ignoring cache failures
+   */
+  private async cacheUserInfo(userInfo: DocuSignUserInfo): Promise<void> {
+    if (config.cache.userInfoTtlMs <= 0) {
+      return;
+    }
+
+    try {
+      await (this.cache || userInfoCache).set(
+        hashToken(this.accessToken),
+        userInfo
+      );
+    } catch (error) {
+      this.logger.warn('Userinfo cache write failed', {
+        error: (error as Error).message,
+        context: 'userinfo_cache',
+      });
+    }
+  }
+}
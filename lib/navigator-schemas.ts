@@ -0,0 +1,226 @@
+/**
+ * Docusign Response Schemas
+ * Runtime validation for Docusign userinfo and Navigator API payloads.
+ * Schemas pass unknown fields through so new API fields are not dropped,
+ * and map nulls to undefined to match the optional fields in mcp/types.ts.
+ */
+
+import { z } from 'zod';
+import type { AgreementCustomAttributeValue } from './mcp/types.js';
+
+const optionalString = z
+  .string()
+  .nullish()
+  .transform(value => value ?? undefined);
+
+export const docuSignAccountSchema = z
+  .object({
+    account_id: z.string(),
+    account_name: z
+      .string()
+      .nullish()
+      .transform(value => value ?? ''),
+    is_default: z
+      .union([z.boolean(), z.string()])
+      .nullish()
+      .transform(value => value === true || value === 'true'),
+    base_uri: optionalString,
+  })
+  .passthrough();
+
+export const docuSignUserInfoSchema = z
+  .object({
+    sub: z
+      .string()
+      .nullish()
+      .transform(value => value ?? ''),
+    name: z
+      .string()
+      .nullish()
+      .transform(value => value ?? ''),
+    email: z
+      .string()
+      .nullish()
+      .transform(value => value ?? ''),
+    accounts: z
+      .array(docuSignAccountSchema)
+      .nullish()
+      .transform(value => value ?? []),
+  })
+  .passthrough();
+
+// Navigator returns amounts either as strings or numbers; keep strings
+const optionalText = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform(value =>
+    value === null || value === undefined ? undefined : String(value)
+  );
+
+const optionalNumber = z
+  .union([z.number(), z.string()])
+  .nullish()
+  .transform(value => {
+    if (value === null || value === undefined || value === '') {
+      return undefined;
+    }
+    const parsed = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  });
+
+const optionalBoolean = z
+  .union([z.boolean(), z.string()])
+  .nullish()
+  .transform(value =>
+    value === null || value === undefined
+      ? undefined
+      : value === true || value === 'true'
+  );
+
+/**
+ * Narrows a custom attribute to a renderable value; structured values are
+ * kept as JSON text rather than failing validation of the whole agreement
+ */
+function toCustomAttributeValue(value: unknown): AgreementCustomAttributeValue {
+  if (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value;
+  }
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+export const agreementPartySchema = z
+  .object({
+    id: optionalString,
+    preferred_name: optionalString,
+    name_in_agreement: optionalString,
+  })
+  .passthrough();
+
+export const agreementProvisionsSchema = z
+  .object({
+    effective_date: optionalString,
+    expiration_date: optionalString,
+    execution_date: optionalString,
+    term_length: optionalString,
+
+    renewal_type: optionalString,
+    renewal_notice_period: optionalString,
+    renewal_notice_date: optionalString,
+    auto_renewal_term_length: optionalString,
+    renewal_extension_period: optionalString,
+    renewal_process_owner: optionalString,
+    renewal_additional_info: optionalString,
+
+    governing_law: optionalString,
+    jurisdiction: optionalString,
+
+    payment_terms_due_date: optionalString,
+    can_charge_late_payment_fees: optionalBoolean,
+    late_payment_fee_percent: optionalNumber,
+    price_cap_percent_increase: optionalNumber,
+
+    total_agreement_value: optionalText,
+    total_agreement_value_currency_code: optionalString,
+    annual_agreement_value: optionalText,
+    annual_agreement_value_currency_code: optionalString,
+
+    liability_cap_fixed_amount: optionalText,
+    liability_cap_multiplier: optionalNumber,
+    liability_cap_currency_code: optionalString,
+    liability_cap_duration: optionalString,
+
+    assignment_type: optionalString,
+    assignment_change_of_control: optionalString,
+    assignment_termination_rights: optionalString,
+
+    termination_period_for_cause: optionalString,
+    termination_period_for_convenience: optionalString,
+
+    confidentiality_obligation_period: optionalString,
+  })
+  .passthrough();
+
+export const agreementMetadataSchema = z
+  .object({
+    created_at: optionalString,
+    created_by: optionalString,
+    modified_at: optionalString,
+    modified_by: optionalString,
+  })
+  .passthrough();
+
+export const agreementSchema = z
+  .object({
+    id: z.string(),
+    title: optionalString,
+    type: optionalString,
+    category: optionalString,
+    status: optionalString,
+    file_name: optionalString,
+    summary: optionalString,
+    languages: z
+      .array(z.string())
+      .nullish()
+      .transform(value => value ?? undefined),
+    parties: z
+      .array(agreementPartySchema)
+      .nullish()
+      .transform(value => value ?? undefined),
+    provisions: agreementProvisionsSchema
+      .nullish()
+      .transform(value => value ?? undefined),
+    custom_attributes: z
+      .record(z.unknown())
+      .nullish()
+      .transform(value =>
+        value
+          ? Object.fromEntries(
+              Object.entries(value).map(([key, attribute]) => [
+                key,
+                toCustomAttributeValue(attribute),
+              ])
+            )
+          : undefined
+      ),
+    related_agreement_documents: z
+      .object({ parent_agreement_document_id: optionalString })
+      .passthrough()
+      .nullish()
+      .transform(value => value ?? undefined),
+    source_name: optionalString,
+    source_id: optionalString,
+    source_account_id: optionalString,
+    metadata: agreementMetadataSchema
+      .nullish()
+      .transform(value => value ?? undefined),
+  })
+  .passthrough();
+
+export const agreementsResponseSchema = z
+  .object({
+    data: z
+      .array(agreementSchema)
+      .nullish()
+      .transform(value => value ?? undefined),
+    response_metadata: z
+      .object({
+        page_limit: z.number().optional(),
+        page_token_next: optionalString,
+        href: optionalString,
+        href_next: optionalString,
+        response_timestamp: optionalString,
+        response_duration_ms: z.number().optional(),
+      })
+      .passthrough()
+      .nullish()
+      .transform(value => value ?? undefined),
+  })
+  .passthrough();
@@ -0,0 +1,259 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryLRUCache } from './cache.js';
+import { OAuthError } from './errors.js';
+import {
+  authenticateClient,
+  authorizeClientManagement,
+  deleteClient,
+  getClient,
+  isAllowedRedirectUri,
+  isClientGrantType,
+  parseClientMetadata,
+  registerClient,
+  setClientStore,
+  toClientInformation,
+  updateClient,
+  type RegisteredClient,
+} from './oauth-clients.js';
+
+const oauthError =
+  (error: string, statusCode = 400) =>
+  (thrown: unknown) =>
+    thrown instanceof OAuthError &&
+    thrown.error === error &&
+    thrown.statusCode === statusCode;
+
+const basic = (clientId: string, secret: string) =>
+  `Basic ${Buffer.from(`${clientId}:${secret}`).toString('base64')}`;
+
+describe('isAllowedRedirectUri', () => {
+  it('accepts https, loopback http and app schemes', () => {
+    assert.equal(isAllowedRedirectUri('https://claude.ai/cb'), true);
+    assert.equal(isAllowedRedirectUri('http://localhost:6274/cb'), true);
+    assert.equal(isAllowedRedirectUri('http://127.0.0.1/cb'), true);
+    assert.equal(isAllowedRedirectUri('vscode://auth/cb'), true);
+  });
+
+  it('rejects remote http, dangerous schemes, fragments and junk', () => {
+    assert.equal(isAllowedRedirectUri('http://evil.com/cb'), false);
+    assert.equal(isAllowedRedirectUri('javascript:alert(1)'), false);
+    assert.equal(isAllowedRedirectUri('https://claude.ai/cb#frag'), false);
+    assert.equal(isAllowedRedirectUri('not a uri'), false);
+  });
+});
+
+describe('isClientGrantType', () => {
+  it('accepts only registrable grant types', () => {
+    assert.equal(isClientGrantType('authorization_code'), true);
+    assert.equal(isClientGrantType('refresh_token'), true);
+    assert.equal(isClientGrantType('client_credentials'), false);
+    assert.equal(isClientGrantType(null), false);
+  });
+});
+
+describe('parseClientMetadata', () => {
+  it('applies defaults for public clients', () => {
+    const metadata = parseClientMetadata({
+      redirect_uris: ['https://claude.ai/cb'],
+    });
+
+    assert.equal(metadata.token_endpoint_auth_method, 'none');
+    assert.deepEqual(metadata.grant_types, [
+      'authorization_code',
+      'refresh_token',
+    ]);
+  });
+
+  it('requires allowed redirect_uris', () => {
+    assert.throws(
+      () => parseClientMetadata({ client_name: 'x' }),
+      oauthError('invalid_redirect_uri')
+    );
+    assert.throws(
+      () => parseClientMetadata({ redirect_uris: ['http://evil.com'] }),
+      oauthError('invalid_redirect_uri')
+    );
+  });
+
+  it('rejects unsupported metadata', () => {
+    assert.throws(
+      () =>
+        parseClientMetadata({
+          redirect_uris: ['https://claude.ai/cb'],
+          token_endpoint_auth_method: 'private_key_jwt',
+        }),
+      oauthError('invalid_client_metadata')
+    );
+  });
+});
+
+describe('client registrations', () => {
+  beforeEach(() => {
+    setClientStore(
+      new MemoryLRUCache<RegisteredClient>({
+        maxEntries: 100,
+        defaultTtlMs: 60_000,
+      })
+    );
+  });
+
+  const register = (method = 'none') =>
+    registerClient(
+      parseClientMetadata({
+        redirect_uris: ['https://claude.ai/cb'],
+        token_endpoint_auth_method: method,
+      })
+    );
+
+  it('issues secrets to confidential clients only', async () => {
+    const pub = await register();
+    const conf = await register('client_secret_basic');
+
+    assert.equal(pub.clientSecret, undefined);
+    assert.ok(conf.clientSecret);
+    assert.ok(conf.client.client_secret_hash);
+    assert.notEqual(conf.client.client_secret_hash, conf.clientSecret);
+  });
+
+  it('never returns stored hashes', async () => {
+    const { client, clientSecret, registrationAccessToken } =
+      await register('client_secret_post');
+    const info = toClientInformation(client, {
+      clientSecret,
+      registrationAccessToken,
+    });
+
+    assert.equal(info.client_secret, clientSecret);
+    assert.equal(info.registration_access_token, registrationAccessToken);
+    assert.ok(!('client_secret_hash' in info));
+    assert.ok(!('registration_access_token_hash' in info));
+    assert.match(info.registration_client_uri, /\/register\/mcp_/);
+  });
+
+  it('authenticates public clients by client_id', async () => {
+    const { client } = await register();
+    const params = new URLSearchParams({ client_id: client.client_id });
+
+    const authenticated = await authenticateClient(
+      null,
+      params,
+      'authorization_code'
+    );
+    assert.equal(authenticated.client_id, client.client_id);
+  });
+
+  it('requires the secret of confidential clients', async () => {
+    const { client, clientSecret } = await register('client_secret_basic');
+
+    await assert.rejects(
+      authenticateClient(
+        null,
+        new URLSearchParams({ client_id: client.client_id }),
+        'authorization_code'
+      ),
+      oauthError('invalid_client', 401)
+    );
+    await assert.rejects(
+      authenticateClient(
+        basic(client.client_id, 'wrong'),
+        new URLSearchParams(),
+        'authorization_code'
+      ),
+      oauthError('invalid_client', 401)
+    );
+
+    const viaBasic = await authenticateClient(
+      basic(client.client_id, clientSecret!),
+      new URLSearchParams(),
+      'authorization_code'
+    );
+    const viaBody = await authenticateClient(
+      null,
+      new URLSearchParams({
+        client_id: client.client_id,
+        client_secret: clientSecret!,
+      }),
+      'refresh_token'
+    );
+    assert.equal(viaBasic.client_id, client.client_id);
+    assert.equal(viaBody.client_id, client.client_id);
+  });
+
+  it('rejects unknown clients and unregistered grant types', async () => {
+    await assert.rejects(
+      authenticateClient(
+        null,
+        new URLSearchParams({ client_id: 'mcp_unknown' }),
+        'authorization_code'
+      ),
+      oauthError('invalid_client', 401)
+    );
+
+    const { client } = await registerClient(
+      parseClientMetadata({
+        redirect_uris: ['https://claude.ai/cb'],
+        grant_types: ['authorization_code'],
+      })
+    );
+    await assert.rejects(
+      authenticateClient(
+        null,
+        new URLSearchParams({ client_id: client.client_id }),
+        'refresh_token'
+      ),
+      oauthError('unauthorized_client')
+    );
+  });
+
+  it('rejects Basic credentials that are not valid percent-encoding', async () => {
+    const malformed = `Basic ${Buffer.from('mcp_%zz:secret%').toString('base64')}`;
+
+    await assert.rejects(
+      authenticateClient(malformed, new URLSearchParams()),
+      oauthError('invalid_client', 401)
+    );
+  });
+
+  it('authorizes management with the registration access token', async () => {
+    const { client, registrationAccessToken } = await register();
+
+    const managed = await authorizeClientManagement(
+      client.client_id,
+      `Bearer ${registrationAccessToken}`
+    );
+    assert.equal(managed.client_id, client.client_id);
+
+    await assert.rejects(
+      authorizeClientManagement(client.client_id, 'Bearer wrong'),
+      oauthError('invalid_token', 401)
+    );
+    await assert.rejects(
+      authorizeClientManagement(client.client_id, null),
+      oauthError('invalid_token', 401)
+    );
+  });
+
+  it('issues a secret when a client becomes confidential', async () => {
+    const { client } = await register();
+    const updated = await updateClient(
+      client,
+      parseClientMetadata({
+        redirect_uris: ['https://claude.ai/cb2'],
+        token_endpoint_auth_method: 'client_secret_post',
+      })
+    );
+
+    assert.ok(updated.clientSecret);
+    assert.deepEqual((await getClient(client.client_id))!.redirect_uris, [
+      'https://claude.ai/cb2',
+    ]);
+  });
+
+  it('forgets deleted clients', async () => {
+    const { client } = await register();
+    await deleteClient(client.client_id);
+
+    assert.equal(await getClient(client.client_id), undefined);
+  });
+});
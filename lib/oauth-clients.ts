@@ -0,0 +1,413 @@
+/**
+ * OAuth Client Registrations
+ * Dynamic client registration (RFC 7591) and management (RFC 7592) backed
+ * by the OAuth store. Registered redirect URIs are enforced at /authorize
+ * and client credentials are checked at /token. Secrets and registration
+ * access tokens are only stored as hashes.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { config } from './config.js';
+import { hashToken, type CacheStore } from './cache.js';
+import { OAuthError } from './errors.js';
+import oauthConfig from './oauth-config.js';
+import { createOAuthStore } from './oauth-store.js';
+import { getBaseUrl } from './url-helper.js';
+
+export const TOKEN_ENDPOINT_AUTH_METHODS = [
+  'none',
+  'client_secret_basic',
+  'client_secret_post',
+] as const;
+
+export const CLIENT_GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+] as const;
+export type ClientGrantType = (typeof CLIENT_GRANT_TYPES)[number];
+
+// Allowed redirect URI schemes
+const ALLOWED_SCHEMES = [
+  'https',
+  'http',
+  'vscode',
+  'ms-vscode',
+  'chrome-extension',
+  'moz-extension',
+];
+
+// Dangerous schemes to block
+const DANGEROUS_SCHEMES = ['javascript', 'data', 'vbscript', 'file'];
+
+const clientMetadataSchema = z.object({
+  redirect_uris: z
+    .array(z.string())
+    .min(1, 'redirect_uris must contain at least one URI'),
+  token_endpoint_auth_method: z
+    .enum(TOKEN_ENDPOINT_AUTH_METHODS)
+    .default('none'), // Public clients don't need client_secret
+  grant_types: z
+    .array(z.enum(CLIENT_GRANT_TYPES))
+    .min(1)
+    .default([...CLIENT_GRANT_TYPES]),
+  response_types: z.array(z.literal('code')).min(1).default(['code']),
+  client_name: z.string().optional(),
+  client_uri: z.string().url().optional(),
+  logo_uri: z.string().url().optional(),
+  scope: z.string().default(oauthConfig.oauth_integration.scopes.default_scope),
+  software_id: z.string().optional(),
+  software_version: z.string().optional(),
+});
+
+export type ClientMetadata = z.infer<typeof clientMetadataSchema>;
+
+export interface RegisteredClient extends ClientMetadata {
+  client_id: string;
+  client_id_issued_at: number;
+  client_secret_hash?: string;
+  registration_access_token_hash: string;
+}
+
+// Client information response (RFC 7591 section 3.2.1)
+export interface ClientInformationResponse extends ClientMetadata {
+  client_id: string;
+  client_id_issued_at: number;
+  client_secret?: string;
+  client_secret_expires_at?: number;
+  registration_access_token?: string;
+  registration_client_uri: string;
+}
+
+export interface ClientRegistration {
+  client: RegisteredClient;
+  clientSecret?: string;
+  registrationAccessToken: string;
+}
+
+let clientStore: CacheStore<RegisteredClient> | undefined;
+
+function getClientStore(): CacheStore<RegisteredClient> {
+  return (clientStore ??= createOAuthStore(
+    'clients',
+    config.oauth.clientTtlMs
+  ));
+}
+
+/**
+ * Replaces the client registration store (e.g. with a custom adapter)
+ * @param store - Cache store implementation
+ */
+export function setClientStore(store: CacheStore<RegisteredClient>): void {
+  clientStore = store;
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Compares a presented secret with a stored hash in constant time
+ */
+function matchesHash(secret: string, hash: string): boolean {
+  const actual = Buffer.from(hashToken(secret), 'hex');
+  const expected = Buffer.from(hash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Checks a presented secret against a confidential client's secret
+ * @param client - Registered client
+ * @param clientSecret - Secret presented by the caller
+ * @returns Whether the client has a secret and it matches
+ */
+export function hasClientSecret(
+  client: RegisteredClient,
+  clientSecret: string
+): boolean {
+  return (
+    !!client.client_secret_hash &&
+    matchesHash(clientSecret, client.client_secret_hash)
+  );
+}
+
+/**
+ * Checks a redirect URI against the allowed schemes; plain http is only
+ * accepted for loopback hosts
+ * @param redirectUri - URI to check
+ * @returns Whether the URI may be registered
+ */
+export function isAllowedRedirectUri(redirectUri: string): boolean {
+  try {
+    const url = new URL(redirectUri);
+    const scheme = url.protocol.replace(':', '');
+
+    if (DANGEROUS_SCHEMES.includes(scheme) || url.hash) {
+      return false;
+    }
+    if (
+      scheme === 'http' &&
+      !['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)
+    ) {
+      return false;
+    }
+    return ALLOWED_SCHEMES.includes(scheme);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates client metadata from a registration or update request
+ * @param body - Parsed JSON request body
+ * @returns Metadata with defaults applied
+ * @throws OAuthError invalid_redirect_uri or invalid_client_metadata
+ */
+export function parseClientMetadata(body: unknown): ClientMetadata {
+  const parsed = clientMetadataSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]!;
+    throw new OAuthError(
+      issue.path[0] === 'redirect_uris'
+        ? 'invalid_redirect_uri'
+        : 'invalid_client_metadata',
+      `${issue.path.join('.') || 'body'}: ${issue.message}`
+    );
+  }
+
+  const invalidUri = parsed.data.redirect_uris.find(
+    uri => !isAllowedRedirectUri(uri)
+  );
+  if (invalidUri) {
+    throw new OAuthError(
+      'invalid_redirect_uri',
+      `redirect_uri is not allowed: ${invalidUri}`
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Builds the client information returned by registration and management
+ * endpoints; secrets are only included when they were just issued
+ * @param client - Stored registration
+ * @param issued - Newly issued secret and registration access token
+ * @returns Client information response
+ */
+export function toClientInformation(
+  client: RegisteredClient,
+  issued: { clientSecret?: string; registrationAccessToken?: string } = {}
+): ClientInformationResponse {
+  // Re-parsing keeps only public metadata, dropping the stored hashes
+  const metadata = clientMetadataSchema.parse(client);
+
+  return {
+    ...metadata,
+    client_id: client.client_id,
+    client_id_issued_at: client.client_id_issued_at,
+    ...(client.client_secret_hash && {
+      client_secret_expires_at: 0, // 0 means never expires
+    }),
+    ...(issued.clientSecret && { client_secret: issued.clientSecret }),
+    ...(issued.registrationAccessToken && {
+      registration_access_token: issued.registrationAccessToken,
+    }),
+    registration_client_uri: `${getBaseUrl()}/register/${encodeURIComponent(client.client_id)}`,
+  };
+}
+
+/**
+ * Registers a new client
+ * A client_secret is only issued to confidential clients
+ * @param metadata - Validated client metadata
+ * @returns Stored client with its one-time secrets
+ */
+export async function registerClient(
+  metadata: ClientMetadata
+): Promise<ClientRegistration> {
+  const clientSecret =
+    metadata.token_endpoint_auth_method === 'none' ? undefined : newSecret();
+  const registrationAccessToken = newSecret();
+
+  const client: RegisteredClient = {
+    ...metadata,
+    client_id: `mcp_${randomUUID()}`,
+    client_id_issued_at: Math.floor(Date.now() / 1000),
+    ...(clientSecret && { client_secret_hash: hashToken(clientSecret) }),
+    registration_access_token_hash: hashToken(registrationAccessToken),
+  };
+  await getClientStore().set(client.client_id, client);
+
+  return { client, clientSecret, registrationAccessToken };
+}
+
+/**
+ * Looks up a registered client
+ * @param clientId - Client identifier
+ * @returns Registration, or undefined if unknown or expired
+ */
+export async function getClient(
+  clientId: string
+): Promise<RegisteredClient | undefined> {
+  return clientId ? getClientStore().get(clientId) : undefined;
+}
+
+/**
+ * Replaces a client's metadata (RFC 7592 section 2.2)
+ * A client switching to a confidential auth method is issued a new secret
+ * @param client - Current registration
+ * @param metadata - Validated replacement metadata
+ * @returns Updated client and any newly issued secret
+ */
+export async function updateClient(
+  client: RegisteredClient,
+  metadata: ClientMetadata
+): Promise<{ client: RegisteredClient; clientSecret?: string }> {
+  const confidential = metadata.token_endpoint_auth_method !== 'none';
+  const clientSecret =
+    confidential && !client.client_secret_hash ? newSecret() : undefined;
+
+  const updated: RegisteredClient = {
+    ...metadata,
+    client_id: client.client_id,
+    client_id_issued_at: client.client_id_issued_at,
+    registration_access_token_hash: client.registration_access_token_hash,
+  };
+  if (clientSecret) {
+    updated.client_secret_hash = hashToken(clientSecret);
+  } else if (confidential) {
+    updated.client_secret_hash = client.client_secret_hash;
+  }
+  await getClientStore().set(updated.client_id, updated);
+
+  return { client: updated, clientSecret };
+}
+
+/**
+ * Removes a client registration
+ * @param clientId - Client identifier
+ */
+export async function deleteClient(clientId: string): Promise<void> {
+  await getClientStore().delete(clientId);
+}
+
+/**
+ * Authorizes a client management request with its registration access token
+ * @param clientId - Client identifier from the request path
+ * @param authorization - Authorization header value
+ * @returns The client being managed
+ * @throws OAuthError invalid_token (401) if the client is unknown or the
+ * token does not match, without revealing which
+ */
+export async function authorizeClientManagement(
+  clientId: string,
+  authorization: string | null
+): Promise<RegisteredClient> {
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  const client = token ? await getClient(clientId) : undefined;
+
+  if (
+    !token ||
+    !client ||
+    !matchesHash(token, client.registration_access_token_hash)
+  ) {
+    throw new OAuthError(
+      'invalid_token',
+      'Registration access token is missing or invalid',
+      401
+    );
+  }
+  return client;
+}
+
+/**
+ * Checks whether a grant_type is one clients can register for
+ * @param grantType - grant_type request parameter
+ * @returns True for authorization_code and refresh_token
+ */
+export function isClientGrantType(
+  grantType: string | null
+): grantType is ClientGrantType {
+  return CLIENT_GRANT_TYPES.includes(grantType as ClientGrantType);
+}
+
+/**
+ * Reads client credentials from HTTP Basic auth or the request body
+ * (RFC 6749 section 2.3.1)
+ * @throws OAuthError invalid_client (401) if Basic credentials are not
+ * valid percent-encoding
+ */
+function readClientCredentials(
+  authorization: string | null,
+  params: URLSearchParams
+): { clientId?: string; clientSecret?: string } {
+  const basic = authorization?.match(/^Basic\s+(.+)$/i)?.[1];
+  if (basic) {
+    const decoded = Buffer.from(basic, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      try {
+        return {
+          clientId: decodeURIComponent(decoded.slice(0, separator)),
+          clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+        };
+      } catch {
+        throw new OAuthError(
+          'invalid_client',
+          'Malformed Basic client credentials',
+          401
+        );
+      }
+    }
+  }
+
+  return {
+    clientId: params.get('client_id') || undefined,
+    clientSecret: params.get('client_secret') || undefined,
+  };
+}
+
+/**
+ * Authenticates the client making a token, revocation or introspection
+ * request
+ * Public clients identify themselves with client_id; confidential clients
+ * must also present their client_secret. Each successful authentication
+ * extends the registration's lifetime.
+ * @param authorization - Authorization header value
+ * @param params - Request parameters
+ * @param grantType - Requested grant type, for token requests
+ * @returns Authenticated client
+ * @throws OAuthError invalid_client (401) or unauthorized_client
+ */
+export async function authenticateClient(
+  authorization: string | null,
+  params: URLSearchParams,
+  grantType?: ClientGrantType
+): Promise<RegisteredClient> {
+  const { clientId, clientSecret } = readClientCredentials(
+    authorization,
+    params
+  );
+  const client = clientId ? await getClient(clientId) : undefined;
+  if (!client) {
+    throw new OAuthError('invalid_client', 'Unknown or missing client_id', 401);
+  }
+
+  if (
+    client.client_secret_hash &&
+    (!clientSecret || !hasClientSecret(client, clientSecret))
+  ) {
+    throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+  }
+
+  if (grantType && !client.grant_types.includes(grantType)) {
+    throw new OAuthError(
+      'unauthorized_client',
+      `Client is not registered for the ${grantType} grant`
+    );
+  }
+
+  await getClientStore().set(client.client_id, client);
+  return client;
+}
@@ -0,0 +1,148 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, randomBytes } from 'crypto';
+import { MemoryLRUCache } from './cache.js';
+import { OAuthError } from './errors.js';
+import type { RegisteredClient } from './oauth-clients.js';
+import {
+  createPkcePair,
+  issueAuthorizationCode,
+  redeemAuthorizationCode,
+  setAuthorizationCodeStore,
+} from './oauth-codes.js';
+import type { MCPClientInfo } from './oauth-state.js';
+
+const REDIRECT_URI = 'https://claude.ai/cb';
+const verifier = randomBytes(32).toString('base64url');
+
+const clientInfo: MCPClientInfo = {
+  client_id: 'mcp_client',
+  redirect_uri: REDIRECT_URI,
+  code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+  code_challenge_method: 'S256',
+  docusign_code_verifier: 'proxy-verifier',
+  nonce: 'nonce',
+  timestamp: Date.now(),
+};
+
+const client = (clientId = 'mcp_client') =>
+  ({ client_id: clientId }) as RegisteredClient;
+
+const tokenRequest = (code: string, overrides: Record<string, string> = {}) =>
+  new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: verifier,
+    ...overrides,
+  });
+
+const oauthError = (error: string, message?: RegExp) => (thrown: unknown) =>
+  thrown instanceof OAuthError &&
+  thrown.error === error &&
+  (!message || message.test(thrown.message));
+
+describe('createPkcePair', () => {
+  it('returns an S256 challenge for a random verifier', () => {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+
+    assert.match(codeVerifier, /^[A-Za-z0-9_-]{43}$/);
+    assert.equal(
+      codeChallenge,
+      createHash('sha256').update(codeVerifier).digest('base64url')
+    );
+    assert.notEqual(createPkcePair().codeVerifier, codeVerifier);
+  });
+});
+
+describe('authorization codes', () => {
+  beforeEach(() => {
+    setAuthorizationCodeStore(
+      new MemoryLRUCache({ maxEntries: 100, defaultTtlMs: 60_000 })
+    );
+  });
+
+  it('redeems a proxy code for the Docusign code and proxy verifier', async () => {
+    const code = await issueAuthorizationCode(clientInfo, 'ds-code');
+
+    assert.notEqual(code, 'ds-code');
+    assert.deepEqual(
+      await redeemAuthorizationCode(tokenRequest(code), client()),
+      {
+        code: 'ds-code',
+        codeVerifier: 'proxy-verifier',
+      }
+    );
+  });
+
+  it('only redeems a code once', async () => {
+    const code = await issueAuthorizationCode(clientInfo, 'ds-code');
+    await redeemAuthorizationCode(tokenRequest(code), client());
+
+    await assert.rejects(
+      redeemAuthorizationCode(tokenRequest(code), client()),
+      oauthError('invalid_grant', /invalid or expired/)
+    );
+  });
+
+  it('rejects a wrong code_verifier and burns the code', async () => {
+    const code = await issueAuthorizationCode(clientInfo, 'ds-code');
+    const wrong = randomBytes(32).toString('base64url');
+
+    await assert.rejects(
+      redeemAuthorizationCode(
+        tokenRequest(code, { code_verifier: wrong }),
+        client()
+      ),
+      oauthError('invalid_grant', /code_verifier/)
+    );
+    await assert.rejects(
+      redeemAuthorizationCode(tokenRequest(code), client()),
+      oauthError('invalid_grant', /invalid or expired/)
+    );
+  });
+
+  it('requires a well-formed code_verifier', async () => {
+    const code = await issueAuthorizationCode(clientInfo, 'ds-code');
+
+    await assert.rejects(
+      redeemAuthorizationCode(
+        tokenRequest(code, { code_verifier: 'short' }),
+        client()
+      ),
+      oauthError('invalid_request')
+    );
+  });
+
+  it('rejects codes issued to another client', async () => {
+    const code = await issueAuthorizationCode(clientInfo, 'ds-code');
+
+    await assert.rejects(
+      redeemAuthorizationCode(tokenRequest(code), client('mcp_other')),
+      oauthError('invalid_grant', /another client/)
+    );
+  });
+
+  it('requires the redirect_uri of the authorization request', async () => {
+    const code = await issueAuthorizationCode(clientInfo, 'ds-code');
+
+    await assert.rejects(
+      redeemAuthorizationCode(
+        tokenRequest(code, { redirect_uri: `${REDIRECT_URI}/other` }),
+        client()
+      ),
+      oauthError('invalid_grant', /redirect_uri/)
+    );
+  });
+
+  it('rejects unknown codes, including raw Docusign codes', async () => {
+    await assert.rejects(
+      redeemAuthorizationCode(tokenRequest('ds-code'), client()),
+      oauthError('invalid_grant')
+    );
+    await assert.rejects(
+      redeemAuthorizationCode(tokenRequest(''), client()),
+      oauthError('invalid_request')
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * OAuth Authorization Codes
+ * The proxy runs its own PKCE exchange with Docusign and hands MCP clients
+ * authorization codes of its own. Each code maps to the Docusign code and
+ * proxy verifier behind it, and is only redeemed once the client proves
+ * possession of its S256 code_verifier.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from './config.js';
+import { hashToken, type CacheStore } from './cache.js';
+import { OAuthError } from './errors.js';
+import { getAuthorizationSecrets, Keyring } from './keyring.js';
+import { logger } from './logger.js';
+import { createOAuthStore } from './oauth-store.js';
+import type { RegisteredClient } from './oauth-clients.js';
+import type { MCPClientInfo } from './oauth-state.js';
+
+// code_verifier syntax (RFC 7636 section 4.1)
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+// Docusign code and the verifier needed to exchange it
+export interface DocuSignAuthorizationGrant {
+  code: string;
+  codeVerifier: string;
+}
+
+// Stored under a hash of the proxy's code
+export interface AuthorizationCodeRecord {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  // Keyring-encrypted DocuSignAuthorizationGrant
+  grant: string;
+}
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+let codeStore: CacheStore<AuthorizationCodeRecord> | undefined;
+let keyring: Keyring | undefined;
+
+function getCodeStore(): CacheStore<AuthorizationCodeRecord> {
+  return (codeStore ??= createOAuthStore(
+    'authorization-codes',
+    config.oauth.authorizationCodeTtlMs
+  ));
+}
+
+/**
+ * Replaces the authorization code store (e.g. with a custom adapter)
+ * @param store - Cache store implementation
+ */
+export function setAuthorizationCodeStore(
+  store: CacheStore<AuthorizationCodeRecord>
+): void {
+  codeStore = store;
+}
+
+function getKeyring(): Keyring {
+  return (keyring ??= new Keyring(
+    'authorization-code',
+    getAuthorizationSecrets()
+  ));
+}
+
+function toS256Challenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Generates the proxy's PKCE verifier and S256 challenge for Docusign
+ * @returns Verifier to keep and challenge to send
+ */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  return { codeVerifier, codeChallenge: toS256Challenge(codeVerifier) };
+}
+
+/**
+ * Checks a code_verifier against an S256 code_challenge in constant time
+ */
+function matchesCodeChallenge(
+  codeVerifier: string,
+  codeChallenge: string
+): boolean {
+  const actual = Buffer.from(toS256Challenge(codeVerifier));
+  const expected = Buffer.from(codeChallenge);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Issues a proxy authorization code for a Docusign code
+ * @param mcpClientInfo - Client request recovered from the state
+ * @param docusignCode - Code Docusign returned to the callback
+ * @returns Single-use code to redirect to the MCP client
+ */
+export async function issueAuthorizationCode(
+  mcpClientInfo: MCPClientInfo,
+  docusignCode: string
+): Promise<string> {
+  const code = randomBytes(32).toString('base64url');
+  const grant: DocuSignAuthorizationGrant = {
+    code: docusignCode,
+    codeVerifier: mcpClientInfo.docusign_code_verifier,
+  };
+
+  await getCodeStore().set(hashToken(code), {
+    clientId: mcpClientInfo.client_id,
+    redirectUri: mcpClientInfo.redirect_uri,
+    codeChallenge: mcpClientInfo.code_challenge,
+    grant: getKeyring().encrypt(JSON.stringify(grant)),
+  });
+
+  return code;
+}
+
+/**
+ * Redeems a proxy authorization code from a token request
+ * The code is consumed whether or not the request succeeds, so a code
+ * presented with a wrong verifier cannot be retried.
+ * @param params - Token request parameters
+ * @param client - Authenticated client
+ * @returns Docusign code and the proxy verifier to exchange it with
+ * @throws OAuthError invalid_request if a parameter is missing, or
+ * invalid_grant if the code is unknown, expired, or was issued for another
+ * client, redirect URI or code_challenge
+ */
+export async function redeemAuthorizationCode(
+  params: URLSearchParams,
+  client: RegisteredClient
+): Promise<DocuSignAuthorizationGrant> {
+  const code = params.get('code');
+  const codeVerifier = params.get('code_verifier');
+  if (!code) {
+    throw new OAuthError('invalid_request', 'code parameter is required');
+  }
+  if (!codeVerifier || !CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    throw new OAuthError(
+      'invalid_request',
+      'code_verifier must be 43-128 unreserved characters'
+    );
+  }
+
+  const codes = getCodeStore();
+  const key = hashToken(code);
+  const record = await codes.get(key);
+  if (!record) {
+    throw new OAuthError(
+      'invalid_grant',
+      'Authorization code is invalid or expired'
+    );
+  }
+  await codes.delete(key);
+
+  if (record.clientId !== client.client_id) {
+    throw new OAuthError(
+      'invalid_grant',
+      'Authorization code was issued to another client'
+    );
+  }
+  if (record.redirectUri !== params.get('redirect_uri')) {
+    throw new OAuthError(
+      'invalid_grant',
+      'redirect_uri does not match the authorization request'
+    );
+  }
+  if (!matchesCodeChallenge(codeVerifier, record.codeChallenge)) {
+    logger.warn('Rejected authorization code with a wrong code_verifier', {
+      clientId: client.client_id,
+      context: 'oauth_code',
+    });
+    throw new OAuthError('invalid_grant', 'code_verifier is incorrect');
+  }
+
+  const grant = getKeyring().decrypt(record.grant);
+  if (!grant) {
+    throw new OAuthError(
+      'invalid_grant',
+      'Authorization code is invalid or expired'
+    );
+  }
+  return JSON.parse(grant) as DocuSignAuthorizationGrant;
+}
@@ -3,6 +3,8 @@
  * Replaces the bloated 226-line configuration with focused, practical settings
  */
 
+import { config } from './config.js';
+
 // TypeScript interfaces for type safety
 interface OAuthScopes {
   required: string[];
@@ -15,6 +17,8 @@ interface AuthServer {
   authorization_endpoint: string;
   token_endpoint: string;
   jwks_uri: string;
+  // Empty when revocation cannot be forwarded to Docusign
+  revocation_uri: string;
 }
 
 interface SecuritySettings {
@@ -27,6 +31,8 @@ interface EndpointPaths {
   token: string;
   callback: string;
   register: string;
+  revoke: string;
+  introspect: string;
 }
 
 interface OAuthProvider {
@@ -40,15 +46,16 @@ interface OAuthConfig {
   endpoints: EndpointPaths;
 }
 
-// Streamlined configuration - easy to switch providers
+// Streamlined configuration - hosts follow DOCUSIGN_ENVIRONMENT (see config.ts)
 const oauthConfig: OAuthConfig = {
   // Docusign OAuth provider configuration
   oauth_integration: {
     auth_server: {
-      base_url: 'https://account-d.docusign.com',
+      base_url: config.docusign.baseUrl,
       authorization_endpoint: '/oauth/auth',
       token_endpoint: '/oauth/token',
-      jwks_uri: 'https://account-d.docusign.com/oauth/jwks',
+      jwks_uri: config.docusign.jwksUri,
+      revocation_uri: config.docusign.revocationUri,
     },
     scopes: {
       required: ['signature'],
@@ -70,6 +77,8 @@ const oauthConfig: OAuthConfig = {
     token: '/token',
     callback: '/auth/callback',
     register: '/register',
+    revoke: '/revoke',
+    introspect: '/introspect',
   },
 };
 
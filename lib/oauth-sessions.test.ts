@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryLRUCache } from './cache.js';
+import { config } from './config.js';
+import { OAuthError } from './errors.js';
+import oauthConfig from './oauth-config.js';
+import {
+  createOAuthSession,
+  introspectOAuthToken,
+  parseTokenTypeHint,
+  refreshOAuthSession,
+  resolveOAuthAccessToken,
+  revokeOAuthToken,
+  setOAuthSessionStores,
+} from './oauth-sessions.js';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+const originalMode = config.oauth.tokenMode;
+const { auth_server } = oauthConfig.oauth_integration;
+const originalRevocationUri = auth_server.revocation_uri;
+
+const docusignTokens = (accessToken = 'ds-at', expiresIn = 28800) => ({
+  access_token: accessToken,
+  token_type: 'Bearer',
+  refresh_token: 'ds-rt',
+  expires_in: expiresIn,
+});
+
+const store = <T>() =>
+  new MemoryLRUCache<T>({ maxEntries: 100, defaultTtlMs: 60_000 });
+
+/**
+ * Replaces fetch for calls to Docusign; returns the requests it received
+ */
+function mockDocuSign(
+  respond: (url: string, body: URLSearchParams) => Response
+) {
+  const requests: Array<{ url: string; body: URLSearchParams }> = [];
+  mock.method(globalThis, 'fetch', async (url: string, init: FetchInit) => {
+    const body = new URLSearchParams(init.body as URLSearchParams);
+    requests.push({ url: String(url), body });
+    return respond(String(url), body);
+  });
+  return requests;
+}
+
+for (const mode of ['opaque', 'jwt'] as const) {
+  describe(`OAuth sessions (${mode})`, () => {
+    beforeEach(() => {
+      config.oauth.tokenMode = mode;
+      setOAuthSessionStores({
+        sessions: store(),
+        accessTokens: store(),
+        refreshTokens: store(),
+      });
+    });
+
+    afterEach(() => {
+      config.oauth.tokenMode = originalMode;
+      auth_server.revocation_uri = originalRevocationUri;
+      mock.restoreAll();
+    });
+
+    it('mints tokens that resolve to the Docusign access token', async () => {
+      const tokens = await createOAuthSession(docusignTokens(), 'mcp_client');
+
+      assert.notEqual(tokens.access_token, 'ds-at');
+      assert.notEqual(tokens.refresh_token, 'ds-rt');
+      if (mode === 'jwt') {
+        assert.equal(tokens.access_token.split('.').length, 3);
+      }
+
+      const resolved = await resolveOAuthAccessToken(tokens.access_token);
+      assert.equal(resolved?.docusignAccessToken, 'ds-at');
+      assert.equal(resolved?.session.clientId, 'mcp_client');
+    });
+
+    it('does not resolve unknown or Docusign tokens', async () => {
+      await createOAuthSession(docusignTokens(), 'mcp_client');
+
+      assert.equal(await resolveOAuthAccessToken('ds-at'), undefined);
+      assert.equal(await resolveOAuthAccessToken('a.b.c'), undefined);
+    });
+
+    it('rotates single-use refresh tokens', async () => {
+      const tokens = await createOAuthSession(docusignTokens(), 'mcp_client');
+      const refreshed = await refreshOAuthSession(
+        tokens.refresh_token!,
+        'mcp_client'
+      );
+
+      assert.ok(await resolveOAuthAccessToken(refreshed.access_token));
+      await assert.rejects(
+        refreshOAuthSession(tokens.refresh_token!, 'mcp_client'),
+        OAuthError
+      );
+    });
+
+    it('binds refresh tokens to their client', async () => {
+      const tokens = await createOAuthSession(docusignTokens(), 'mcp_client');
+
+      await assert.rejects(
+        refreshOAuthSession(tokens.refresh_token!, 'mcp_other'),
+        (error: unknown) =>
+          error instanceof OAuthError && error.error === 'invalid_grant'
+      );
+    });
+
+    it('refreshes Docusign tokens that are about to expire', async () => {
+      const requests = mockDocuSign(
+        () => new Response(JSON.stringify(docusignTokens('ds-at-2')))
+      );
+      const tokens = await createOAuthSession(
+        docusignTokens('ds-at', 60),
+        'mcp_client'
+      );
+
+      const [first, second] = await Promise.all([
+        resolveOAuthAccessToken(tokens.access_token),
+        resolveOAuthAccessToken(tokens.access_token),
+      ]);
+
+      assert.equal(first?.docusignAccessToken, 'ds-at-2');
+      assert.equal(second?.docusignAccessToken, 'ds-at-2');
+      assert.equal(requests.length, 1);
+      assert.equal(requests[0]!.body.get('grant_type'), 'refresh_token');
+      assert.equal(requests[0]!.body.get('refresh_token'), 'ds-rt');
+    });
+
+    it('keeps the session when Docusign is briefly unavailable', async () => {
+      mockDocuSign(() => new Response('Service unavailable', { status: 503 }));
+      const tokens = await createOAuthSession(
+        docusignTokens('ds-at', 60),
+        'mcp_client'
+      );
+
+      await assert.rejects(resolveOAuthAccessToken(tokens.access_token));
+
+      mock.restoreAll();
+      mockDocuSign(
+        () => new Response(JSON.stringify(docusignTokens('ds-at-2')))
+      );
+      const resolved = await resolveOAuthAccessToken(tokens.access_token);
+      assert.equal(resolved?.docusignAccessToken, 'ds-at-2');
+    });
+
+    it('ends the session when Docusign rejects the refresh token', async () => {
+      mockDocuSign(
+        () =>
+          new Response(JSON.stringify({ error: 'invalid_grant' }), {
+            status: 400,
+          })
+      );
+      const tokens = await createOAuthSession(
+        docusignTokens('ds-at', 60),
+        'mcp_client'
+      );
+
+      assert.equal(
+        await resolveOAuthAccessToken(tokens.access_token),
+        undefined
+      );
+      assert.deepEqual(
+        await introspectOAuthToken(tokens.refresh_token!, 'mcp_client'),
+        { active: false }
+      );
+    });
+
+    it('introspects only the caller’s own tokens', async () => {
+      const tokens = await createOAuthSession(docusignTokens(), 'mcp_client');
+
+      const access = await introspectOAuthToken(
+        tokens.access_token,
+        'mcp_client'
+      );
+      assert.equal(access.active, true);
+      assert.equal(access.client_id, 'mcp_client');
+      assert.equal(access.token_type, 'Bearer');
+      assert.ok(access.exp! > access.iat!);
+
+      const refresh = await introspectOAuthToken(
+        tokens.refresh_token!,
+        'mcp_client',
+        'refresh_token'
+      );
+      assert.equal(refresh.active, true);
+      assert.equal(refresh.token_type, undefined);
+
+      assert.deepEqual(
+        await introspectOAuthToken(tokens.access_token, 'mcp_other'),
+        { active: false }
+      );
+      assert.deepEqual(await introspectOAuthToken('junk', 'mcp_client'), {
+        active: false,
+      });
+    });
+
+    it('revokes the whole session and forwards to Docusign', async () => {
+      auth_server.revocation_uri = 'https://docusign.example/oauth/revoke';
+      const requests = mockDocuSign(() => new Response(null));
+      const tokens = await createOAuthSession(docusignTokens(), 'mcp_client');
+
+      assert.equal(
+        await revokeOAuthToken(tokens.refresh_token!, 'mcp_client'),
+        true
+      );
+
+      assert.equal(
+        await resolveOAuthAccessToken(tokens.access_token),
+        undefined
+      );
+      assert.deepEqual(
+        requests.map(request => request.body.get('token')).sort(),
+        ['ds-at', 'ds-rt']
+      );
+      assert.equal(
+        await revokeOAuthToken(tokens.refresh_token!, 'mcp_client'),
+        false
+      );
+    });
+
+    it('refuses to revoke another client’s token', async () => {
+      const tokens = await createOAuthSession(docusignTokens(), 'mcp_client');
+
+      await assert.rejects(
+        revokeOAuthToken(tokens.access_token, 'mcp_other'),
+        (error: unknown) =>
+          error instanceof OAuthError && error.error === 'unauthorized_client'
+      );
+      assert.ok(await resolveOAuthAccessToken(tokens.access_token));
+    });
+  });
+}
+
+describe('parseTokenTypeHint', () => {
+  it('ignores unknown hints', () => {
+    assert.equal(parseTokenTypeHint('refresh_token'), 'refresh_token');
+    assert.equal(parseTokenTypeHint('access_token'), 'access_token');
+    assert.equal(parseTokenTypeHint('id_token'), undefined);
+    assert.equal(parseTokenTypeHint(null), undefined);
+  });
+});
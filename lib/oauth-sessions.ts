@@ -0,0 +1,571 @@
+/**
+ * OAuth Sessions
+ * Server-side token mode (OAUTH_TOKEN_MODE=opaque or jwt): /token hands MCP
+ * clients tokens minted here, while the Docusign tokens they stand for stay
+ * encrypted in the OAuth store and are refreshed before they expire.
+ * Opaque access tokens are looked up by hash; JWT access tokens are verified
+ * by signature and name their session. Refresh tokens are always opaque and
+ * single-use. Revoking any token ends its session, which invalidates every
+ * token issued for it.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { config } from './config.js';
+import { hashToken, type CacheStore } from './cache.js';
+import { OAuthError } from './errors.js';
+import { Keyring } from './keyring.js';
+import { logger } from './logger.js';
+import oauthConfig from './oauth-config.js';
+import { createOAuthStore } from './oauth-store.js';
+import {
+  invalidateUserInfo,
+  refreshDocuSignToken,
+  revokeDocuSignToken,
+} from './docusign-service.js';
+import type { OAuthTokenResponse } from './oauth-response-utils.js';
+
+// Docusign access tokens last 8 hours when expires_in is omitted
+const DEFAULT_DOCUSIGN_TOKEN_LIFETIME_S = 8 * 60 * 60;
+
+// Docusign credentials; only ever persisted encrypted
+interface DocuSignCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+export interface OAuthSession {
+  id: string;
+  clientId: string;
+  scope: string;
+  createdAt: number;
+  expiresAt: number;
+  // Keyring-encrypted DocuSignCredentials
+  credentials: string;
+}
+
+// Server-minted token, stored under a hash of the token itself
+export interface OAuthTokenRecord {
+  sessionId: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface OAuthSessionStores {
+  sessions: CacheStore<OAuthSession>;
+  accessTokens: CacheStore<OAuthTokenRecord>;
+  refreshTokens: CacheStore<OAuthTokenRecord>;
+}
+
+export interface ResolvedAccessToken {
+  session: OAuthSession;
+  token: OAuthTokenRecord;
+  docusignAccessToken: string;
+}
+
+export type TokenTypeHint = 'access_token' | 'refresh_token';
+
+// Token introspection response (RFC 7662 section 2.2)
+export interface TokenIntrospection {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  username?: string;
+}
+
+interface FoundToken {
+  session: OAuthSession;
+  token: OAuthTokenRecord;
+  type: TokenTypeHint;
+}
+
+let stores: OAuthSessionStores | undefined;
+let keyring: Keyring | undefined;
+
+// In-flight Docusign refreshes by session, so concurrent tool calls share one
+const pendingRefreshes = new Map<
+  string,
+  Promise<DocuSignCredentials | undefined>
+>();
+
+/**
+ * Whether /token issues server-minted tokens instead of Docusign's own
+ */
+export function isSessionTokenMode(): boolean {
+  return config.oauth.tokenMode !== 'passthrough';
+}
+
+/**
+ * Reads a token_type_hint parameter; unknown hints are ignored (RFC 7009
+ * section 2.1)
+ * @param value - Parameter value
+ * @returns Recognised hint, if any
+ */
+export function parseTokenTypeHint(
+  value: string | null
+): TokenTypeHint | undefined {
+  return value === 'access_token' || value === 'refresh_token'
+    ? value
+    : undefined;
+}
+
+function getStores(): OAuthSessionStores {
+  stores ??= {
+    sessions: createOAuthStore('sessions', config.oauth.refreshTokenTtlMs),
+    accessTokens: createOAuthStore(
+      'access-tokens',
+      config.oauth.accessTokenTtlMs
+    ),
+    refreshTokens: createOAuthStore(
+      'refresh-tokens',
+      config.oauth.refreshTokenTtlMs
+    ),
+  };
+  return stores;
+}
+
+/**
+ * Replaces the session stores (e.g. with custom adapters)
+ * @param custom - Store implementations
+ */
+export function setOAuthSessionStores(custom: OAuthSessionStores): void {
+  stores = custom;
+}
+
+function getKeyring(): Keyring {
+  return (keyring ??= new Keyring('session'));
+}
+
+function encodeJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeJson(part: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+}
+
+function toCredentials(
+  tokens: OAuthTokenResponse,
+  previousRefreshToken?: string
+): DocuSignCredentials {
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token || previousRefreshToken,
+    expiresAt:
+      Date.now() +
+      (tokens.expires_in ?? DEFAULT_DOCUSIGN_TOKEN_LIFETIME_S) * 1000,
+  };
+}
+
+function sealCredentials(credentials: DocuSignCredentials): string {
+  return getKeyring().encrypt(JSON.stringify(credentials));
+}
+
+function openCredentials(session: OAuthSession): DocuSignCredentials | null {
+  const plaintext = getKeyring().decrypt(session.credentials);
+  return plaintext ? (JSON.parse(plaintext) as DocuSignCredentials) : null;
+}
+
+/**
+ * Signs an HS256 JWT access token naming the session in its subject
+ */
+function signAccessToken(
+  session: OAuthSession,
+  token: OAuthTokenRecord
+): string {
+  const header = encodeJson({
+    alg: 'HS256',
+    typ: 'at+jwt',
+    kid: getKeyring().keyId,
+  });
+  const payload = encodeJson({
+    sub: session.id,
+    client_id: session.clientId,
+    scope: session.scope,
+    iat: Math.floor(token.issuedAt / 1000),
+    exp: Math.floor(token.expiresAt / 1000),
+    jti: randomUUID(),
+  });
+  return `${header}.${payload}.${getKeyring().sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * Verifies a JWT access token's signature and expiry
+ * @returns Token record, or undefined if the token is invalid or expired
+ */
+function verifyAccessToken(jwt: string): OAuthTokenRecord | undefined {
+  const [header, payload, signature] = jwt.split('.');
+  if (!header || !payload || !signature) {
+    return undefined;
+  }
+
+  try {
+    const { alg, kid } = decodeJson(header);
+    if (
+      alg !== 'HS256' ||
+      typeof kid !== 'string' ||
+      !getKeyring().verify(`${header}.${payload}`, signature, kid)
+    ) {
+      return undefined;
+    }
+
+    const { sub, iat, exp } = decodeJson(payload);
+    if (
+      typeof sub !== 'string' ||
+      typeof iat !== 'number' ||
+      typeof exp !== 'number' ||
+      exp * 1000 <= Date.now()
+    ) {
+      return undefined;
+    }
+    return { sessionId: sub, issuedAt: iat * 1000, expiresAt: exp * 1000 };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Looks up the record of a server-minted access token
+ */
+async function findAccessToken(
+  accessToken: string
+): Promise<OAuthTokenRecord | undefined> {
+  return config.oauth.tokenMode === 'jwt'
+    ? verifyAccessToken(accessToken)
+    : getStores().accessTokens.get(hashToken(accessToken));
+}
+
+/**
+ * Finds the live session behind a server-minted access or refresh token
+ * @param tokenTypeHint - Token type to look up first
+ */
+async function findToken(
+  token: string,
+  tokenTypeHint?: TokenTypeHint
+): Promise<FoundToken | undefined> {
+  const { sessions, refreshTokens } = getStores();
+  const lookups: Record<
+    TokenTypeHint,
+    () => Promise<OAuthTokenRecord | undefined>
+  > = {
+    access_token: () => findAccessToken(token),
+    refresh_token: () => refreshTokens.get(hashToken(token)),
+  };
+  const types: TokenTypeHint[] =
+    tokenTypeHint === 'refresh_token'
+      ? ['refresh_token', 'access_token']
+      : ['access_token', 'refresh_token'];
+
+  for (const type of types) {
+    const record = await lookups[type]();
+    if (record && record.expiresAt > Date.now()) {
+      const session = await sessions.get(record.sessionId);
+      if (session) {
+        return { session, token: record, type };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Issues a new access and refresh token pair for a session
+ */
+async function issueTokens(session: OAuthSession): Promise<OAuthTokenResponse> {
+  const { accessTokens, refreshTokens } = getStores();
+  const now = Date.now();
+
+  const accessRecord: OAuthTokenRecord = {
+    sessionId: session.id,
+    issuedAt: now,
+    expiresAt: now + config.oauth.accessTokenTtlMs,
+  };
+  let accessToken: string;
+  if (config.oauth.tokenMode === 'jwt') {
+    accessToken = signAccessToken(session, accessRecord);
+  } else {
+    accessToken = randomBytes(32).toString('base64url');
+    await accessTokens.set(
+      hashToken(accessToken),
+      accessRecord,
+      config.oauth.accessTokenTtlMs
+    );
+  }
+
+  const refreshToken = randomBytes(32).toString('base64url');
+  await refreshTokens.set(
+    hashToken(refreshToken),
+    { sessionId: session.id, issuedAt: now, expiresAt: session.expiresAt },
+    session.expiresAt - now
+  );
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: Math.floor(config.oauth.accessTokenTtlMs / 1000),
+    refresh_token: refreshToken,
+    scope: session.scope,
+  };
+}
+
+/**
+ * Starts a session for Docusign tokens obtained with an authorization code
+ * @param tokens - Docusign token response
+ * @param clientId - MCP client the session belongs to
+ * @returns Token response carrying server-minted tokens
+ */
+export async function createOAuthSession(
+  tokens: OAuthTokenResponse,
+  clientId: string
+): Promise<OAuthTokenResponse> {
+  const now = Date.now();
+  const session: OAuthSession = {
+    id: randomUUID(),
+    clientId,
+    // ChatGPT validates the returned scope against the manifest
+    scope: oauthConfig.oauth_integration.scopes.default_scope,
+    createdAt: now,
+    expiresAt: now + config.oauth.refreshTokenTtlMs,
+    credentials: sealCredentials(toCredentials(tokens)),
+  };
+
+  await getStores().sessions.set(
+    session.id,
+    session,
+    config.oauth.refreshTokenTtlMs
+  );
+  logger.info('OAuth session created', {
+    clientId,
+    tokenMode: config.oauth.tokenMode,
+    context: 'oauth_session',
+  });
+
+  return issueTokens(session);
+}
+
+/**
+ * Exchanges a server-minted refresh token for a new token pair
+ * The presented refresh token is consumed and the session extended
+ * @param refreshToken - Refresh token from a previous token response
+ * @param clientId - Client presenting the token, when it identified itself
+ * @returns Token response carrying new server-minted tokens
+ * @throws OAuthError invalid_grant if the token is unknown, expired or was
+ * issued to another client
+ */
+export async function refreshOAuthSession(
+  refreshToken: string,
+  clientId?: string
+): Promise<OAuthTokenResponse> {
+  const { sessions, refreshTokens } = getStores();
+  const key = hashToken(refreshToken);
+  const record = await refreshTokens.get(key);
+  const session = record ? await sessions.get(record.sessionId) : undefined;
+
+  if (!session) {
+    throw new OAuthError(
+      'invalid_grant',
+      'Refresh token is invalid or expired'
+    );
+  }
+  if (clientId && clientId !== session.clientId) {
+    throw new OAuthError(
+      'invalid_grant',
+      'Refresh token was issued to another client'
+    );
+  }
+
+  await refreshTokens.delete(key);
+  const renewed: OAuthSession = {
+    ...session,
+    expiresAt: Date.now() + config.oauth.refreshTokenTtlMs,
+  };
+  await sessions.set(renewed.id, renewed, config.oauth.refreshTokenTtlMs);
+
+  return issueTokens(renewed);
+}
+
+/**
+ * Refreshes a session's Docusign tokens and stores the result
+ * @returns New credentials, or undefined if Docusign rejected the refresh
+ * token and the session was ended
+ * @throws AppError if Docusign is unavailable or rate limited the refresh
+ */
+async function refreshCredentials(
+  session: OAuthSession,
+  credentials: DocuSignCredentials,
+  refreshToken: string
+): Promise<DocuSignCredentials | undefined> {
+  const { sessions } = getStores();
+
+  let tokens: OAuthTokenResponse;
+  try {
+    tokens = await refreshDocuSignToken(refreshToken);
+  } catch (error) {
+    // Only a rejected refresh token ends the session; outages and rate
+    // limits surface as errors and the next call tries again
+    if (error instanceof OAuthError && error.error === 'invalid_grant') {
+      logger.warn('Docusign refresh token rejected; ending OAuth session', {
+        clientId: session.clientId,
+        context: 'oauth_session',
+      });
+      await sessions.delete(session.id);
+      return undefined;
+    }
+    throw error;
+  }
+
+  const refreshed = toCredentials(tokens, refreshToken);
+  await sessions.set(
+    session.id,
+    { ...session, credentials: sealCredentials(refreshed) },
+    session.expiresAt - Date.now()
+  );
+  await invalidateUserInfo(credentials.accessToken);
+
+  return refreshed;
+}
+
+/**
+ * Decrypts a session's Docusign credentials, refreshing them first when the
+ * access token is within OAUTH_TOKEN_REFRESH_SKEW_MS of expiring
+ */
+async function getFreshCredentials(
+  session: OAuthSession
+): Promise<DocuSignCredentials | undefined> {
+  const credentials = openCredentials(session);
+  if (!credentials) {
+    logger.warn('OAuth session credentials could not be decrypted', {
+      clientId: session.clientId,
+      context: 'oauth_session',
+    });
+    return undefined;
+  }
+
+  const { refreshToken } = credentials;
+  if (
+    !refreshToken ||
+    credentials.expiresAt - config.oauth.refreshSkewMs > Date.now()
+  ) {
+    return credentials;
+  }
+
+  let pending = pendingRefreshes.get(session.id);
+  if (!pending) {
+    pending = refreshCredentials(session, credentials, refreshToken).finally(
+      () => pendingRefreshes.delete(session.id)
+    );
+    pendingRefreshes.set(session.id, pending);
+  }
+  return pending;
+}
+
+/**
+ * Resolves a server-minted access token to its session and a usable
+ * Docusign access token
+ * @param accessToken - Bearer token presented by an MCP client
+ * @returns Resolved session, or undefined if the token is not recognised,
+ * has expired, or its session has ended
+ * @throws AppError if Docusign is unavailable while refreshing
+ */
+export async function resolveOAuthAccessToken(
+  accessToken: string
+): Promise<ResolvedAccessToken | undefined> {
+  const { sessions } = getStores();
+
+  const token = await findAccessToken(accessToken);
+  if (!token || token.expiresAt <= Date.now()) {
+    return undefined;
+  }
+
+  const session = await sessions.get(token.sessionId);
+  if (!session) {
+    return undefined;
+  }
+
+  const credentials = await getFreshCredentials(session);
+  return credentials
+    ? { session, token, docusignAccessToken: credentials.accessToken }
+    : undefined;
+}
+
+/**
+ * Describes a server-minted token (RFC 7662)
+ * @param token - Access or refresh token to describe
+ * @param clientId - Authenticated client asking; tokens issued to other
+ * clients are reported as inactive
+ * @param tokenTypeHint - Token type to look up first
+ * @returns Introspection response
+ */
+export async function introspectOAuthToken(
+  token: string,
+  clientId: string,
+  tokenTypeHint?: TokenTypeHint
+): Promise<TokenIntrospection> {
+  const found = await findToken(token, tokenTypeHint);
+  if (!found || found.session.clientId !== clientId) {
+    return { active: false };
+  }
+
+  const { session, token: record, type } = found;
+  return {
+    active: true,
+    scope: session.scope,
+    client_id: session.clientId,
+    ...(type === 'access_token' && { token_type: 'Bearer' }),
+    exp: Math.floor(record.expiresAt / 1000),
+    iat: Math.floor(record.issuedAt / 1000),
+    sub: session.id,
+  };
+}
+
+/**
+ * Revokes a server-minted token (RFC 7009) by ending its session
+ * The Docusign tokens behind the session are revoked with Docusign where
+ * supported, and their cached userinfo dropped.
+ * @param token - Access or refresh token to revoke
+ * @param clientId - Authenticated client making the request
+ * @param tokenTypeHint - Token type to look up first
+ * @returns Whether a session was ended; unknown tokens are not an error
+ * @throws OAuthError unauthorized_client if the token was issued to another
+ * client
+ */
+export async function revokeOAuthToken(
+  token: string,
+  clientId: string,
+  tokenTypeHint?: TokenTypeHint
+): Promise<boolean> {
+  const found = await findToken(token, tokenTypeHint);
+  if (!found) {
+    return false;
+  }
+
+  const { session } = found;
+  if (session.clientId !== clientId) {
+    throw new OAuthError(
+      'unauthorized_client',
+      'Token was issued to another client'
+    );
+  }
+
+  await getStores().sessions.delete(session.id);
+  const credentials = openCredentials(session);
+  if (credentials) {
+    await invalidateUserInfo(credentials.accessToken);
+    await Promise.all([
+      revokeDocuSignToken(credentials.accessToken, 'access_token'),
+      credentials.refreshToken &&
+        revokeDocuSignToken(credentials.refreshToken, 'refresh_token'),
+    ]);
+  }
+
+  logger.info('OAuth session revoked', {
+    clientId,
+    tokenType: found.type,
+    context: 'oauth_session',
+  });
+  return true;
+}
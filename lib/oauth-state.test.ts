@@ -0,0 +1,89 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryLRUCache } from './cache.js';
+import { config } from './config.js';
+import { OAuthError } from './errors.js';
+import {
+  consumeState,
+  encodeState,
+  setStateNonceStore,
+} from './oauth-state.js';
+
+const CLIENT_REQUEST = {
+  client_id: 'mcp_client',
+  redirect_uri: 'https://claude.ai/cb',
+  original_state: 'client-state',
+  code_challenge: 'challenge',
+  code_challenge_method: 'S256',
+  docusign_code_verifier: 'proxy-verifier',
+};
+
+const rejectsWith = (message: RegExp) => (error: unknown) =>
+  error instanceof OAuthError &&
+  error.error === 'invalid_request' &&
+  message.test(error.message);
+
+describe('OAuth state', () => {
+  beforeEach(() => {
+    setStateNonceStore(
+      new MemoryLRUCache({ maxEntries: 100, defaultTtlMs: 60_000 })
+    );
+  });
+
+  it('seals client information that only the server can read', async () => {
+    const state = encodeState(CLIENT_REQUEST);
+
+    assert.ok(!state.includes('claude.ai'));
+    const info = await consumeState(state);
+    assert.deepEqual(
+      { ...info, nonce: undefined, timestamp: undefined },
+      { ...CLIENT_REQUEST, nonce: undefined, timestamp: undefined }
+    );
+  });
+
+  it('rejects a state that was already used', async () => {
+    const state = encodeState(CLIENT_REQUEST);
+    await consumeState(state);
+
+    await assert.rejects(consumeState(state), rejectsWith(/already been used/));
+  });
+
+  it('lets only one of two concurrent callbacks use a state', async () => {
+    const state = encodeState(CLIENT_REQUEST);
+
+    const results = await Promise.allSettled([
+      consumeState(state),
+      consumeState(state),
+    ]);
+    assert.deepEqual(results.map(result => result.status).sort(), [
+      'fulfilled',
+      'rejected',
+    ]);
+  });
+
+  it('rejects forged and tampered states', async () => {
+    const forged = Buffer.from(JSON.stringify(CLIENT_REQUEST)).toString(
+      'base64'
+    );
+    await assert.rejects(consumeState(forged), rejectsWith(/tampered/));
+
+    const [keyId, iv, ciphertext] = encodeState(CLIENT_REQUEST).split('.');
+    const flipped = (ciphertext![0] === 'A' ? 'B' : 'A') + ciphertext!.slice(1);
+    await assert.rejects(
+      consumeState(`${keyId}.${iv}.${flipped}`),
+      rejectsWith(/tampered/)
+    );
+  });
+
+  it('rejects an expired state', async t => {
+    const state = encodeState(CLIENT_REQUEST);
+    const now = Date.now();
+    t.mock.method(
+      Date,
+      'now',
+      () => now + config.security.stateExpirationMs + 1
+    );
+
+    await assert.rejects(consumeState(state), rejectsWith(/expired/));
+  });
+});
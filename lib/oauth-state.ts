@@ -0,0 +1,114 @@
+/**
+ * OAuth State
+ * The state sent to Docusign carries the MCP client's request (redirect URI,
+ * PKCE challenge, original state) and the proxy's own PKCE verifier through
+ * the authorization round-trip.
+ * It is encrypted and authenticated with AES-256-GCM so it can be neither
+ * read nor forged, and each state's nonce is recorded when the callback
+ * consumes it so a state cannot be replayed.
+ */
+
+import { randomUUID } from 'crypto';
+import { config } from './config.js';
+import type { CacheStore } from './cache.js';
+import { OAuthError } from './errors.js';
+import { getAuthorizationSecrets, Keyring } from './keyring.js';
+import { logger } from './logger.js';
+import { createOAuthStore } from './oauth-store.js';
+
+export interface MCPClientInfo {
+  client_id: string;
+  redirect_uri: string;
+  original_state?: string;
+  code_challenge: string;
+  code_challenge_method: string;
+  resource?: string;
+  // Verifier for the proxy's own PKCE exchange with Docusign
+  docusign_code_verifier: string;
+  nonce: string;
+  timestamp: number;
+}
+
+let keyring: Keyring | undefined;
+let nonceStore: CacheStore<true> | undefined;
+
+function getKeyring(): Keyring {
+  return (keyring ??= new Keyring('state', getAuthorizationSecrets()));
+}
+
+function getNonceStore(): CacheStore<true> {
+  return (nonceStore ??= createOAuthStore(
+    'state-nonces',
+    config.security.stateExpirationMs
+  ));
+}
+
+/**
+ * Replaces the store of consumed state nonces (e.g. with a custom adapter)
+ * @param store - Cache store implementation
+ */
+export function setStateNonceStore(store: CacheStore<true>): void {
+  nonceStore = store;
+}
+
+/**
+ * Seals MCP client information into a state parameter
+ * @param info - Client request to carry through authorization
+ * @returns Encrypted, URL-safe state
+ */
+export function encodeState(
+  info: Omit<MCPClientInfo, 'nonce' | 'timestamp'>
+): string {
+  const payload: MCPClientInfo = {
+    ...info,
+    nonce: randomUUID(),
+    timestamp: Date.now(),
+  };
+  return getKeyring().encrypt(JSON.stringify(payload));
+}
+
+/**
+ * Opens a state parameter and marks it as used
+ * @param state - State returned by Docusign
+ * @returns MCP client information sealed by encodeState
+ * @throws OAuthError invalid_request if the state was tampered with, has
+ * expired, or was already used
+ */
+export async function consumeState(state: string): Promise<MCPClientInfo> {
+  const plaintext = getKeyring().decrypt(state);
+  if (!plaintext) {
+    logger.warn('Rejected tampered or unreadable OAuth state', {
+      context: 'oauth_state',
+    });
+    throw new OAuthError(
+      'invalid_request',
+      'State parameter is invalid or has been tampered with'
+    );
+  }
+
+  const info = JSON.parse(plaintext) as MCPClientInfo;
+  const age = Date.now() - info.timestamp;
+  if (age > config.security.stateExpirationMs) {
+    throw new OAuthError('invalid_request', 'State parameter has expired');
+  }
+
+  // Claimed atomically so concurrent callbacks cannot both use the state;
+  // remembered only until the state would have expired anyway
+  const claimed = await getNonceStore().setIfAbsent(
+    info.nonce,
+    true,
+    Math.max(1, config.security.stateExpirationMs - age)
+  );
+  if (!claimed) {
+    logger.warn('Rejected reused OAuth state', {
+      clientId: info.client_id,
+      context: 'oauth_state',
+    });
+    throw new OAuthError(
+      'invalid_request',
+      'State parameter has already been used'
+    );
+  }
+
+  return info;
+}
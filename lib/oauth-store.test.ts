@@ -0,0 +1,95 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCacheStore, MemoryLRUCache, RedisCacheStore } from './cache.js';
+import { config } from './config.js';
+import { OAuthError } from './errors.js';
+import { createOAuthStore, requireSharedOAuthStore } from './oauth-store.js';
+
+const original = { ...config.oauth };
+
+describe('createOAuthStore', () => {
+  afterEach(() => {
+    Object.assign(config.oauth, original);
+  });
+
+  it('defaults to process memory', () => {
+    config.oauth.store = 'memory';
+    assert.ok(createOAuthStore('test', 1000) instanceof MemoryLRUCache);
+  });
+
+  it('keeps each namespace in its own file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'oauth-store-'));
+    try {
+      Object.assign(config.oauth, { store: 'file', storePath: dir });
+      const store = createOAuthStore<{ value: number }>('sessions', 60_000);
+      assert.ok(store instanceof FileCacheStore);
+
+      await store.set('key', { value: 1 });
+      assert.deepEqual(await store.get('key'), { value: 1 });
+      assert.match(await readFile(join(dir, 'sessions.json'), 'utf8'), /key/);
+
+      await store.delete('key');
+      assert.equal(await store.get('key'), undefined);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('expires file entries', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'oauth-store-'));
+    try {
+      Object.assign(config.oauth, { store: 'file', storePath: dir });
+      const store = createOAuthStore<string>('codes', 60_000);
+
+      await store.set('key', 'value', -1);
+      assert.equal(await store.get('key'), undefined);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('uses Redis when configured', () => {
+    Object.assign(config.oauth, {
+      store: 'redis',
+      redisUrl: 'https://redis.example.com',
+      redisToken: 'token',
+    });
+    assert.ok(createOAuthStore('test', 1000) instanceof RedisCacheStore);
+  });
+});
+
+describe('requireSharedOAuthStore', () => {
+  afterEach(() => {
+    delete process.env.VERCEL;
+    Object.assign(config.oauth, original);
+    mock.restoreAll();
+  });
+
+  it('allows any store outside Vercel', () => {
+    config.oauth.store = 'memory';
+    assert.doesNotThrow(() => requireSharedOAuthStore());
+  });
+
+  it('refuses process-local stores on Vercel', () => {
+    mock.method(console, 'error', () => {});
+    process.env.VERCEL = '1';
+    config.oauth.store = 'file';
+
+    assert.throws(
+      () => requireSharedOAuthStore(),
+      (error: unknown) =>
+        error instanceof OAuthError &&
+        error.error === 'temporarily_unavailable' &&
+        error.statusCode === 503
+    );
+  });
+
+  it('allows Redis on Vercel', () => {
+    process.env.VERCEL = '1';
+    config.oauth.store = 'redis';
+    assert.doesNotThrow(() => requireSharedOAuthStore());
+  });
+});
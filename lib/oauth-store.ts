@@ -0,0 +1,70 @@
+/**
+ * OAuth Storage
+ * Creates the stores that hold server-side OAuth state, using the backend
+ * selected by OAUTH_STORE. Each feature gets its own namespace so entries
+ * never collide.
+ */
+
+import { join } from 'path';
+import { config } from './config.js';
+import {
+  FileCacheStore,
+  MemoryLRUCache,
+  RedisCacheStore,
+  type CacheStore,
+} from './cache.js';
+import { OAuthError } from './errors.js';
+import { logger } from './logger.js';
+
+/**
+ * Creates a store for one kind of OAuth record
+ * @param namespace - Feature name, e.g. "sessions"
+ * @param defaultTtlMs - Lifetime of entries written without a TTL
+ * @returns Store backed by memory, a JSON file, or Redis
+ */
+export function createOAuthStore<T>(
+  namespace: string,
+  defaultTtlMs: number
+): CacheStore<T> {
+  const { store, storePath, redisUrl, redisToken } = config.oauth;
+
+  if (store === 'file') {
+    return new FileCacheStore<T>(
+      join(storePath, `${namespace}.json`),
+      defaultTtlMs
+    );
+  }
+  if (store === 'redis') {
+    return new RedisCacheStore<T>({
+      url: redisUrl,
+      token: redisToken,
+      keyPrefix: `docusign-navigator:${namespace}:`,
+      defaultTtlMs,
+    });
+  }
+  return new MemoryLRUCache<T>({
+    maxEntries: config.cache.maxEntries,
+    defaultTtlMs,
+  });
+}
+
+/**
+ * Refuses OAuth requests when records cannot be shared between instances
+ * Vercel runs many short-lived instances that share nothing but Redis, so a
+ * memory or file store would lose codes, sessions and clients between calls
+ * @throws OAuthError temporarily_unavailable (503) on Vercel without Redis
+ */
+export function requireSharedOAuthStore(): void {
+  if (!process.env.VERCEL || config.oauth.store === 'redis') {
+    return;
+  }
+  logger.error('OAuth request refused', 'OAUTH_STORE must be redis on Vercel', {
+    store: config.oauth.store,
+    context: 'oauth-store',
+  });
+  throw new OAuthError(
+    'temporarily_unavailable',
+    'OAuth is unavailable until the server is configured with OAUTH_STORE=redis',
+    503
+  );
+}
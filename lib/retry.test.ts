@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeBackoffMs,
+  fetchWithRetry,
+  getRetryAfterMs,
+  RequestTimeoutError,
+  type RetryPolicy,
+} from './retry.js';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 1000,
+  timeoutMs: 1000,
+  retryableStatuses: [429, 502, 503, 504],
+};
+
+/**
+ * Builds a fetch stub that plays back responses (or errors) in order
+ */
+function fetchSequence(...results: Array<Response | Error>) {
+  const calls: string[] = [];
+  const fetchImpl = (async (url: string) => {
+    calls.push(url);
+    const result = results[Math.min(calls.length, results.length) - 1]!;
+    if (result instanceof Error) throw result;
+    return result;
+  }) as unknown as typeof fetch;
+  return { fetchImpl, calls };
+}
+
+describe('getRetryAfterMs', () => {
+  it('reads Retry-After seconds and dates', () => {
+    assert.equal(
+      getRetryAfterMs(new Response(null, { headers: { 'Retry-After': '2' } })),
+      2000
+    );
+
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    const delay = getRetryAfterMs(
+      new Response(null, { headers: { 'Retry-After': date } })
+    )!;
+    assert.ok(delay > 50_000 && delay <= 60_000);
+  });
+
+  it('falls back to X-RateLimit-Reset when the limit is exhausted', () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 30);
+    const response = new Response(null, {
+      status: 429,
+      headers: { 'X-RateLimit-Reset': reset },
+    });
+    const delay = getRetryAfterMs(response)!;
+    assert.ok(delay > 25_000 && delay <= 30_000);
+  });
+
+  it('ignores X-RateLimit-Reset while requests remain', () => {
+    const response = new Response(null, {
+      headers: {
+        'X-RateLimit-Reset': '9999999999',
+        'X-RateLimit-Remaining': '5',
+      },
+    });
+    assert.equal(getRetryAfterMs(response), null);
+  });
+});
+
+describe('computeBackoffMs', () => {
+  it('grows exponentially with equal jitter, capped at maxDelayMs', () => {
+    const policy = { ...POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+    for (let i = 0; i < 20; i++) {
+      const first = computeBackoffMs(0, policy);
+      const third = computeBackoffMs(2, policy);
+      const capped = computeBackoffMs(10, policy);
+
+      assert.ok(first >= 50 && first <= 100);
+      assert.ok(third >= 200 && third <= 400);
+      assert.ok(capped >= 500 && capped <= 1000);
+    }
+  });
+});
+
+describe('fetchWithRetry', () => {
+  it('retries retryable statuses until success', async () => {
+    const { fetchImpl, calls } = fetchSequence(
+      new Response(null, { status: 503 }),
+      new Response(null, { status: 429 }),
+      new Response('ok')
+    );
+
+    const response = await fetchWithRetry('https://x', {}, POLICY, fetchImpl);
+
+    assert.equal(response.status, 200);
+    assert.equal(calls.length, 3);
+  });
+
+  it('returns non-retryable statuses immediately', async () => {
+    const { fetchImpl, calls } = fetchSequence(
+      new Response(null, { status: 404 })
+    );
+
+    const response = await fetchWithRetry('https://x', {}, POLICY, fetchImpl);
+
+    assert.equal(response.status, 404);
+    assert.equal(calls.length, 1);
+  });
+
+  it('returns the last response once attempts are exhausted', async () => {
+    const { fetchImpl, calls } = fetchSequence(
+      new Response(null, { status: 502 })
+    );
+
+    const response = await fetchWithRetry('https://x', {}, POLICY, fetchImpl);
+
+    assert.equal(response.status, 502);
+    assert.equal(calls.length, POLICY.maxAttempts);
+  });
+
+  it('does not wait out a Retry-After longer than maxDelayMs', async () => {
+    const { fetchImpl, calls } = fetchSequence(
+      new Response(null, { status: 429, headers: { 'Retry-After': '3600' } })
+    );
+
+    const response = await fetchWithRetry('https://x', {}, POLICY, fetchImpl);
+
+    assert.equal(response.status, 429);
+    assert.equal(calls.length, 1);
+  });
+
+  it('retries network errors and rethrows the last one', async () => {
+    const { fetchImpl, calls } = fetchSequence(new TypeError('fetch failed'));
+
+    await assert.rejects(
+      fetchWithRetry('https://x', {}, POLICY, fetchImpl),
+      TypeError
+    );
+    assert.equal(calls.length, POLICY.maxAttempts);
+  });
+
+  it('aborts slow attempts with a RequestTimeoutError', async () => {
+    const hanging = ((_url: string, init: FetchInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () =>
+          reject(new Error('aborted'))
+        );
+      })) as unknown as typeof fetch;
+
+    await assert.rejects(
+      fetchWithRetry(
+        'https://x',
+        {},
+        { ...POLICY, maxAttempts: 1, timeoutMs: 10 },
+        hanging
+      ),
+      RequestTimeoutError
+    );
+  });
+});
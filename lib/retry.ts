@@ -0,0 +1,188 @@
+/**
+ * HTTP Retry Utilities
+ * Retries transient failures with jittered exponential backoff, honours
+ * Retry-After and Docusign rate-limit headers, and enforces per-attempt
+ * timeouts via AbortController
+ */
+
+import { logger } from './logger.js';
+import { config } from './config.js';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: config.retry.maxAttempts,
+  baseDelayMs: config.retry.baseDelayMs,
+  maxDelayMs: config.retry.maxDelayMs,
+  timeoutMs: config.retry.timeoutMs,
+  retryableStatuses: [429, 502, 503, 504],
+};
+
+/**
+ * Error raised when every attempt of a request timed out
+ */
+export class RequestTimeoutError extends Error {
+  constructor(
+    message: string,
+    public timeoutMs: number
+  ) {
+    super(message);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Reads how long the server asked us to wait before retrying
+ * Checks Retry-After (seconds or HTTP date), then Docusign's
+ * X-RateLimit-Reset (epoch seconds) when the limit is exhausted
+ * @param response - HTTP response
+ * @returns Delay in milliseconds, or null if the server gave no hint
+ */
+export function getRetryAfterMs(response: Response): number | null {
+  const retryAfter = response.headers.get('Retry-After');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  const reset = response.headers.get('X-RateLimit-Reset');
+  if (reset && (response.status === 429 || remaining === '0')) {
+    const resetSeconds = Number(reset);
+    if (!isNaN(resetSeconds)) {
+      return Math.max(0, resetSeconds * 1000 - Date.now());
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Computes a jittered exponential backoff delay
+ * Uses "equal jitter": half the exponential delay plus a random half
+ * @param attempt - Zero-based attempt that just failed
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt
+  );
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Performs a single fetch attempt with a timeout
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: FetchInit,
+  timeoutMs: number,
+  fetchImpl: typeof fetch
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetchImpl(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new RequestTimeoutError(
+        `Request timed out after ${timeoutMs}ms`,
+        timeoutMs
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetches a URL, retrying transient failures
+ * Retries network errors, timeouts and retryable statuses. Returns the last
+ * response (which may be a non-OK status) once retries are exhausted or the
+ * server asks for a wait longer than maxDelayMs.
+ * @param url - Request URL
+ * @param init - Fetch options
+ * @param policy - Retry policy
+ * @param fetchImpl - Fetch implementation (injectable for testing)
+ * @returns Final HTTP response
+ * @throws RequestTimeoutError or the network error from the final attempt
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: FetchInit = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  fetchImpl: typeof fetch = fetch
+): Promise<Response> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= maxAttempts - 1;
+    let delayMs: number;
+
+    try {
+      const response = await fetchWithTimeout(
+        url,
+        init,
+        policy.timeoutMs,
+        fetchImpl
+      );
+
+      if (
+        response.ok ||
+        isLastAttempt ||
+        !policy.retryableStatuses.includes(response.status)
+      ) {
+        return response;
+      }
+
+      const retryAfterMs = getRetryAfterMs(response);
+      if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+        // Waiting this long would stall the tool call; let the caller report it
+        return response;
+      }
+
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+      delayMs = retryAfterMs ?? computeBackoffMs(attempt, policy);
+
+      logger.warn('Retrying Docusign API request', {
+        status: response.status,
+        attempt: attempt + 1,
+        delayMs: Math.round(delayMs),
+      });
+    } catch (error) {
+      if (isLastAttempt) {
+        throw error;
+      }
+
+      delayMs = computeBackoffMs(attempt, policy);
+      logger.warn('Retrying Docusign API request after error', {
+        error: (error as Error).message,
+        attempt: attempt + 1,
+        delayMs: Math.round(delayMs),
+      });
+    }
+
+    await sleep(delayMs);
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Embedding Providers
+ * Turn agreement and query text into vectors for semantic search.
+ * The hash embedder works offline and is deterministic; hosted providers
+ * call an embeddings API and give much better synonym coverage.
+ */
+
+import { z } from 'zod';
+import { config } from '../config.js';
+import { AppError } from '../errors.js';
+import { logger } from '../logger.js';
+import { fetchWithRetry, RequestTimeoutError } from '../retry.js';
+import { tokenize, isStopWord } from './tokenizer.js';
+
+// Hosted models distinguish stored documents from search queries
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbeddingProvider {
+  // Stable identifier of the provider and model; vectors from different
+  // providers are not comparable, so indexes are keyed by it
+  readonly id: string;
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+// Contract vocabulary folded onto shared concepts so the hash embedder can
+// match common synonyms such as "NDA" and "confidentiality agreement"
+const CONCEPT_ALIASES: Record<string, string> = {
+  nda: 'confidentiality',
+  confidential: 'confidentiality',
+  confidentiality: 'confidentiality',
+  disclosure: 'confidentiality',
+  secrecy: 'confidentiality',
+  msa: 'master-services',
+  master: 'master-services',
+  sow: 'statement-of-work',
+  lease: 'lease',
+  rental: 'lease',
+  tenancy: 'lease',
+  landlord: 'lease',
+  tenant: 'lease',
+  employment: 'employment',
+  employee: 'employment',
+  contractor: 'services',
+  consulting: 'services',
+  service: 'services',
+  purchase: 'procurement',
+  procurement: 'procurement',
+  supply: 'procurement',
+  vendor: 'procurement',
+  supplier: 'procurement',
+  license: 'license',
+  licence: 'license',
+  eula: 'license',
+  dpa: 'data-protection',
+  privacy: 'data-protection',
+  gdpr: 'data-protection',
+  sla: 'service-level',
+  termination: 'termination',
+  terminate: 'termination',
+  renewal: 'renewal',
+  renew: 'renewal',
+};
+
+// Hosted APIs cap the number of inputs per request
+const EMBEDDING_BATCH_SIZE = 96;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scales a vector to unit length so dot products are cosine similarities
+ */
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? vector.map(v => v / length) : vector;
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ * @returns Similarity in [-1, 1], or 0 if either vector is empty
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Deterministic feature-hashing embedder
+ * Words, character trigrams (for spelling variants) and contract concepts
+ * are hashed into a fixed number of signed buckets
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly dimensions = config.search.hashDimensions) {
+    this.id = `hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions]! += sign * weight;
+    };
+
+    for (const token of tokenize(text)) {
+      if (isStopWord(token)) continue;
+      add(`w:${token}`, 1);
+
+      const concept = CONCEPT_ALIASES[token];
+      if (concept) {
+        add(`c:${concept}`, 2);
+      }
+
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+// OpenAI-compatible and Voyage AI embeddings responses share this shape
+const embeddingsResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      index: z.number(),
+      embedding: z.array(z.number()),
+    })
+  ),
+});
+
+interface HostedEmbeddingOptions {
+  apiUrl: string;
+  apiKey: string;
+  model: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Base for providers that POST batches of text to a hosted embeddings API
+ */
+abstract class HostedEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    protected readonly name: string,
+    protected readonly options: HostedEmbeddingOptions
+  ) {
+    this.id = `${name}-${options.model}`;
+  }
+
+  protected abstract buildBody(
+    texts: string[],
+    inputType: EmbeddingInputType
+  ): Record<string, unknown>;
+
+  async embed(
+    texts: string[],
+    inputType: EmbeddingInputType
+  ): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      vectors.push(...(await this.embedBatch(batch, inputType)));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(
+    texts: string[],
+    inputType: EmbeddingInputType
+  ): Promise<number[][]> {
+    let response: Response;
+    try {
+      response = await fetchWithRetry(
+        `${this.options.apiUrl.replace(/\/+$/, '')}/embeddings`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${this.options.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(this.buildBody(texts, inputType)),
+        },
+        undefined,
+        this.options.fetch
+      );
+    } catch (error) {
+      if (error instanceof RequestTimeoutError) {
+        throw new AppError(`${this.name} embeddings request timed out`, 504);
+      }
+      throw new AppError(`${this.name} embeddings service unavailable`, 503);
+    }
+
+    if (!response.ok) {
+      logger.warn('Embeddings request failed', {
+        provider: this.name,
+        status: response.status,
+        context: 'semantic_search',
+      });
+      throw new AppError(
+        `${this.name} embeddings request failed with status ${response.status}`,
+        502
+      );
+    }
+
+    const parsed = embeddingsResponseSchema.safeParse(await response.json());
+    if (!parsed.success || parsed.data.data.length !== texts.length) {
+      throw new AppError(
+        `Unexpected response from ${this.name} embeddings API`,
+        502
+      );
+    }
+
+    return [...parsed.data.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(item.embedding));
+  }
+}
+
+/**
+ * OpenAI embeddings, or any API implementing POST /embeddings the same way
+ * (Azure OpenAI, Ollama, LiteLLM, ...)
+ */
+export class OpenAIEmbeddingProvider extends HostedEmbeddingProvider {
+  constructor(options: HostedEmbeddingOptions) {
+    super('OpenAI', options);
+  }
+
+  protected buildBody(texts: string[]): Record<string, unknown> {
+    return { model: this.options.model, input: texts };
+  }
+}
+
+/**
+ * Voyage AI embeddings, which embed queries and documents differently
+ */
+export class VoyageEmbeddingProvider extends HostedEmbeddingProvider {
+  constructor(options: HostedEmbeddingOptions) {
+    super('Voyage', options);
+  }
+
+  protected buildBody(
+    texts: string[],
+    inputType: EmbeddingInputType
+  ): Record<string, unknown> {
+    return { model: this.options.model, input: texts, input_type: inputType };
+  }
+}
+
+/**
+ * Creates the embedding provider selected by SEARCH_EMBEDDING_PROVIDER
+ * @returns Configured provider (hash embedder by default)
+ * @throws AppError 500 if a hosted provider has no API key
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const {
+    embeddingProvider,
+    embeddingApiKey,
+    embeddingApiUrl,
+    embeddingModel,
+  } = config.search;
+
+  if (embeddingProvider === 'hash') {
+    return new HashEmbeddingProvider();
+  }
+  if (!embeddingApiKey) {
+    throw new AppError(
+      `SEARCH_EMBEDDING_API_KEY is required for the ${embeddingProvider} embedding provider`,
+      500
+    );
+  }
+
+  if (embeddingProvider === 'voyage') {
+    return new VoyageEmbeddingProvider({
+      apiUrl: embeddingApiUrl || 'https://api.voyageai.com/v1',
+      apiKey: embeddingApiKey,
+      model: embeddingModel || 'voyage-3.5-lite',
+    });
+  }
+  return new OpenAIEmbeddingProvider({
+    apiUrl: embeddingApiUrl || 'https://api.openai.com/v1',
+    apiKey: embeddingApiKey,
+    model: embeddingModel || 'text-embedding-3-small',
+  });
+}
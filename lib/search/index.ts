@@ -0,0 +1,29 @@
+export { tokenize, normalizeToken, isStopWord } from './tokenizer.js';
+export { parseSearchQuery } from './query-parser.js';
+export type { ParsedQuery, QueryClause, TextClause } from './query-parser.js';
+export { SearchQueryError, describeQualifiers } from './qualifiers.js';
+export type { FieldClause } from './qualifiers.js';
+export { rankAgreements, FIELD_BOOSTS } from './ranking.js';
+export type { SearchHit, SearchField } from './ranking.js';
+export {
+  buildPassages,
+  matchesQueryQualifiers,
+  rankPassages,
+} from './passages.js';
+export type { Passage, PassageHit } from './passages.js';
+export { buildSnippet, containsAny } from './snippet.js';
+export {
+  createEmbeddingProvider,
+  cosineSimilarity,
+  HashEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  VoyageEmbeddingProvider,
+} from './embeddings.js';
+export type { EmbeddingProvider, EmbeddingInputType } from './embeddings.js';
+export {
+  buildEmbeddingText,
+  indexAgreements,
+  rankAgreementsHybrid,
+  setSemanticIndexCache,
+} from './semantic.js';
+export type { HybridSearchHit, SemanticIndex } from './semantic.js';
@@ -0,0 +1,188 @@
+/**
+ * Passage Search
+ * Splits extracted agreement text into paragraph-sized passages and ranks
+ * them with BM25 against a parsed query, so clause wording such as
+ * "limitation of liability" can be found and cited by page.
+ */
+
+import type { Agreement } from '../mcp/types.js';
+import type { DocumentChunk } from '../documents/index.js';
+import type { ParsedQuery, QueryClause, TextClause } from './query-parser.js';
+import { matchesQualifier } from './qualifiers.js';
+import { countOccurrences } from './ranking.js';
+import { tokenize, isStopWord } from './tokenizer.js';
+
+// Passages are built from whole lines up to this many characters
+const PASSAGE_CHARS = 600;
+
+// BM25 tuning, matching agreement ranking
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface Passage {
+  agreement: Agreement;
+  pageNumber: number;
+  text: string;
+}
+
+export interface PassageHit {
+  passage: Passage;
+  score: number;
+}
+
+interface IndexedPassage {
+  passage: Passage;
+  tokens: string[];
+}
+
+/**
+ * Splits an agreement's chunks into passages, grouping consecutive lines
+ * (clause headings with their text) without crossing page boundaries
+ * @param agreement - Agreement the text belongs to
+ * @param chunks - Page-referenced chunks from document extraction
+ * @returns Passages in document order
+ */
+export function buildPassages(
+  agreement: Agreement,
+  chunks: DocumentChunk[]
+): Passage[] {
+  const passages: Passage[] = [];
+
+  for (const chunk of chunks) {
+    let current = '';
+    const flush = () => {
+      if (current.trim()) {
+        passages.push({
+          agreement,
+          pageNumber: chunk.pageNumber,
+          text: current.trim(),
+        });
+      }
+      current = '';
+    };
+
+    for (const paragraph of chunk.text.split(/\n{2,}/)) {
+      for (const line of paragraph.split('\n')) {
+        if (current && current.length + line.length + 1 > PASSAGE_CHARS) {
+          flush();
+        }
+        current = current ? `${current} ${line}` : line;
+      }
+      flush();
+    }
+  }
+
+  return passages;
+}
+
+/**
+ * Checks whether an agreement satisfies the field qualifiers of any query
+ * group, so documents that cannot match are never downloaded
+ * @param agreement - Candidate agreement
+ * @param query - Parsed search query
+ * @returns True if some group's field clauses all hold for the agreement
+ */
+export function matchesQueryQualifiers(
+  agreement: Agreement,
+  query: ParsedQuery
+): boolean {
+  return query.groups.some(group =>
+    group.every(clause => {
+      if (clause.type !== 'field') return true;
+      const matches = matchesQualifier(agreement, clause);
+      return clause.negated ? !matches : matches;
+    })
+  );
+}
+
+/**
+ * Checks whether a clause matches a passage; field qualifiers apply to the
+ * passage's agreement
+ */
+function clauseMatches(doc: IndexedPassage, clause: QueryClause): boolean {
+  if (clause.type === 'field') {
+    return matchesQualifier(doc.passage.agreement, clause);
+  }
+  return countOccurrences(doc.tokens, clause) > 0;
+}
+
+/**
+ * Ranks passages against a parsed query
+ * A passage matches when it satisfies any OR group; its score is the best
+ * group's BM25 score, with phrases weighted by their meaningful tokens
+ * @param passages - Passages to search
+ * @param query - Parsed search query
+ * @returns Matching passages sorted by descending relevance
+ */
+export function rankPassages(
+  passages: Passage[],
+  query: ParsedQuery
+): PassageHit[] {
+  const docs: IndexedPassage[] = passages.map(passage => ({
+    passage,
+    tokens: tokenize(passage.text),
+  }));
+  const avgLength =
+    docs.reduce((sum, doc) => sum + doc.tokens.length, 0) /
+      Math.max(docs.length, 1) || 1;
+
+  const idfCache = new Map<TextClause, number>();
+  const idf = (clause: TextClause): number => {
+    let value = idfCache.get(clause);
+    if (value === undefined) {
+      const df = docs.filter(
+        doc => countOccurrences(doc.tokens, clause) > 0
+      ).length;
+      value = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      idfCache.set(clause, value);
+    }
+    return value;
+  };
+
+  const scoreClause = (doc: IndexedPassage, clause: QueryClause): number => {
+    if (clause.type === 'field') return 0;
+
+    const tf = countOccurrences(doc.tokens, clause);
+    if (tf === 0) return 0;
+    const norm = 1 - BM25_B + BM25_B * (doc.tokens.length / avgLength);
+    const weightedTf = tf / norm;
+    const weight =
+      clause.type === 'phrase'
+        ? clause.tokens.filter(token => !isStopWord(token)).length
+        : 1;
+
+    return (
+      (weight * idf(clause) * weightedTf * (BM25_K1 + 1)) /
+      (weightedTf + BM25_K1)
+    );
+  };
+
+  const hits: PassageHit[] = [];
+  for (const doc of docs) {
+    const matchingGroups = query.groups.filter(group =>
+      group.every(clause =>
+        clause.negated
+          ? !clauseMatches(doc, clause)
+          : clauseMatches(doc, clause)
+      )
+    );
+    if (matchingGroups.length === 0) continue;
+
+    const score = Math.max(
+      ...matchingGroups.map(group =>
+        group
+          .filter(clause => !clause.negated)
+          .reduce((sum, clause) => sum + scoreClause(doc, clause), 0)
+      )
+    );
+    // Qualifier-only groups match every passage; keep only text matches
+    if (score > 0) {
+      hits.push({ passage: doc.passage, score });
+    }
+  }
+
+  return hits
+    .map((hit, index) => ({ hit, index }))
+    .sort((a, b) => b.hit.score - a.hit.score || a.index - b.index)
+    .map(({ hit }) => hit);
+}
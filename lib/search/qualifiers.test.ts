@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Agreement } from '../mcp/types.js';
+import { matchesQualifier, parseQualifier } from './qualifiers.js';
+
+const withValue = (total_agreement_value: string) =>
+  ({ id: 'a', provisions: { total_agreement_value } }) as Agreement;
+
+describe('value qualifier', () => {
+  it('compares values written in either separator convention', () => {
+    const clause = parseQualifier('value', '>=50.000', false);
+
+    assert.deepEqual(clause.numberComparison, { operator: '>=', value: 50000 });
+    assert.equal(matchesQualifier(withValue('EUR 60.000,00'), clause), true);
+    assert.equal(matchesQualifier(withValue('$50,000.00'), clause), true);
+    assert.equal(matchesQualifier(withValue('EUR 10.000,50'), clause), false);
+  });
+
+  it('accepts comma-decimal bounds in ranges', () => {
+    const clause = parseQualifier('value', '10.000,50..20.000', false);
+
+    assert.deepEqual(clause.numberComparison, {
+      operator: 'range',
+      value: 10000.5,
+      upper: 20000,
+    });
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Search Field Qualifiers
+ * Defines the `field:value` qualifiers accepted by the search query parser
+ * and evaluates them against agreements.
+ *
+ * Text qualifiers match when the value's tokens appear in the field
+ * (`party:"Acme Corp"`, `type:NDA`). Date and number qualifiers accept a
+ * comparison (`expires:<2026-12-31`, `value:>=50000`), an exact value, or an
+ * inclusive range (`effective:2024-01-01..2024-12-31`).
+ */
+
+import type { Agreement } from '../mcp/types.js';
+import { parseNumericValue } from '../agreement-value.js';
+import { tokenize } from './tokenizer.js';
+
+export type QualifierKind = 'text' | 'date' | 'number';
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=' | 'range';
+
+export interface Comparison<T> {
+  operator: ComparisonOperator;
+  value: T;
+  upper?: T;
+}
+
+// A parsed `field:value` requirement
+export interface FieldClause {
+  type: 'field';
+  raw: string;
+  qualifier: string;
+  kind: QualifierKind;
+  negated: boolean;
+  tokens: string[];
+  dateComparison?: Comparison<string>;
+  numberComparison?: Comparison<number>;
+}
+
+interface QualifierDefinition {
+  kind: QualifierKind;
+  description: string;
+  extract: (agreement: Agreement) => string[];
+}
+
+const partyNames = (agreement: Agreement): string[] =>
+  (agreement.parties || []).flatMap(party =>
+    [party.preferred_name, party.name_in_agreement].filter(
+      (name): name is string => !!name
+    )
+  );
+
+const optional = (value?: string): string[] => (value ? [value] : []);
+
+// Supported qualifiers keyed by name; aliases share a definition
+const QUALIFIERS: Record<string, QualifierDefinition> = {
+  title: {
+    kind: 'text',
+    description: 'agreement title',
+    extract: a => optional(a.title),
+  },
+  type: {
+    kind: 'text',
+    description: 'agreement type',
+    extract: a => optional(a.type),
+  },
+  category: {
+    kind: 'text',
+    description: 'agreement category',
+    extract: a => optional(a.category),
+  },
+  status: {
+    kind: 'text',
+    description: 'agreement status',
+    extract: a => optional(a.status),
+  },
+  file: {
+    kind: 'text',
+    description: 'source file name',
+    extract: a => optional(a.file_name),
+  },
+  summary: {
+    kind: 'text',
+    description: 'agreement summary',
+    extract: a => optional(a.summary),
+  },
+  party: {
+    kind: 'text',
+    description: 'party preferred name or name in agreement',
+    extract: partyNames,
+  },
+  effective: {
+    kind: 'date',
+    description: 'effective date (YYYY-MM-DD)',
+    extract: a => optional(a.provisions?.effective_date),
+  },
+  expires: {
+    kind: 'date',
+    description: 'expiration date (YYYY-MM-DD)',
+    extract: a => optional(a.provisions?.expiration_date),
+  },
+  created: {
+    kind: 'date',
+    description: 'creation date (YYYY-MM-DD)',
+    extract: a => optional(a.metadata?.created_at),
+  },
+  value: {
+    kind: 'number',
+    description: 'total agreement value',
+    extract: a => optional(a.provisions?.total_agreement_value),
+  },
+};
+
+const QUALIFIER_ALIASES: Record<string, string> = {
+  parties: 'party',
+  filename: 'file',
+  expiration: 'expires',
+  expiry: 'expires',
+  effective_date: 'effective',
+  expiration_date: 'expires',
+  created_at: 'created',
+  total_value: 'value',
+};
+
+/**
+ * Error raised for malformed or unsupported query syntax
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+/**
+ * Describes all supported qualifiers for help and error messages
+ * @returns Human-readable qualifier list
+ */
+export function describeQualifiers(): string {
+  return Object.entries(QUALIFIERS)
+    .map(([name, definition]) => `${name}: ${definition.description}`)
+    .join('; ');
+}
+
+/**
+ * Parses a comparison prefix and value, e.g. `<=2026-12-31` or `10..20`
+ */
+function parseComparison<T>(
+  rawValue: string,
+  parseValue: (value: string) => T | null
+): Comparison<T> | null {
+  const rangeParts = rawValue.split('..');
+  if (rangeParts.length === 2) {
+    const lower = parseValue(rangeParts[0]!);
+    const upper = parseValue(rangeParts[1]!);
+    return lower !== null && upper !== null
+      ? { operator: 'range', value: lower, upper }
+      : null;
+  }
+
+  const match = rawValue.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+
+  const value = parseValue(match[2]!);
+  if (value === null) return null;
+
+  return {
+    operator: (match[1] as ComparisonOperator | undefined) || '=',
+    value,
+  };
+}
+
+/**
+ * Normalizes a date string to YYYY-MM-DD, or null if it is not a date
+ */
+function parseDateValue(value: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds a field clause from a qualifier name and raw value
+ * @param name - Qualifier name as typed (case-insensitive)
+ * @param rawValue - Value following the colon, unquoted
+ * @param negated - Whether the clause excludes matches
+ * @returns Parsed field clause
+ * @throws SearchQueryError for unknown qualifiers or invalid values
+ */
+export function parseQualifier(
+  name: string,
+  rawValue: string,
+  negated: boolean
+): FieldClause {
+  const lowerName = name.toLowerCase();
+  const qualifier = QUALIFIER_ALIASES[lowerName] || lowerName;
+  const definition = QUALIFIERS[qualifier];
+
+  if (!definition) {
+    throw new SearchQueryError(
+      `Unknown search qualifier "${name}:". Supported qualifiers: ${describeQualifiers()}`
+    );
+  }
+
+  const clause: FieldClause = {
+    type: 'field',
+    raw: `${name}:${rawValue}`,
+    qualifier,
+    kind: definition.kind,
+    negated,
+    tokens: [],
+  };
+
+  if (definition.kind === 'text') {
+    clause.tokens = tokenize(rawValue);
+    if (clause.tokens.length === 0) {
+      throw new SearchQueryError(`Qualifier "${name}:" needs a value`);
+    }
+  } else if (definition.kind === 'date') {
+    const comparison = parseComparison(rawValue, parseDateValue);
+    if (!comparison) {
+      throw new SearchQueryError(
+        `Invalid date "${rawValue}" for "${name}:". Use YYYY-MM-DD, optionally with <, <=, >, >= or a range like 2025-01-01..2025-12-31`
+      );
+    }
+    clause.dateComparison = comparison;
+  } else {
+    const comparison = parseComparison(rawValue, parseNumericValue);
+    if (!comparison) {
+      throw new SearchQueryError(
+        `Invalid number "${rawValue}" for "${name}:". Use a number, optionally with <, <=, >, >= or a range like 10000..50000`
+      );
+    }
+    clause.numberComparison = comparison;
+  }
+
+  return clause;
+}
+
+/**
+ * Applies a comparison to a value
+ */
+function compare<T extends string | number>(
+  actual: T,
+  comparison: Comparison<T>
+): boolean {
+  const { operator, value, upper } = comparison;
+  switch (operator) {
+    case '<':
+      return actual < value;
+    case '<=':
+      return actual <= value;
+    case '>':
+      return actual > value;
+    case '>=':
+      return actual >= value;
+    case 'range':
+      return actual >= value && upper !== undefined && actual <= upper;
+    default:
+      return actual === value;
+  }
+}
+
+/**
+ * Checks whether a token sequence appears within a token list
+ */
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  for (let i = 0; i <= haystack.length - needle.length; i++) {
+    if (needle.every((token, j) => haystack[i + j] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Evaluates a field clause against an agreement, ignoring negation
+ * @param agreement - Agreement to test
+ * @param clause - Parsed field clause
+ * @returns True if any value of the field satisfies the clause
+ */
+export function matchesQualifier(
+  agreement: Agreement,
+  clause: FieldClause
+): boolean {
+  const values = QUALIFIERS[clause.qualifier]!.extract(agreement);
+
+  return values.some(value => {
+    if (clause.dateComparison) {
+      const date = parseDateValue(value);
+      return date !== null && compare(date, clause.dateComparison);
+    }
+    if (clause.numberComparison) {
+      const number = parseNumericValue(value);
+      return number !== null && compare(number, clause.numberComparison);
+    }
+    return containsSequence(tokenize(value), clause.tokens);
+  });
+}
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSearchQuery } from './query-parser.js';
+import { SearchQueryError, type FieldClause } from './qualifiers.js';
+
+describe('parseSearchQuery', () => {
+  it('treats bare words as required terms', () => {
+    const { groups } = parseSearchQuery('master services acme');
+
+    assert.equal(groups.length, 1);
+    assert.deepEqual(
+      groups[0]!.map(clause => [clause.type, clause.tokens]),
+      [
+        ['term', ['master']],
+        ['term', ['service']],
+        ['term', ['acme']],
+      ]
+    );
+  });
+
+  it('keeps quoted text as a phrase', () => {
+    const [clause] = parseSearchQuery('"limitation of liability"').groups[0]!;
+
+    assert.equal(clause!.type, 'phrase');
+    assert.deepEqual(clause!.tokens, ['limitation', 'of', 'liability']);
+  });
+
+  it('drops stop words and ignores AND', () => {
+    const { groups } = parseSearchQuery('the lease AND of');
+    assert.deepEqual(
+      groups[0]!.map(clause => clause.raw),
+      ['lease']
+    );
+  });
+
+  it('splits OR into alternative groups', () => {
+    const { groups } = parseSearchQuery('nda OR confidentiality');
+    assert.deepEqual(
+      groups.map(group => group.map(clause => clause.raw)),
+      [['nda'], ['confidentiality']]
+    );
+  });
+
+  it('negates clauses after NOT or a leading dash', () => {
+    const [group] = parseSearchQuery('lease NOT equipment -vehicle').groups;
+    assert.deepEqual(
+      group!.map(clause => [clause.raw, clause.negated]),
+      [
+        ['lease', false],
+        ['equipment', true],
+        ['vehicle', true],
+      ]
+    );
+  });
+
+  it('drops groups with only negated clauses', () => {
+    const { groups } = parseSearchQuery('lease OR -equipment');
+    assert.equal(groups.length, 1);
+  });
+
+  it('parses text qualifiers, including aliases and phrases', () => {
+    const [group] = parseSearchQuery('parties:"Acme Corp" type:NDA').groups;
+    const [party, type] = group as FieldClause[];
+
+    assert.equal(party!.qualifier, 'party');
+    assert.deepEqual(party!.tokens, ['acme', 'corp']);
+    assert.equal(type!.qualifier, 'type');
+  });
+
+  it('parses date and number comparisons', () => {
+    const [group] = parseSearchQuery(
+      'expires:<2026-12-31 value:>=50000 effective:2024-01-01..2024-12-31'
+    ).groups;
+    const [expires, value, effective] = group as FieldClause[];
+
+    assert.deepEqual(expires!.dateComparison, {
+      operator: '<',
+      value: '2026-12-31',
+    });
+    assert.deepEqual(value!.numberComparison, {
+      operator: '>=',
+      value: 50000,
+    });
+    assert.deepEqual(effective!.dateComparison, {
+      operator: 'range',
+      value: '2024-01-01',
+      upper: '2024-12-31',
+    });
+  });
+
+  it('rejects invalid qualifier values', () => {
+    assert.throws(() => parseSearchQuery('expires:soon'), SearchQueryError);
+    assert.throws(() => parseSearchQuery('value:>lots'), SearchQueryError);
+    assert.throws(() => parseSearchQuery('party:""'), SearchQueryError);
+  });
+
+  it('rejects unknown qualifiers, listing the supported ones', () => {
+    assert.throws(
+      () => parseSearchQuery('partyy:Acme'),
+      (error: unknown) =>
+        error instanceof SearchQueryError &&
+        error.message.startsWith('Unknown search qualifier "partyy:"') &&
+        error.message.includes('party: ')
+    );
+    assert.throws(() => parseSearchQuery('lease -note:see'), SearchQueryError);
+  });
+
+  it('keeps URLs and times as text', () => {
+    const { groups } = parseSearchQuery('https://example.com 10:30 party:Acme');
+
+    assert.deepEqual(
+      groups[0]!.map(clause => [clause.type, clause.raw]),
+      [
+        ['phrase', 'https://example.com'],
+        ['phrase', '10:30'],
+        ['field', 'party:Acme'],
+      ]
+    );
+  });
+
+  it('collects positive text and party terms for highlighting', () => {
+    const { highlightTerms } = parseSearchQuery(
+      'indemnity party:Acme type:NDA -termination'
+    );
+    assert.deepEqual(highlightTerms, ['indemnity', 'acme']);
+  });
+});
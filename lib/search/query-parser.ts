@@ -0,0 +1,137 @@
+/**
+ * Search Query Parser
+ * Parses free-text search queries into boolean groups of term and phrase
+ * clauses.
+ *
+ * Supported syntax:
+ * - Bare words are required terms (implicit AND): `master services acme`
+ * - Quoted text is an exact phrase: `"limitation of liability"`
+ * - `OR` separates alternative groups: `nda OR confidentiality`
+ * - `NOT` or a leading `-` excludes the next clause: `lease NOT equipment`
+ * - `AND` is accepted and ignored since it is the default
+ * - `field:value` restricts a clause to one field, see qualifiers.ts:
+ *   `party:"Acme Corp" type:NDA expires:<2026-12-31 value:>=50000`
+ * - URLs (`https://...`) and times (`10:30`) are plain text, not qualifiers
+ */
+
+import { tokenize, isStopWord } from './tokenizer.js';
+import { parseQualifier, type FieldClause } from './qualifiers.js';
+
+// A single free-text term or phrase requirement
+export interface TextClause {
+  type: 'term' | 'phrase';
+  raw: string;
+  tokens: string[];
+  negated: boolean;
+}
+
+export type QueryClause = TextClause | FieldClause;
+
+// Parsed query: an agreement matches if it satisfies any group, and
+// satisfies a group when every positive clause matches and no negated one does
+export interface ParsedQuery {
+  groups: QueryClause[][];
+  highlightTerms: string[];
+}
+
+const QUERY_TOKEN_PATTERN =
+  /(-?)(?:([A-Za-z_]+):(?:"([^"]*)"?|(\S+))|"([^"]*)"?|(\S+))/g;
+
+/**
+ * Parses a search query string
+ * @param query - Raw query from the user
+ * @returns Parsed query with boolean groups and terms for highlighting
+ * @throws SearchQueryError for unknown qualifiers or invalid qualifier values
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const groups: QueryClause[][] = [[]];
+  let negateNext = false;
+
+  for (const match of query.matchAll(QUERY_TOKEN_PATTERN)) {
+    const [, dash, qualifier, qualifierPhrase, qualifierWord, phrase, word] =
+      match;
+    const currentGroup = groups[groups.length - 1]!;
+
+    if (word === 'OR') {
+      if (currentGroup.length > 0) groups.push([]);
+      negateNext = false;
+      continue;
+    }
+    if (word === 'AND') {
+      continue;
+    }
+    if (word === 'NOT') {
+      negateNext = true;
+      continue;
+    }
+
+    const negated = negateNext || !!dash;
+    negateNext = false;
+
+    // `https://...` has the shape of a qualifier but is a URL
+    const isUrl = qualifierWord?.startsWith('//') ?? false;
+
+    if (qualifier && !isUrl) {
+      currentGroup.push(
+        parseQualifier(qualifier, qualifierPhrase ?? qualifierWord!, negated)
+      );
+      continue;
+    }
+
+    const raw = qualifier ? match[0].slice(dash!.length) : (phrase ?? word!);
+    const clause = buildClause(raw, phrase !== undefined, negated);
+    if (clause) {
+      currentGroup.push(clause);
+    }
+  }
+
+  const nonEmptyGroups = groups.filter(group =>
+    group.some(clause => !clause.negated)
+  );
+
+  return {
+    groups: nonEmptyGroups,
+    highlightTerms: collectHighlightTerms(nonEmptyGroups),
+  };
+}
+
+/**
+ * Builds a clause from raw text, dropping clauses with no searchable tokens
+ */
+function buildClause(
+  raw: string,
+  isPhrase: boolean,
+  negated: boolean
+): TextClause | null {
+  const tokens = tokenize(raw);
+
+  if (isPhrase || tokens.length > 1) {
+    if (!tokens.some(token => !isStopWord(token))) return null;
+    return { type: 'phrase', raw, tokens, negated };
+  }
+
+  const [token] = tokens;
+  if (!token || isStopWord(token)) return null;
+  return { type: 'term', raw, tokens, negated };
+}
+
+/**
+ * Collects the positive clause text used to centre result snippets
+ * Only free-text and summary/party qualifiers can appear in a summary
+ */
+function collectHighlightTerms(groups: QueryClause[][]): string[] {
+  const terms = new Set<string>();
+  for (const group of groups) {
+    for (const clause of group) {
+      if (clause.negated) continue;
+      if (
+        clause.type !== 'field' ||
+        clause.qualifier === 'summary' ||
+        clause.qualifier === 'party'
+      ) {
+        terms.add(clause.tokens.join(' '));
+      }
+    }
+  }
+  return [...terms];
+}
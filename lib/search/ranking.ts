@@ -0,0 +1,200 @@
+/**
+ * Search Ranking
+ * BM25F-style relevance scoring of agreements against a parsed query.
+ * Each field is tokenized separately and weighted by a boost so matches in
+ * titles and party names outrank matches buried in summaries.
+ */
+
+import type { Agreement } from '../mcp/types.js';
+import type { ParsedQuery, QueryClause, TextClause } from './query-parser.js';
+import { matchesQualifier } from './qualifiers.js';
+import { tokenize, isStopWord } from './tokenizer.js';
+
+export type SearchField =
+  | 'title'
+  | 'parties'
+  | 'type'
+  | 'category'
+  | 'fileName'
+  | 'summary';
+
+// Relative importance of a match in each field
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  parties: 3,
+  type: 2,
+  category: 2,
+  fileName: 1.5,
+  summary: 1,
+};
+
+// BM25 tuning: term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface SearchHit {
+  agreement: Agreement;
+  score: number;
+}
+
+interface IndexedAgreement {
+  agreement: Agreement;
+  fields: Record<SearchField, string[]>;
+}
+
+/**
+ * Extracts searchable text for each field of an agreement
+ */
+function extractFields(agreement: Agreement): Record<SearchField, string> {
+  return {
+    title: agreement.title || '',
+    parties: (agreement.parties || [])
+      .map(p => `${p.preferred_name || ''} ${p.name_in_agreement || ''}`)
+      .join(' '),
+    type: agreement.type || '',
+    category: agreement.category || '',
+    fileName: agreement.file_name || '',
+    summary: agreement.summary || '',
+  };
+}
+
+/**
+ * Tokenizes every field of an agreement
+ */
+function indexAgreement(agreement: Agreement): IndexedAgreement {
+  const text = extractFields(agreement);
+  const fields = {} as Record<SearchField, string[]>;
+  for (const field of Object.keys(FIELD_BOOSTS) as SearchField[]) {
+    fields[field] = tokenize(text[field]);
+  }
+  return { agreement, fields };
+}
+
+/**
+ * Counts occurrences of a clause's token sequence within a field
+ */
+export function countOccurrences(
+  fieldTokens: string[],
+  clause: TextClause
+): number {
+  const { tokens } = clause;
+  let count = 0;
+
+  for (let i = 0; i <= fieldTokens.length - tokens.length; i++) {
+    let matched = true;
+    for (let j = 0; j < tokens.length; j++) {
+      if (fieldTokens[i + j] !== tokens[j]) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) count++;
+  }
+
+  return count;
+}
+
+/**
+ * Checks whether a clause matches anywhere in an indexed agreement
+ */
+function clauseMatches(doc: IndexedAgreement, clause: QueryClause): boolean {
+  if (clause.type === 'field') {
+    return matchesQualifier(doc.agreement, clause);
+  }
+
+  return (Object.keys(FIELD_BOOSTS) as SearchField[]).some(
+    field => countOccurrences(doc.fields[field], clause) > 0
+  );
+}
+
+/**
+ * Checks whether an indexed agreement satisfies a group of clauses
+ */
+function groupMatches(doc: IndexedAgreement, group: QueryClause[]): boolean {
+  return group.every(clause =>
+    clause.negated ? !clauseMatches(doc, clause) : clauseMatches(doc, clause)
+  );
+}
+
+/**
+ * Ranks agreements against a parsed query
+ * Agreements that do not satisfy the query are excluded; ties (including
+ * qualifier-only queries, which all score zero) keep the original API order
+ * @param agreements - Agreements to search
+ * @param query - Parsed search query
+ * @returns Matching agreements sorted by descending relevance
+ */
+export function rankAgreements(
+  agreements: Agreement[],
+  query: ParsedQuery
+): SearchHit[] {
+  const docs = agreements.map(indexAgreement);
+  const fields = Object.keys(FIELD_BOOSTS) as SearchField[];
+
+  // Average field lengths for length normalization
+  const avgLength = {} as Record<SearchField, number>;
+  for (const field of fields) {
+    const total = docs.reduce((sum, doc) => sum + doc.fields[field].length, 0);
+    avgLength[field] = docs.length > 0 ? total / docs.length || 1 : 1;
+  }
+
+  // Inverse document frequency per clause
+  const idfCache = new Map<TextClause, number>();
+  const idf = (clause: TextClause): number => {
+    let value = idfCache.get(clause);
+    if (value === undefined) {
+      const df = docs.filter(doc => clauseMatches(doc, clause)).length;
+      value = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      idfCache.set(clause, value);
+    }
+    return value;
+  };
+
+  const scoreClause = (doc: IndexedAgreement, clause: QueryClause): number => {
+    // Field qualifiers filter results but do not affect relevance
+    if (clause.type === 'field') return 0;
+
+    let weightedTf = 0;
+    for (const field of fields) {
+      const tf = countOccurrences(doc.fields[field], clause);
+      if (tf === 0) continue;
+      const norm =
+        1 - BM25_B + BM25_B * (doc.fields[field].length / avgLength[field]);
+      weightedTf += (FIELD_BOOSTS[field] * tf) / norm;
+    }
+
+    // Phrases score by how many meaningful tokens they contain
+    const weight =
+      clause.type === 'phrase'
+        ? clause.tokens.filter(token => !isStopWord(token)).length
+        : 1;
+
+    return (
+      (weight * idf(clause) * weightedTf * (BM25_K1 + 1)) /
+      (weightedTf + BM25_K1)
+    );
+  };
+
+  const hits: SearchHit[] = [];
+  for (const doc of docs) {
+    const matchingGroups = query.groups.filter(group =>
+      groupMatches(doc, group)
+    );
+    if (matchingGroups.length === 0) continue;
+
+    // Score the best-matching alternative
+    const score = Math.max(
+      ...matchingGroups.map(group =>
+        group
+          .filter(clause => !clause.negated)
+          .reduce((sum, clause) => sum + scoreClause(doc, clause), 0)
+      )
+    );
+    hits.push({ agreement: doc.agreement, score });
+  }
+
+  return hits
+    .map((hit, index) => ({ hit, index }))
+    .sort((a, b) => b.hit.score - a.hit.score || a.index - b.index)
+    .map(({ hit }) => hit);
+}
@@ -0,0 +1,220 @@
+/**
+ * Semantic Search
+ * Embedding index over agreement titles, summaries and parties, blended
+ * with keyword relevance so synonyms ("NDA" vs "confidentiality agreement")
+ * are found while exact keyword matches still rank first.
+ *
+ * Indexes are isolated per account and provider, and only vectors of the
+ * agreements the caller just listed are ever scored, so one account's
+ * agreements can never surface in another account's results.
+ */
+
+import { createHash } from 'crypto';
+import { config } from '../config.js';
+import { MemoryLRUCache, type CacheStore } from '../cache.js';
+import { logger } from '../logger.js';
+import type { Agreement } from '../mcp/types.js';
+import type { ParsedQuery } from './query-parser.js';
+import { matchesQueryQualifiers } from './passages.js';
+import { rankAgreements } from './ranking.js';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings.js';
+
+interface IndexedVector {
+  // Hash of the embedded text, so edited agreements are re-embedded
+  fingerprint: string;
+  vector: number[];
+}
+
+// Vectors for one account and provider, keyed by agreement ID
+export type SemanticIndex = Record<string, IndexedVector>;
+
+export interface HybridSearchHit {
+  agreement: Agreement;
+  score: number;
+  keywordScore: number;
+  semanticScore: number;
+}
+
+let semanticIndexCache: CacheStore<SemanticIndex> = new MemoryLRUCache({
+  maxEntries: config.search.indexMaxAccounts,
+  defaultTtlMs: config.search.indexTtlMs,
+});
+
+/**
+ * Replaces the semantic index store (e.g. with a Redis/KV adapter)
+ */
+export function setSemanticIndexCache(store: CacheStore<SemanticIndex>): void {
+  semanticIndexCache = store;
+}
+
+/**
+ * Builds the text embedded for an agreement
+ * @param agreement - Agreement to describe
+ * @returns Title, type, category, parties and summary as one passage
+ */
+export function buildEmbeddingText(agreement: Agreement): string {
+  const parties = (agreement.parties || [])
+    .map(party => party.preferred_name || party.name_in_agreement)
+    .filter(Boolean)
+    .join(', ');
+
+  return [
+    agreement.title || agreement.file_name,
+    [agreement.type, agreement.category].filter(Boolean).join(' - '),
+    parties && `Parties: ${parties}`,
+    agreement.summary,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Builds the text embedded for a query from its positive terms and phrases
+ * Field qualifiers and excluded terms are not semantic content
+ */
+function buildQueryText(query: ParsedQuery): string {
+  return query.groups
+    .flat()
+    .filter(clause => clause.type !== 'field' && !clause.negated)
+    .map(clause => clause.raw)
+    .join(' ');
+}
+
+/**
+ * Returns vectors for the given agreements, embedding only those that are
+ * new or changed since the account's index was last updated
+ * @param provider - Embedding provider
+ * @param accountId - Account the agreements belong to
+ * @param agreements - Agreements listed for the caller
+ * @returns Vector per agreement ID
+ */
+export async function indexAgreements(
+  provider: EmbeddingProvider,
+  accountId: string,
+  agreements: Agreement[]
+): Promise<Map<string, number[]>> {
+  const key = `${provider.id}:${accountId}`;
+  let index: SemanticIndex = {};
+  try {
+    index = (await semanticIndexCache.get(key)) || {};
+  } catch (error) {
+    logger.warn('Semantic index read failed', {
+      error: error instanceof Error ? error.message : String(error),
+      context: 'semantic_search',
+    });
+  }
+
+  const pending: Array<{ id: string; text: string; fingerprint: string }> = [];
+  for (const agreement of agreements) {
+    const text = buildEmbeddingText(agreement);
+    const fingerprint = createHash('sha256').update(text).digest('hex');
+    if (index[agreement.id]?.fingerprint !== fingerprint) {
+      pending.push({ id: agreement.id, text, fingerprint });
+    }
+  }
+
+  if (pending.length > 0) {
+    const vectors = await provider.embed(
+      pending.map(item => item.text),
+      'document'
+    );
+    // Copy so a shared in-memory index is never half-updated
+    index = { ...index };
+    pending.forEach((item, i) => {
+      index[item.id] = { fingerprint: item.fingerprint, vector: vectors[i]! };
+    });
+
+    try {
+      await semanticIndexCache.set(key, index);
+    } catch (error) {
+      logger.warn('Semantic index write failed', {
+        error: error instanceof Error ? error.message : String(error),
+        context: 'semantic_search',
+      });
+    }
+  }
+
+  const vectors = new Map<string, number[]>();
+  for (const agreement of agreements) {
+    const entry = index[agreement.id];
+    if (entry) vectors.set(agreement.id, entry.vector);
+  }
+  return vectors;
+}
+
+/**
+ * Ranks agreements by keyword relevance blended with semantic similarity
+ * Keyword matches always qualify; agreements without one qualify when their
+ * similarity reaches config.search.minSimilarity and they satisfy the
+ * query's field qualifiers
+ * @param provider - Embedding provider
+ * @param accountId - Account the agreements belong to
+ * @param agreements - Agreements listed for the caller
+ * @param query - Parsed search query
+ * @param semanticWeight - Share of the score from similarity (0-1)
+ * @returns Matching agreements sorted by descending blended score
+ */
+export async function rankAgreementsHybrid(
+  provider: EmbeddingProvider,
+  accountId: string,
+  agreements: Agreement[],
+  query: ParsedQuery,
+  semanticWeight = config.search.semanticWeight
+): Promise<HybridSearchHit[]> {
+  const keywordHits = rankAgreements(agreements, query);
+  const queryText = buildQueryText(query);
+
+  // Qualifier-only queries have nothing to embed
+  if (!queryText) {
+    return keywordHits.map(hit => ({
+      ...hit,
+      keywordScore: hit.score,
+      semanticScore: 0,
+    }));
+  }
+
+  const [queryVector] = await provider.embed([queryText], 'query');
+  const vectors = await indexAgreements(provider, accountId, agreements);
+
+  // Normalize BM25 to 0-1 so it blends with cosine similarity
+  const maxKeyword = Math.max(0, ...keywordHits.map(hit => hit.score));
+  const keywordScores = new Map(
+    keywordHits.map(hit => [
+      hit.agreement.id,
+      maxKeyword > 0 ? hit.score / maxKeyword : 1,
+    ])
+  );
+
+  const hits: HybridSearchHit[] = [];
+  for (const agreement of agreements) {
+    const vector = vectors.get(agreement.id);
+    const similarity =
+      vector && queryVector
+        ? Math.max(0, cosineSimilarity(queryVector, vector))
+        : 0;
+    const keywordScore = keywordScores.get(agreement.id);
+
+    if (keywordScore === undefined) {
+      if (
+        similarity < config.search.minSimilarity ||
+        !matchesQueryQualifiers(agreement, query)
+      ) {
+        continue;
+      }
+    }
+
+    hits.push({
+      agreement,
+      keywordScore: keywordScore ?? 0,
+      semanticScore: similarity,
+      score:
+        (1 - semanticWeight) * (keywordScore ?? 0) +
+        semanticWeight * similarity,
+    });
+  }
+
+  return hits
+    .map((hit, index) => ({ hit, index }))
+    .sort((a, b) => b.hit.score - a.hit.score || a.index - b.index)
+    .map(({ hit }) => hit);
+}
@@ -0,0 +1,84 @@
+/**
+ * Search Snippets
+ * Builds short excerpts centred on the first matched query term
+ */
+
+const DEFAULT_SNIPPET_LENGTH = 200;
+
+/**
+ * Finds the earliest word-start position of any needle in the text
+ */
+function findFirstMatch(
+  text: string,
+  needles: string[]
+): { index: number; length: number } | null {
+  const lowerText = text.toLowerCase();
+  let best: { index: number; length: number } | null = null;
+
+  for (const needle of needles) {
+    const lowerNeedle = needle.toLowerCase();
+    if (!lowerNeedle) continue;
+
+    let index = lowerText.indexOf(lowerNeedle);
+    while (index > 0 && /[\p{L}\p{N}]/u.test(lowerText[index - 1]!)) {
+      index = lowerText.indexOf(lowerNeedle, index + 1);
+    }
+
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { index, length: lowerNeedle.length };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Builds a snippet of text centred on the first match of any needle
+ * Falls back to the start of the text when nothing matches
+ * @param text - Source text
+ * @param needles - Terms or phrases to centre on
+ * @param maxLength - Maximum snippet length, excluding ellipses
+ * @returns Snippet with leading/trailing ellipses where text was cut
+ */
+export function buildSnippet(
+  text: string,
+  needles: string[],
+  maxLength: number = DEFAULT_SNIPPET_LENGTH
+): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const match = findFirstMatch(text, needles);
+  let start = 0;
+  if (match) {
+    const centre = match.index + Math.floor(match.length / 2);
+    start = Math.max(
+      0,
+      Math.min(centre - Math.floor(maxLength / 2), text.length - maxLength)
+    );
+
+    // Avoid cutting a word in half at the start
+    if (start > 0) {
+      const nextSpace = text.indexOf(' ', start);
+      if (nextSpace !== -1 && nextSpace < match.index) {
+        start = nextSpace + 1;
+      }
+    }
+  }
+
+  const end = Math.min(text.length, start + maxLength);
+  return `${start > 0 ? '...' : ''}${text.substring(start, end)}${
+    end < text.length ? '...' : ''
+  }`;
+}
+
+/**
+ * Checks whether any needle occurs in the text
+ * @param text - Source text
+ * @param needles - Terms or phrases to look for
+ * @returns True if at least one needle matches
+ */
+export function containsAny(text: string, needles: string[]): boolean {
+  return findFirstMatch(text, needles) !== null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Search Tokenizer
+ * Splits free text into normalized tokens shared by query parsing and
+ * document indexing so both sides agree on what a "term" is
+ */
+
+// Common English words that carry no ranking signal
+export const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'has',
+  'have',
+  'in',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'were',
+  'will',
+  'with',
+]);
+
+/**
+ * Normalizes a single lowercase token
+ * Strips possessives and simple plurals so "services" matches "service"
+ * @param token - Lowercase token
+ * @returns Normalized token
+ */
+export function normalizeToken(token: string): string {
+  let normalized = token.replace(/'s$/, '');
+
+  if (
+    normalized.length > 3 &&
+    normalized.endsWith('s') &&
+    !normalized.endsWith('ss')
+  ) {
+    normalized = normalized.slice(0, -1);
+  }
+
+  return normalized;
+}
+
+/**
+ * Splits text into normalized tokens
+ * Stop words are kept so phrase positions stay intact; use isStopWord to
+ * skip them when scoring
+ * @param text - Text to tokenize
+ * @returns Array of normalized tokens in document order
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(token => token.replace(/^'+|'+$/g, ''))
+    .filter(Boolean)
+    .map(normalizeToken);
+}
+
+/**
+ * Checks whether a normalized token is a stop word
+ * @param token - Normalized token
+ * @returns True if the token should be ignored for scoring
+ */
+export function isStopWord(token: string): boolean {
+  return STOP_WORDS.has(token);
+}
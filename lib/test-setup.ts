@@ -0,0 +1,17 @@
+/**
+ * Test Setup
+ * Loaded before every test file (see the "test" script) so lib/config.ts
+ * can be imported without a real Docusign app. Values already set in the
+ * environment win.
+ */
+
+const TEST_ENV: Record<string, string> = {
+  DOCUSIGN_INTEGRATION_KEY: 'test-integration-key',
+  DOCUSIGN_SECRET_KEY: 'test-secret-key',
+  DOCUSIGN_REDIRECT_URI: 'http://localhost:3000/auth/callback',
+  OAUTH_ENCRYPTION_KEYS: 'test-encryption-key-0123456789abcdefghij',
+};
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+  process.env[key] ??= value;
+}